@@ -1,13 +1,24 @@
 import React, { useState, useEffect } from 'react';
 import { HashRouter, Routes, Route, Link, useLocation } from 'react-router-dom';
-import { UploadedContentProvider } from './contexts/UploadedContentContext';
+import { UploadedContentProvider, useUploadedContent } from './contexts/UploadedContentContext';
 import HomePage from './pages/HomePage';
 import StudyPage from './pages/StudyPage';
 import QuizPage from './pages/QuizPage';
 import DashboardPage from './pages/DashboardPage';
+import RecoveryPage from './pages/RecoveryPage';
+import BackupPage from './pages/BackupPage';
+import SearchPage from './pages/SearchPage';
+import SyncPage from './pages/SyncPage';
+import SettingsPage from './pages/SettingsPage';
+import PromptTemplatesPage from './pages/PromptTemplatesPage';
 import ThemeToggleButton from './components/common/ThemeToggleButton';
 import ErrorBoundary from './components/common/ErrorBoundary';
-import { AmeenaLogoIcon, HomeIcon, BookOpenIcon, ClipboardListIcon, BarChartIcon } from './components/icons/Icons';
+import Alert from './components/common/Alert';
+import Button from './components/common/Button';
+import UndoBar from './components/common/UndoBar';
+import CourseTree from './components/courses/CourseTree';
+import SearchBox from './components/search/SearchBox';
+import { AmeenaLogoIcon, HomeIcon, BookOpenIcon, ClipboardListIcon, BarChartIcon, DownloadIcon, ArrowPathIcon, Cog6ToothIcon, PencilSquareIcon } from './components/icons/Icons';
 
 const Sidebar: React.FC = () => {
   const location = useLocation();
@@ -15,6 +26,10 @@ const Sidebar: React.FC = () => {
   const navItems = [
     { path: '/', label: 'Home', icon: HomeIcon },
     { path: '/dashboard', label: 'Dashboard', icon: BarChartIcon },
+    { path: '/backup', label: 'Backup', icon: DownloadIcon },
+    { path: '/sync', label: 'Sync', icon: ArrowPathIcon },
+    { path: '/prompts', label: 'Prompts', icon: PencilSquareIcon },
+    { path: '/settings', label: 'Settings', icon: Cog6ToothIcon },
   ];
 
   const isActive = (path: string) => {
@@ -30,6 +45,7 @@ const Sidebar: React.FC = () => {
         <AmeenaLogoIcon style={{ width: 32, height: 32 }} />
         <h1 className="sidebar-title">Ameena AI</h1>
       </div>
+      <SearchBox />
       <nav className="sidebar-nav">
         {navItems.map((item) => {
           const Icon = item.icon;
@@ -45,6 +61,7 @@ const Sidebar: React.FC = () => {
           );
         })}
       </nav>
+      <CourseTree />
       <div className="sidebar-footer">
         <ThemeToggleButton />
       </div>
@@ -52,19 +69,59 @@ const Sidebar: React.FC = () => {
   );
 };
 
+const StorageErrorBanner: React.FC = () => {
+  const { storageError, dismissStorageError } = useUploadedContent();
+  if (!storageError) return null;
+
+  return (
+    <div className="storage-error-banner">
+      <Alert type="error" title="Storage problem" message={storageError} />
+      <Button variant="ghost" onClick={dismissStorageError}>Dismiss</Button>
+    </div>
+  );
+};
+
+const QuarantineBanner: React.FC = () => {
+  const { quarantinedCount } = useUploadedContent();
+  const location = useLocation();
+  if (quarantinedCount === 0 || location.pathname === '/recovery') return null;
+
+  return (
+    <div className="storage-error-banner">
+      <Alert
+        type="warning"
+        title="Some saved data could not be loaded"
+        message={`${quarantinedCount} saved record${quarantinedCount === 1 ? ' was' : 's were'} set aside because ${quarantinedCount === 1 ? 'it' : 'they'} could not be read. You can export or restore ${quarantinedCount === 1 ? 'it' : 'them'} from the recovery page.`}
+      />
+      <Link to="/recovery">
+        <Button variant="secondary">Recover data</Button>
+      </Link>
+    </div>
+  );
+};
+
 const AppContent: React.FC = () => {
   return (
     <div className="app-container">
       <Sidebar />
       <main className="main-content">
+        <StorageErrorBanner />
+        <QuarantineBanner />
         <ErrorBoundary>
           <Routes>
             <Route path="/" element={<HomePage />} />
-            <Route path="/study/:id" element={<StudyPage />} />
-            <Route path="/quiz/:id" element={<QuizPage />} />
+            <Route path="/study/:contentId" element={<StudyPage />} />
+            <Route path="/quiz/:contentId" element={<QuizPage />} />
             <Route path="/dashboard" element={<DashboardPage />} />
+            <Route path="/recovery" element={<RecoveryPage />} />
+            <Route path="/backup" element={<BackupPage />} />
+            <Route path="/search" element={<SearchPage />} />
+            <Route path="/sync" element={<SyncPage />} />
+            <Route path="/prompts" element={<PromptTemplatesPage />} />
+            <Route path="/settings" element={<SettingsPage />} />
           </Routes>
         </ErrorBoundary>
+        <UndoBar />
       </main>
     </div>
   );
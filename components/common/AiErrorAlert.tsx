@@ -0,0 +1,42 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { AiErrorKind, AiServiceError } from '../../services/llmProvider';
+import Alert from './Alert';
+import Button from './Button';
+
+interface AiErrorAlertProps {
+  error: AiServiceError | string; // A message for problems found before the service was called
+  title?: string; // For messages; failed requests are titled by their kind
+  onRetry?: () => void;
+}
+
+const RECOVERY: Record<AiErrorKind, { title: string; hint?: string; link?: { to: string; label: string }; canRetry: boolean }> = {
+  'missing-key': { title: 'AI provider not set up', hint: 'Choose a provider and complete its settings.', link: { to: '/settings', label: 'Open settings' }, canRetry: false },
+  quota: { title: 'Usage limit reached', hint: 'Wait a minute and try again, or check the usage and budgets on the dashboard.', link: { to: '/dashboard', label: 'View usage' }, canRetry: true },
+  safety: { title: 'Blocked by safety filters', hint: 'Rephrase the request, or adjust the prompt template for this kind of material.', link: { to: '/prompts', label: 'Edit prompts' }, canRetry: true },
+  network: { title: 'Connection problem', hint: 'Check the internet connection, or that the model server is running.', canRetry: true },
+  'invalid-output': { title: 'Unusable reply', hint: 'Trying again usually gives a usable reply.', canRetry: true },
+  'too-short': { title: 'Not enough material', hint: 'Add more text to the material first.', canRetry: false },
+  unknown: { title: 'Generation failed', canRetry: true },
+};
+
+/** Why an AI request failed, with the way out that fits it: the settings, the dashboard, the prompts or trying again. */
+const AiErrorAlert: React.FC<AiErrorAlertProps> = ({ error, title, onRetry }) => {
+  if (typeof error === 'string') return <Alert type="error" title={title} message={error} />;
+
+  const recovery = RECOVERY[error.kind];
+  const showRetry = onRetry && recovery.canRetry;
+  return (
+    <div className="ai-error">
+      <Alert type={error.kind === 'quota' ? 'warning' : 'error'} title={recovery.title} message={recovery.hint ? `${error.message} ${recovery.hint}` : error.message} />
+      {(recovery.link || showRetry) && (
+        <div className="ai-error-actions">
+          {showRetry && <Button variant="secondary" onClick={onRetry}>Try again</Button>}
+          {recovery.link && <Link to={recovery.link.to}><Button variant="ghost">{recovery.link.label}</Button></Link>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AiErrorAlert;
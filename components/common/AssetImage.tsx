@@ -0,0 +1,18 @@
+import React from 'react';
+import { getAssetIdFromUrl } from '../../services/assetStore';
+import { useAssetUrl } from '../../hooks/useAssetUrl';
+
+/**
+ * An <img> that also accepts "asset:<id>" references, loading the image from the asset store
+ * only when it is rendered.
+ */
+const AssetImage: React.FC<React.ImgHTMLAttributes<HTMLImageElement>> = ({ src, alt, ...props }) => {
+  const assetId = getAssetIdFromUrl(src);
+  const { url } = useAssetUrl(assetId ?? undefined);
+  const resolvedSrc = assetId ? url : src;
+
+  if (!resolvedSrc) return <div className="asset-image-placeholder" role="img" aria-label={alt} />;
+  return <img src={resolvedSrc} alt={alt} {...props} />;
+};
+
+export default AssetImage;
@@ -0,0 +1,17 @@
+import React from 'react';
+import { ChunkProgress } from '../../services/geminiService';
+
+const ChunkProgressIndicator: React.FC<{ progress: ChunkProgress }> = ({ progress }) => {
+  const percentage = progress.stage === 'reduce' ? 100 : (progress.completed / progress.total) * 100;
+
+  return (
+    <div className="chunk-progress" role="status" aria-live="polite">
+      <p>{progress.message}</p>
+      <div className="chunk-progress-bar">
+        <div className="chunk-progress-bar-inner" style={{ width: `${percentage}%` }}></div>
+      </div>
+    </div>
+  );
+};
+
+export default ChunkProgressIndicator;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { TIMESTAMP_CITATION_PATTERN, parseTimestamp } from '../../services/transcriptService';
+import { SOURCE_CITATION_PATTERN } from '../../services/sourceService';
+
+// Where a cited moment leads: a link out (e.g. a YouTube video) or a seek in an in-page player.
+export type CitationTarget = { href: string } | { onSeek: () => void };
+
+// Groups: 1 = source number, 2 = timestamp within that source, 3 = timestamp of a single-source material.
+const CITATION_PATTERN = new RegExp(`${SOURCE_CITATION_PATTERN.source}|${TIMESTAMP_CITATION_PATTERN.source}`, 'g');
+
+interface TimestampedTextProps {
+  text: string;
+  // Resolves a cited moment; citations render as plain text when omitted or when it returns null.
+  resolveTimestamp?: (seconds: number, sourceNumber?: number) => CitationTarget | null;
+  sourceLabels?: string[]; // Labels of the material's sources, shown for [S2] citations
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+/**
+ * Renders plain text, turning [mm:ss] and [S2 mm:ss] citations into links or buttons that jump to that
+ * moment of the source recording, and [S2] citations into labelled source badges.
+ */
+const TimestampedText: React.FC<TimestampedTextProps> = ({ text, resolveTimestamp, sourceLabels, className, style }) => {
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const sourceNumber = match[1] ? Number(match[1]) : undefined;
+    const timestamp = match[2] || match[3];
+    const sourceLabel = sourceNumber ? sourceLabels?.[sourceNumber - 1] : undefined;
+    const target = timestamp ? resolveTimestamp?.(parseTimestamp(timestamp), sourceNumber) : null;
+    if (!target && !sourceLabel) continue;
+
+    parts.push(text.slice(lastIndex, match.index));
+    const title = sourceLabel ? `Source ${sourceNumber}: ${sourceLabel}` : undefined;
+    if (!target) {
+      parts.push(<span key={match.index} className="source-citation" title={title}>{match[0]}</span>);
+    } else if ('href' in target) {
+      parts.push(
+        <a key={match.index} href={target.href} target="_blank" rel="noopener noreferrer" className="timestamp-link" title={title}>
+          {match[0]}
+        </a>
+      );
+    } else {
+      parts.push(
+        <button key={match.index} type="button" onClick={target.onSeek} className="timestamp-link" title={title}>
+          {match[0]}
+        </button>
+      );
+    }
+    lastIndex = match.index! + match[0].length;
+  }
+  parts.push(text.slice(lastIndex));
+
+  return <div className={className} style={{ whiteSpace: 'pre-wrap', ...style }}>{parts}</div>;
+};
+
+export default TimestampedText;
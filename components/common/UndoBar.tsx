@@ -0,0 +1,28 @@
+import React, { useEffect } from 'react';
+import { useUploadedContent } from '../../contexts/UploadedContentContext';
+import Button from './Button';
+
+// How long a destructive action can be undone before the bar disappears.
+const UNDO_TIMEOUT_MS = 10000;
+
+const UndoBar: React.FC = () => {
+  const { undoAction, dismissUndo } = useUploadedContent();
+
+  useEffect(() => {
+    if (!undoAction) return;
+    const timer = setTimeout(dismissUndo, UNDO_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [undoAction, dismissUndo]);
+
+  if (!undoAction) return null;
+
+  return (
+    <div className="undo-bar" role="status" aria-live="polite">
+      <span>{undoAction.message}</span>
+      <Button variant="ghost" onClick={() => { undoAction.undo(); dismissUndo(); }}>Undo</Button>
+      <Button variant="ghost" onClick={dismissUndo} aria-label="Dismiss">✕</Button>
+    </div>
+  );
+};
+
+export default UndoBar;
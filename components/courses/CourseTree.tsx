@@ -0,0 +1,168 @@
+import React, { useState, useMemo } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { useUploadedContent } from '../../contexts/UploadedContentContext';
+import { buildCourseTree, wouldCreateCycle, CourseTreeNode } from '../../services/courseService';
+import { MATERIAL_DRAG_TYPE, COURSE_DRAG_TYPE } from '../../constants';
+import { ChevronDownIcon, ChevronRightIcon, FolderIcon, PlusIcon } from '../icons/Icons';
+
+// The dashboard filter for materials that are not in any course.
+export const UNFILED_COURSE_FILTER = 'unfiled';
+
+export const courseFilterPath = (courseId: string) => `/dashboard?course=${encodeURIComponent(courseId)}`;
+
+/** Handlers that accept dragged materials and folders, dropping them into the given course (or out of all courses). */
+const useCourseDropTarget = (courseId: string | undefined) => {
+  const { courses, moveMaterialToCourse, moveCourse } = useUploadedContent();
+  const [isOver, setIsOver] = useState(false);
+
+  const accepts = (event: React.DragEvent) => {
+    const types = Array.from(event.dataTransfer.types);
+    return types.includes(MATERIAL_DRAG_TYPE) || types.includes(COURSE_DRAG_TYPE);
+  };
+
+  return {
+    isOver,
+    handlers: {
+      onDragOver: (event: React.DragEvent) => {
+        if (!accepts(event)) return;
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'move';
+        setIsOver(true);
+      },
+      onDragLeave: () => setIsOver(false),
+      onDrop: (event: React.DragEvent) => {
+        setIsOver(false);
+        const materialId = event.dataTransfer.getData(MATERIAL_DRAG_TYPE);
+        const draggedCourseId = event.dataTransfer.getData(COURSE_DRAG_TYPE);
+        if (materialId) {
+          event.preventDefault();
+          moveMaterialToCourse(materialId, courseId);
+        } else if (draggedCourseId && !wouldCreateCycle(courses, draggedCourseId, courseId)) {
+          event.preventDefault();
+          moveCourse(draggedCourseId, courseId);
+        }
+      },
+    },
+  };
+};
+
+const CourseTreeItem: React.FC<{ node: CourseTreeNode; depth: number; activeCourseId: string | null; materialCounts: Map<string, number> }> = ({ node, depth, activeCourseId, materialCounts }) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const { isOver, handlers } = useCourseDropTarget(node.course.id);
+  const hasChildren = node.children.length > 0;
+
+  return (
+    <li>
+      <div
+        className={`course-tree-item ${activeCourseId === node.course.id ? 'active' : ''} ${isOver ? 'drop-target' : ''}`}
+        style={{ paddingLeft: `${depth * 12}px` }}
+        draggable
+        onDragStart={event => {
+          event.dataTransfer.setData(COURSE_DRAG_TYPE, node.course.id);
+          event.dataTransfer.effectAllowed = 'move';
+        }}
+        {...handlers}
+      >
+        <button
+          type="button"
+          className="course-tree-toggle"
+          onClick={() => setIsExpanded(expanded => !expanded)}
+          aria-label={isExpanded ? `Collapse ${node.course.name}` : `Expand ${node.course.name}`}
+          style={{ visibility: hasChildren ? 'visible' : 'hidden' }}
+        >
+          {isExpanded ? <ChevronDownIcon /> : <ChevronRightIcon />}
+        </button>
+        <Link to={courseFilterPath(node.course.id)} className="course-tree-link">
+          <FolderIcon />
+          <span>{node.course.name}</span>
+          {!!materialCounts.get(node.course.id) && <span className="course-tree-count">{materialCounts.get(node.course.id)}</span>}
+        </Link>
+      </div>
+      {hasChildren && isExpanded && (
+        <ul className="course-tree-list">
+          {node.children.map(child => (
+            <CourseTreeItem key={child.course.id} node={child} depth={depth + 1} activeCourseId={activeCourseId} materialCounts={materialCounts} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+/** Collapsible tree of courses and folders in the sidebar. Materials and folders can be dropped onto it. */
+const CourseTree: React.FC = () => {
+  const { courses, studyMaterials, createCourse } = useUploadedContent();
+  const location = useLocation();
+  const [isOpen, setIsOpen] = useState(true);
+  const [newCourseName, setNewCourseName] = useState<string | null>(null);
+  const unfiledTarget = useCourseDropTarget(undefined);
+
+  const tree = useMemo(() => buildCourseTree(courses), [courses]);
+  const materialCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    studyMaterials.forEach(material => {
+      if (material.courseId && !material.archivedAt) counts.set(material.courseId, (counts.get(material.courseId) || 0) + 1);
+    });
+    return counts;
+  }, [studyMaterials]);
+
+  const activeCourseId = location.pathname === '/dashboard' ? new URLSearchParams(location.search).get('course') : null;
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = newCourseName?.trim();
+    if (name) createCourse(name);
+    setNewCourseName(null);
+  };
+
+  return (
+    <div className="course-tree">
+      <div className="course-tree-header">
+        <button type="button" className="course-tree-heading" onClick={() => setIsOpen(open => !open)} aria-expanded={isOpen}>
+          {isOpen ? <ChevronDownIcon /> : <ChevronRightIcon />}
+          <span>Courses</span>
+        </button>
+        <button type="button" className="course-tree-add" onClick={() => { setIsOpen(true); setNewCourseName(''); }} aria-label="New course">
+          <PlusIcon />
+        </button>
+      </div>
+
+      {isOpen && (
+        <>
+          {newCourseName !== null && (
+            <form onSubmit={handleCreate}>
+              <input
+                type="text"
+                className="form-input course-tree-input"
+                value={newCourseName}
+                onChange={event => setNewCourseName(event.target.value)}
+                onBlur={handleCreate}
+                onKeyDown={event => { if (event.key === 'Escape') setNewCourseName(null); }}
+                placeholder="Course name"
+                autoFocus
+              />
+            </form>
+          )}
+          <ul className="course-tree-list">
+            {tree.map(node => (
+              <CourseTreeItem key={node.course.id} node={node} depth={0} activeCourseId={activeCourseId} materialCounts={materialCounts} />
+            ))}
+            <li>
+              <div className={`course-tree-item ${activeCourseId === UNFILED_COURSE_FILTER ? 'active' : ''} ${unfiledTarget.isOver ? 'drop-target' : ''}`} {...unfiledTarget.handlers}>
+                <span className="course-tree-toggle" />
+                <Link to={courseFilterPath(UNFILED_COURSE_FILTER)} className="course-tree-link course-tree-unfiled">
+                  <span>Unfiled</span>
+                </Link>
+              </div>
+            </li>
+          </ul>
+          {courses.length === 0 && newCourseName === null && (
+            <p className="course-tree-hint">Create a course, then drag materials from the dashboard onto it.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CourseTree;
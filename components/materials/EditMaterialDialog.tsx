@@ -0,0 +1,149 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { StudyMaterial, MaterialSource } from '../../types';
+import { combineSourceTexts } from '../../services/sourceService';
+import { parseTags, getCoursePath } from '../../services/courseService';
+import { useUploadedContent } from '../../contexts/UploadedContentContext';
+import Button from '../common/Button';
+import Alert from '../common/Alert';
+
+interface EditMaterialDialogProps {
+  material: StudyMaterial;
+  onSave: (updates: Partial<StudyMaterial>) => void;
+  onClose: () => void;
+}
+
+type Difficulty = NonNullable<StudyMaterial['difficulty']>;
+
+/** Edits the metadata of a material and the extracted text of its sources. */
+const EditMaterialDialog: React.FC<EditMaterialDialogProps> = ({ material, onSave, onClose }) => {
+  const { courses } = useUploadedContent();
+  const [title, setTitle] = useState(material.title || '');
+  const [author, setAuthor] = useState(material.author || '');
+  const [subject, setSubject] = useState(material.subject || '');
+  const [topic, setTopic] = useState(material.topic || '');
+  const [difficulty, setDifficulty] = useState<Difficulty>(material.difficulty || 'Medium');
+  const [courseId, setCourseId] = useState(material.courseId || '');
+  const [tags, setTags] = useState((material.tags || []).join(', '));
+  const [sources, setSources] = useState<MaterialSource[]>(material.sources);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => { if (event.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const updateSource = (sourceId: string, changes: Partial<MaterialSource>) => {
+    setSources(prev => prev.map(source => source.id === sourceId ? { ...source, ...changes } : source));
+  };
+
+  const sourceTextChanged = sources.some((source, i) => source.extractedText !== material.sources[i].extractedText || source.label !== material.sources[i].label);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!title.trim()) {
+      setError("Please enter a title.");
+      return;
+    }
+    if (sources.some(source => !source.extractedText.trim())) {
+      setError("Source text cannot be empty.");
+      return;
+    }
+    const updates: Partial<StudyMaterial> = {
+      title: title.trim(),
+      author: author.trim() || undefined,
+      subject: subject.trim(),
+      topic: topic.trim(),
+      difficulty,
+      courseId: courseId || undefined,
+      tags: parseTags(tags),
+    };
+    if (sourceTextChanged) {
+      updates.sources = sources;
+      updates.extractedText = combineSourceTexts(sources);
+    }
+    onSave(updates);
+  };
+
+  // Rendered into the body: cards and the sticky study header would otherwise clip or offset the fixed backdrop.
+  return createPortal(
+    <div className="dialog-backdrop" onClick={onClose}>
+      <div className="dialog" role="dialog" aria-modal="true" aria-labelledby="edit-material-title" onClick={event => event.stopPropagation()}>
+        <form onSubmit={handleSubmit}>
+          <h2 id="edit-material-title">Edit Material</h2>
+          {error && <Alert type="error" message={error} style={{ marginBottom: '1rem' }} />}
+
+          <div className="dialog-fields">
+            <div>
+              <label htmlFor="edit-title" className="form-label">Title</label>
+              <input id="edit-title" type="text" className="form-input" value={title} onChange={e => setTitle(e.target.value)} autoFocus />
+            </div>
+            <div>
+              <label htmlFor="edit-author" className="form-label">Author</label>
+              <input id="edit-author" type="text" className="form-input" value={author} onChange={e => setAuthor(e.target.value)} />
+            </div>
+            <div className="dialog-field-row">
+              <div>
+                <label htmlFor="edit-subject" className="form-label">Subject</label>
+                <input id="edit-subject" type="text" className="form-input" value={subject} onChange={e => setSubject(e.target.value)} />
+              </div>
+              <div>
+                <label htmlFor="edit-topic" className="form-label">Topic</label>
+                <input id="edit-topic" type="text" className="form-input" value={topic} onChange={e => setTopic(e.target.value)} />
+              </div>
+              <div>
+                <label htmlFor="edit-difficulty" className="form-label">Difficulty</label>
+                <select id="edit-difficulty" className="form-select" value={difficulty} onChange={e => setDifficulty(e.target.value as Difficulty)}>
+                  <option value="Easy">Easy</option>
+                  <option value="Medium">Medium</option>
+                  <option value="Hard">Hard</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="dialog-field-row">
+              <div>
+                <label htmlFor="edit-course" className="form-label">Course</label>
+                <select id="edit-course" className="form-select" value={courseId} onChange={e => setCourseId(e.target.value)}>
+                  <option value="">Unfiled</option>
+                  {courses
+                    .map(course => ({ id: course.id, path: getCoursePath(courses, course.id).join(' / ') }))
+                    .sort((a, b) => a.path.localeCompare(b.path))
+                    .map(course => <option key={course.id} value={course.id}>{course.path}</option>)}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="edit-tags" className="form-label">Tags</label>
+                <input id="edit-tags" type="text" className="form-input" value={tags} onChange={e => setTags(e.target.value)} placeholder="e.g., exam, chapter 3" />
+              </div>
+            </div>
+
+            {sources.map((source, i) => (
+              <div key={source.id}>
+                <label htmlFor={`edit-source-${source.id}`} className="form-label">
+                  {sources.length > 1 ? `Source ${i + 1} text` : 'Source text'}
+                </label>
+                {sources.length > 1 && (
+                  <input type="text" className="form-input" aria-label={`Source ${i + 1} name`} value={source.label} onChange={e => updateSource(source.id, { label: e.target.value })} style={{ marginBottom: '0.5rem' }} />
+                )}
+                <textarea id={`edit-source-${source.id}`} className="form-textarea" rows={8} value={source.extractedText} onChange={e => updateSource(source.id, { extractedText: e.target.value })} />
+              </div>
+            ))}
+            {sourceTextChanged && (
+              <Alert type="info" message="Generated notes, explanations and quizzes were made from the previous text. Regenerate them to reflect your changes." />
+            )}
+          </div>
+
+          <div className="dialog-actions">
+            <Button type="button" variant="ghost" onClick={onClose}>Cancel</Button>
+            <Button type="submit">Save Changes</Button>
+          </div>
+        </form>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default EditMaterialDialog;
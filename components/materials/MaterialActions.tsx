@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { StudyMaterial } from '../../types';
+import { useUploadedContent } from '../../contexts/UploadedContentContext';
+import Button from '../common/Button';
+import EditMaterialDialog from './EditMaterialDialog';
+import { PencilSquareIcon, DocumentDuplicateIcon, ArchiveBoxIcon, TrashIcon } from '../icons/Icons';
+
+interface MaterialActionsProps {
+  material: StudyMaterial;
+  onDuplicated?: (copy: StudyMaterial) => void;
+  onBeforeDelete?: () => void; // E.g. to leave the material's page before it disappears
+}
+
+/** Edit, duplicate, archive and delete buttons for a material. Destructive actions can be undone from the undo bar. */
+const MaterialActions: React.FC<MaterialActionsProps> = ({ material, onDuplicated, onBeforeDelete }) => {
+  const { editStudyMaterial, deleteStudyMaterial, setStudyMaterialArchived, duplicateStudyMaterial } = useUploadedContent();
+  const [isEditing, setIsEditing] = useState(false);
+  const [isDuplicating, setIsDuplicating] = useState(false);
+
+  const handleDuplicate = async () => {
+    setIsDuplicating(true);
+    try {
+      const copy = await duplicateStudyMaterial(material.id);
+      onDuplicated?.(copy);
+    } catch (error) {
+      console.error("Failed to duplicate the material:", error);
+    } finally {
+      setIsDuplicating(false);
+    }
+  };
+
+  const handleDelete = () => {
+    onBeforeDelete?.();
+    deleteStudyMaterial(material.id);
+  };
+
+  const iconStyle = { width: 18, height: 18 };
+
+  return (
+    <div className="material-actions">
+      <Button variant="ghost" onClick={() => setIsEditing(true)} leftIcon={<PencilSquareIcon style={iconStyle} />}>Edit</Button>
+      <Button variant="ghost" onClick={handleDuplicate} isLoading={isDuplicating} leftIcon={<DocumentDuplicateIcon style={iconStyle} />}>Duplicate</Button>
+      <Button variant="ghost" onClick={() => setStudyMaterialArchived(material.id, !material.archivedAt)} leftIcon={<ArchiveBoxIcon style={iconStyle} />}>
+        {material.archivedAt ? 'Unarchive' : 'Archive'}
+      </Button>
+      <Button variant="ghost" className="material-actions-delete" onClick={handleDelete} leftIcon={<TrashIcon style={iconStyle} />}>Delete</Button>
+
+      {isEditing && (
+        <EditMaterialDialog
+          material={material}
+          onClose={() => setIsEditing(false)}
+          onSave={updates => {
+            editStudyMaterial(material.id, updates);
+            setIsEditing(false);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default MaterialActions;
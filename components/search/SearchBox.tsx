@@ -0,0 +1,32 @@
+import React from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { MagnifyingGlassIcon } from '../icons/Icons';
+
+/** Sidebar search field. Typing opens the search page and keeps its query in the URL. */
+const SearchBox: React.FC = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const isSearchPage = location.pathname === '/search';
+  const query = isSearchPage ? new URLSearchParams(location.search).get('q') || '' : '';
+
+  const handleChange = (value: string) => {
+    // While on the search page, each keystroke replaces the entry so Back leaves the search.
+    navigate(value ? `/search?q=${encodeURIComponent(value)}` : '/search', { replace: isSearchPage });
+  };
+
+  return (
+    <form className="sidebar-search" role="search" onSubmit={event => event.preventDefault()}>
+      <MagnifyingGlassIcon className="sidebar-search-icon" aria-hidden="true" />
+      <input
+        type="search"
+        className="form-input"
+        placeholder="Search your library"
+        aria-label="Search your library"
+        value={query}
+        onChange={event => handleChange(event.target.value)}
+      />
+    </form>
+  );
+};
+
+export default SearchBox;
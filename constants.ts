@@ -11,3 +11,14 @@ export const DEFAULT_QUIZ_QUESTIONS_count = 5;
 
 export const LOCAL_STORAGE_CONTENT_KEY = 'ameenaAiContent';
 export const LOCAL_STORAGE_QUIZZES_KEY = 'ameenaAiQuizzes';
+export const INDEXED_DB_NAME = 'ameenaAiLibrary';
+export const LOCAL_STORAGE_SYNC_SETTINGS_KEY = 'ameenaAiSyncSettings';
+export const LOCAL_STORAGE_LLM_SETTINGS_KEY = 'ameenaAiLlmSettings';
+export const LOCAL_STORAGE_RESPONSE_CACHE_STATS_KEY = 'ameenaAiResponseCacheStats';
+export const LOCAL_STORAGE_USAGE_SETTINGS_KEY = 'ameenaAiUsageSettings';
+export const LOCAL_STORAGE_PROMPT_TEMPLATES_KEY = 'ameenaAiPromptTemplates';
+export const LOCAL_STORAGE_OUTPUT_LANGUAGE_KEY = 'ameenaAiOutputLanguage';
+
+// Drag-and-drop payload types for filing materials and folders in the course tree.
+export const MATERIAL_DRAG_TYPE = 'application/x-ameena-material';
+export const COURSE_DRAG_TYPE = 'application/x-ameena-course';
@@ -1,14 +1,40 @@
+import React, { createContext, useState, useContext, ReactNode, useCallback, useEffect, useRef } from 'react';
+import { StudyMaterial, UploadedContent, Quiz, Course } from '../types';
+import { Library, loadLibrary, loadRecords, migrateLegacyStorage, externalizeMaterialAssets, saveMaterial, mergeMaterialUpdate, saveQuiz, deleteMaterial, restoreDeletedMaterial, copyMaterialAssets, saveCourse, deleteCourse, describeStorageError } from '../services/libraryRepository';
+import { LibraryChange, broadcastLibraryChange, subscribeToLibraryChanges } from '../services/libraryChannel';
+import { subscribeToLibraryDbBlocked } from '../services/libraryDb';
 
+const LIBRARY_BLOCKED_MESSAGE = "Your library is being updated to a new format, which waits until Ameena AI is closed in your other tabs. Close or reload them to continue.";
 
-
-import React, { createContext, useState, useContext, ReactNode, useCallback, useEffect } from 'react';
-import { StudyMaterial, UploadedContent, Quiz } from '../types';
-import { LOCAL_STORAGE_CONTENT_KEY, LOCAL_STORAGE_QUIZZES_KEY } from '../constants';
+/** The last destructive change, offered for undo until the next one replaces it or it is dismissed. */
+export interface UndoAction {
+  id: number;
+  message: string;
+  undo: () => void;
+}
 
 interface UploadedContentContextType {
   studyMaterials: StudyMaterial[];
-  addContent: (content: UploadedContent) => void;
+  isLibraryLoading: boolean; // True until the library has been read from IndexedDB
+  storageError: string | null; // Set when the library could not be read or a change could not be saved
+  dismissStorageError: () => void;
+  quarantinedCount: number; // Stored records that could not be loaded; they can be exported from the recovery page
+  reloadLibrary: () => Promise<void>;
+  runLibraryTask: <T>(task: () => Promise<T>) => Promise<T>; // Runs a task that reads and writes the stored library itself, e.g. a sync
+  addContent: (content: UploadedContent & Pick<StudyMaterial, 'courseId'>) => Promise<void>;
   updateStudyMaterial: (materialId: string, updates: Partial<StudyMaterial>) => void;
+  editStudyMaterial: (materialId: string, updates: Partial<StudyMaterial>) => void; // Like updateStudyMaterial, but can be undone
+  deleteStudyMaterial: (materialId: string) => void; // Also deletes the material's quiz attempts
+  setStudyMaterialArchived: (materialId: string, archived: boolean) => void;
+  duplicateStudyMaterial: (materialId: string) => Promise<StudyMaterial>;
+  courses: Course[];
+  createCourse: (name: string, parentId?: string) => Course;
+  renameCourse: (courseId: string, name: string) => void;
+  moveCourse: (courseId: string, parentId: string | undefined) => void;
+  deleteCourse: (courseId: string) => void; // Its folders and materials move up to the parent course
+  moveMaterialToCourse: (materialId: string, courseId: string | undefined) => void;
+  undoAction: UndoAction | null;
+  dismissUndo: () => void;
   getStudyMaterialById: (id: string) => StudyMaterial | undefined;
   addQuizResult: (contentId: string, quizResult: Quiz) => void;
   getQuizzesForContent: (contentId: string) => Quiz[];
@@ -16,49 +42,278 @@ interface UploadedContentContextType {
 
 const UploadedContentContext = createContext<UploadedContentContextType | undefined>(undefined);
 
-export const UploadedContentProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [studyMaterials, setStudyMaterials] = useState<StudyMaterial[]>(() => {
-    try {
-      const savedMaterials = localStorage.getItem(LOCAL_STORAGE_CONTENT_KEY);
-      return savedMaterials ? JSON.parse(savedMaterials) : [];
-    } catch (error) {
-      console.error("Failed to parse study materials from localStorage:", error);
-      localStorage.removeItem(LOCAL_STORAGE_CONTENT_KEY); // Clear corrupted data
-      return [];
-    }
+/** Replaces the changed records with their stored versions: deleted ones are dropped and new ones added. */
+const mergeChangedRecords = <T extends { id: string }>(current: T[], changedIds: string[], stored: T[], isPending: (id: string) => boolean = () => false): T[] => {
+  const changed = new Set(changedIds);
+  const storedById = new Map(stored.map(record => [record.id, record]));
+  const merged = current.flatMap(record => {
+    if (!changed.has(record.id) || isPending(record.id)) return [record];
+    const storedRecord = storedById.get(record.id);
+    return storedRecord ? [storedRecord] : [];
   });
+  const known = new Set(current.map(record => record.id));
+  return [...merged, ...stored.filter(record => !known.has(record.id))];
+};
 
-  const [allQuizzes, setAllQuizzes] = useState<Quiz[]>(() => {
-    try {
-      const savedQuizzes = localStorage.getItem(LOCAL_STORAGE_QUIZZES_KEY);
-      return savedQuizzes ? JSON.parse(savedQuizzes) : [];
-    } catch (error) {
-      console.error("Failed to parse quizzes from localStorage:", error);
-      localStorage.removeItem(LOCAL_STORAGE_QUIZZES_KEY); // Clear corrupted data
-      return [];
-    }
-  });
+export const UploadedContentProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [studyMaterials, setStudyMaterials] = useState<StudyMaterial[]>([]);
+  const [allQuizzes, setAllQuizzes] = useState<Quiz[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [isLibraryLoading, setIsLibraryLoading] = useState(true);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [quarantinedCount, setQuarantinedCount] = useState(0);
+  const [undoAction, setUndoAction] = useState<UndoAction | null>(null);
+
+  // Writes run one after another so updates reach IndexedDB in the order they were made.
+  const writeQueue = useRef<Promise<void>>(Promise.resolve());
+  // The last stored version of every material, kept current with changes from other tabs.
+  const savedMaterials = useRef(new Map<string, StudyMaterial>());
+  // How many writes to each material are still queued in this tab. Until they are saved, changes
+  // from other tabs do not replace the material on screen, which would hide this tab's edits.
+  const pendingMaterialWrites = useRef(new Map<string, number>());
+
+  const applyLibrary = useCallback((library: Library) => {
+    savedMaterials.current = new Map(library.materials.map(material => [material.id, material]));
+    setStudyMaterials(library.materials);
+    setAllQuizzes(library.quizzes);
+    setCourses(library.courses);
+    setQuarantinedCount(library.quarantinedCount);
+  }, []);
 
   useEffect(() => {
-    localStorage.setItem(LOCAL_STORAGE_CONTENT_KEY, JSON.stringify(studyMaterials));
-  }, [studyMaterials]);
-  
-  useEffect(() => {
-    localStorage.setItem(LOCAL_STORAGE_QUIZZES_KEY, JSON.stringify(allQuizzes));
-  }, [allQuizzes]);
+    let cancelled = false;
+    const load = async () => {
+      try {
+        await migrateLegacyStorage();
+        const library = await loadLibrary();
+        if (!cancelled) applyLibrary(library);
+      } catch (error) {
+        console.error("Failed to load the study library from IndexedDB:", error);
+        if (!cancelled) setStorageError("Your saved study materials could not be loaded. Check that this browser allows site storage, then reload the page.");
+      } finally {
+        if (!cancelled) setIsLibraryLoading(false);
+      }
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [applyLibrary]);
+
+  // Shown while another tab keeps an older version of the library open; cleared once it has opened.
+  useEffect(() => subscribeToLibraryDbBlocked(blocked => {
+    setStorageError(current => blocked ? LIBRARY_BLOCKED_MESSAGE : current === LIBRARY_BLOCKED_MESSAGE ? null : current);
+  }), []);
+
+  const enqueueWrite = useCallback(<T,>(write: () => Promise<T>): Promise<T> => {
+    const run = writeQueue.current.then(write);
+    writeQueue.current = run.then(() => undefined, error => {
+      console.error("Failed to save to IndexedDB:", error);
+      setStorageError(describeStorageError(error));
+    });
+    return run;
+  }, []);
+
+  const enqueueMaterialWrite = useCallback(<T,>(materialIds: string[], write: () => Promise<T>): Promise<T> => {
+    const pending = pendingMaterialWrites.current;
+    materialIds.forEach(id => pending.set(id, (pending.get(id) || 0) + 1));
+    return enqueueWrite(async () => {
+      try {
+        return await write();
+      } finally {
+        materialIds.forEach(id => {
+          const count = (pending.get(id) || 1) - 1;
+          if (count > 0) pending.set(id, count);
+          else pending.delete(id);
+        });
+      }
+    });
+  }, [enqueueWrite]);
 
-  const addContent = useCallback((content: UploadedContent) => {
-    const newMaterial: StudyMaterial = { ...content, chatHistory: [] };
-    setStudyMaterials(prev => [...prev, newMaterial]);
+  // Reads the records another tab changed. It is queued behind this tab's own writes so it sees them too.
+  useEffect(() => subscribeToLibraryChanges((change: LibraryChange) => {
+    enqueueWrite(async () => {
+      if (change.everything) {
+        applyLibrary(await loadLibrary());
+        return;
+      }
+      const materialIds = change.materials || [];
+      const quizIds = change.quizzes || [];
+      const courseIds = change.courses || [];
+      const [materials, quizzes, changedCourses] = await Promise.all([
+        loadRecords<StudyMaterial>('material', materialIds),
+        loadRecords<Quiz>('quiz', quizIds),
+        loadRecords<Course>('course', courseIds),
+      ]);
+      materialIds.forEach(id => savedMaterials.current.delete(id));
+      materials.forEach(material => savedMaterials.current.set(material.id, material));
+      const isPending = (id: string) => pendingMaterialWrites.current.has(id);
+      if (materialIds.length > 0) setStudyMaterials(prev => mergeChangedRecords(prev, materialIds, materials, isPending).sort((a, b) => a.uploadDate.localeCompare(b.uploadDate)));
+      if (quizIds.length > 0) setAllQuizzes(prev => mergeChangedRecords(prev, quizIds, quizzes));
+      if (courseIds.length > 0) setCourses(prev => mergeChangedRecords(prev, courseIds, changedCourses).sort((a, b) => a.name.localeCompare(b.name)));
+    }).catch(() => { /* Reported through storageError. */ });
+  }), [enqueueWrite, applyLibrary]);
+
+  const offerUndo = useCallback((message: string, undo: () => void) => {
+    setUndoAction({ id: Date.now(), message, undo });
   }, []);
 
+  const addContent = useCallback(async (content: UploadedContent & Pick<StudyMaterial, 'courseId'>) => {
+    await enqueueWrite(async () => {
+      const newMaterial = await externalizeMaterialAssets<StudyMaterial>({ ...content, chatHistory: [] });
+      await saveMaterial(newMaterial);
+      savedMaterials.current.set(newMaterial.id, newMaterial);
+      broadcastLibraryChange({ materials: [newMaterial.id] });
+      setStudyMaterials(prev => [...prev, newMaterial]);
+    });
+  }, [enqueueWrite]);
+
   const updateStudyMaterial = useCallback((materialId: string, updates: Partial<StudyMaterial>) => {
+    // The page sees the update at once; generated images are moved to the asset store in the background.
     setStudyMaterials(prev =>
       prev.map(material =>
         material.id === materialId ? { ...material, ...updates } : material
       )
     );
-  }, []);
+
+    enqueueMaterialWrite([materialId], async () => {
+      const storedUpdates = await externalizeMaterialAssets(updates);
+      // Merged into the stored version rather than this tab's copy, so other tabs' changes survive.
+      const merged = await mergeMaterialUpdate(materialId, storedUpdates);
+      if (!merged) return;
+      savedMaterials.current.set(materialId, merged.next);
+      broadcastLibraryChange({ materials: [materialId] });
+      const isLastPendingWrite = pendingMaterialWrites.current.get(materialId) === 1;
+
+      setStudyMaterials(prev => prev.map(material => {
+        if (material.id !== materialId) return material;
+        // Once every update is saved, show the stored version, which includes other tabs' changes.
+        if (isLastPendingWrite) return merged.next;
+        // Otherwise swap in the asset references unless a newer update has replaced the field in the meantime.
+        const swapped = { ...material };
+        (Object.keys(storedUpdates) as (keyof StudyMaterial)[]).forEach(key => {
+          if (material[key] === updates[key]) (swapped as Record<string, unknown>)[key] = storedUpdates[key];
+        });
+        return swapped;
+      }));
+    }).catch(() => { /* Reported through storageError. */ });
+  }, [enqueueMaterialWrite]);
+
+  const editStudyMaterial = useCallback((materialId: string, updates: Partial<StudyMaterial>) => {
+    const material = studyMaterials.find(item => item.id === materialId);
+    if (!material) return;
+    const previousValues = Object.fromEntries(Object.keys(updates).map(key => [key, material[key as keyof StudyMaterial]])) as Partial<StudyMaterial>;
+    updateStudyMaterial(materialId, updates);
+    offerUndo(`Saved changes to "${updates.title || material.title}".`, () => updateStudyMaterial(materialId, previousValues));
+  }, [studyMaterials, updateStudyMaterial, offerUndo]);
+
+  const setStudyMaterialArchived = useCallback((materialId: string, archived: boolean) => {
+    const material = studyMaterials.find(item => item.id === materialId);
+    if (!material) return;
+    updateStudyMaterial(materialId, { archivedAt: archived ? new Date().toISOString() : undefined });
+    if (archived) offerUndo(`Archived "${material.title}".`, () => updateStudyMaterial(materialId, { archivedAt: undefined }));
+  }, [studyMaterials, updateStudyMaterial, offerUndo]);
+
+  const deleteStudyMaterial = useCallback((materialId: string) => {
+    const material = studyMaterials.find(item => item.id === materialId);
+    if (!material) return;
+    const quizzes = allQuizzes.filter(quiz => quiz.contentId === materialId);
+    setStudyMaterials(prev => prev.filter(item => item.id !== materialId));
+    setAllQuizzes(prev => prev.filter(quiz => quiz.contentId !== materialId));
+
+    // The deleted records and assets are kept in memory so the deletion can be undone.
+    const deletion = enqueueWrite(async () => {
+      const stored = savedMaterials.current.get(materialId);
+      if (!stored) return null;
+      savedMaterials.current.delete(materialId);
+      const deleted = await deleteMaterial(stored);
+      broadcastLibraryChange({ materials: [materialId], quizzes: deleted.quizzes.map(quiz => quiz.id) });
+      return deleted;
+    });
+    deletion.catch(() => { /* Reported through storageError. */ });
+
+    offerUndo(`Deleted "${material.title}".`, () => {
+      enqueueWrite(async () => {
+        const deleted = await deletion;
+        if (!deleted) return;
+        await restoreDeletedMaterial(deleted);
+        savedMaterials.current.set(materialId, deleted.material);
+        broadcastLibraryChange({ materials: [materialId], quizzes: deleted.quizzes.map(quiz => quiz.id) });
+        setStudyMaterials(prev => [...prev, deleted.material].sort((a, b) => a.uploadDate.localeCompare(b.uploadDate)));
+        setAllQuizzes(prev => [...prev, ...quizzes]);
+      }).catch(() => { /* Reported through storageError. */ });
+    });
+  }, [studyMaterials, allQuizzes, enqueueWrite, offerUndo]);
+
+  const duplicateStudyMaterial = useCallback((materialId: string) => enqueueWrite(async () => {
+    const stored = savedMaterials.current.get(materialId);
+    if (!stored) throw new Error(`Study material ${materialId} is not in the library.`);
+    const copy = await copyMaterialAssets<StudyMaterial>({
+      ...stored,
+      id: `content_${Date.now()}`,
+      title: `${stored.title || 'Untitled'} (copy)`,
+      uploadDate: new Date().toISOString(),
+      archivedAt: undefined,
+    });
+    await saveMaterial(copy);
+    savedMaterials.current.set(copy.id, copy);
+    broadcastLibraryChange({ materials: [copy.id] });
+    setStudyMaterials(prev => [...prev, copy]);
+    return copy;
+  }), [enqueueWrite]);
+
+  const storeCourse = useCallback((course: Course) => {
+    setCourses(prev => [...prev.filter(item => item.id !== course.id), course].sort((a, b) => a.name.localeCompare(b.name)));
+    enqueueWrite(async () => {
+      await saveCourse(course);
+      broadcastLibraryChange({ courses: [course.id] });
+    }).catch(() => { /* Reported through storageError. */ });
+  }, [enqueueWrite]);
+
+  const createCourse = useCallback((name: string, parentId?: string) => {
+    const course: Course = { id: `course_${Date.now()}`, name, parentId, createdAt: new Date().toISOString() };
+    storeCourse(course);
+    return course;
+  }, [storeCourse]);
+
+  const renameCourse = useCallback((courseId: string, name: string) => {
+    const course = courses.find(item => item.id === courseId);
+    if (course) storeCourse({ ...course, name });
+  }, [courses, storeCourse]);
+
+  const moveCourse = useCallback((courseId: string, parentId: string | undefined) => {
+    const course = courses.find(item => item.id === courseId);
+    if (course && course.parentId !== parentId) storeCourse({ ...course, parentId });
+  }, [courses, storeCourse]);
+
+  const moveMaterialToCourse = useCallback((materialId: string, courseId: string | undefined) => {
+    updateStudyMaterial(materialId, { courseId });
+  }, [updateStudyMaterial]);
+
+  const deleteCourseAndMoveContents = useCallback((courseId: string) => {
+    const course = courses.find(item => item.id === courseId);
+    if (!course) return;
+    const childIds = courses.filter(item => item.parentId === courseId).map(item => item.id);
+    const materialIds = studyMaterials.filter(material => material.courseId === courseId).map(material => material.id);
+
+    setCourses(prev => prev.filter(item => item.id !== courseId).map(item => item.parentId === courseId ? { ...item, parentId: course.parentId } : item));
+    setStudyMaterials(prev => prev.map(material => material.courseId === courseId ? { ...material, courseId: course.parentId } : material));
+    enqueueMaterialWrite(materialIds, async () => {
+      const movedCourses = courses.filter(item => childIds.includes(item.id)).map(item => ({ ...item, parentId: course.parentId }));
+      const movedMaterials = await deleteCourse(courseId, movedCourses, materialIds, course.parentId);
+      movedMaterials.forEach(material => savedMaterials.current.set(material.id, material));
+      broadcastLibraryChange({ courses: [courseId, ...childIds], materials: materialIds });
+    }).catch(() => { /* Reported through storageError. */ });
+
+    offerUndo(`Deleted the folder "${course.name}".`, () => {
+      storeCourse(course);
+      childIds.forEach(id => {
+        const child = courses.find(item => item.id === id);
+        if (child) storeCourse(child);
+      });
+      materialIds.forEach(id => updateStudyMaterial(id, { courseId }));
+    });
+  }, [courses, studyMaterials, enqueueMaterialWrite, offerUndo, storeCourse, updateStudyMaterial]);
+
+  const dismissUndo = useCallback(() => setUndoAction(null), []);
 
   const getStudyMaterialById = useCallback((id: string): StudyMaterial | undefined => {
     return studyMaterials.find(material => material.id === id);
@@ -66,14 +321,41 @@ export const UploadedContentProvider: React.FC<{ children: ReactNode }> = ({ chi
 
   const addQuizResult = useCallback((contentId: string, quizResult: Quiz) => {
     setAllQuizzes(prevQuizzes => [...prevQuizzes, quizResult]);
-  }, []);
+    enqueueWrite(async () => {
+      await saveQuiz(quizResult);
+      broadcastLibraryChange({ quizzes: [quizResult.id] });
+    }).catch(() => { /* Reported through storageError. */ });
+  }, [enqueueWrite]);
 
   const getQuizzesForContent = useCallback((contentId: string): Quiz[] => {
     return allQuizzes.filter(quiz => quiz.contentId === contentId);
   }, [allQuizzes]);
 
+  const dismissStorageError = useCallback(() => setStorageError(null), []);
+
+  // Reads the library again once pending writes are done, e.g. after quarantined records were restored.
+  const reloadLibrary = useCallback(async () => {
+    await writeQueue.current;
+    applyLibrary(await loadLibrary());
+    broadcastLibraryChange({ everything: true });
+  }, [applyLibrary]);
+
+  // The task waits for pending saves and holds back new ones until it is done, so it cannot
+  // overwrite an edit made meanwhile. Its errors are the caller's to report, not storage errors.
+  const runLibraryTask = useCallback(<T,>(task: () => Promise<T>): Promise<T> => {
+    const run = writeQueue.current.then(task);
+    writeQueue.current = run.then(async () => {
+      applyLibrary(await loadLibrary());
+      broadcastLibraryChange({ everything: true });
+    }, () => undefined).catch(error => {
+      console.error("Failed to reload the library:", error);
+      setStorageError(describeStorageError(error));
+    });
+    return run;
+  }, [applyLibrary]);
+
   return (
-    <UploadedContentContext.Provider value={{ studyMaterials, addContent, updateStudyMaterial, getStudyMaterialById, addQuizResult, getQuizzesForContent }}>
+    <UploadedContentContext.Provider value={{ studyMaterials, isLibraryLoading, storageError, dismissStorageError, quarantinedCount, reloadLibrary, runLibraryTask, addContent, updateStudyMaterial, editStudyMaterial, deleteStudyMaterial, setStudyMaterialArchived, duplicateStudyMaterial, courses, createCourse, renameCourse, moveCourse, deleteCourse: deleteCourseAndMoveContents, moveMaterialToCourse, undoAction, dismissUndo, getStudyMaterialById, addQuizResult, getQuizzesForContent }}>
       {children}
     </UploadedContentContext.Provider>
   );
@@ -85,4 +367,4 @@ export const useUploadedContent = (): UploadedContentContextType => {
     throw new Error('useUploadedContent must be used within an UploadedContentProvider');
   }
   return context;
-};
\ No newline at end of file
+};
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { getAsset } from '../services/assetStore';
+
+/**
+ * Loads a stored asset and exposes it as an object URL for <audio>/<img> elements.
+ * The URL is revoked when the asset changes or the component unmounts.
+ */
+export const useAssetUrl = (assetId: string | undefined) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrl(null);
+    setError(null);
+    if (!assetId) return;
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    getAsset(assetId)
+      .then(blob => {
+        if (cancelled) return;
+        if (!blob) {
+          setError('This file is no longer available in this browser.');
+          return;
+        }
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(err => {
+        console.error("Failed to load asset:", err);
+        if (!cancelled) setError('This file could not be loaded.');
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [assetId]);
+
+  return { url, error };
+};
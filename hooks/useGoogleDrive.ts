@@ -1,13 +0,0 @@
-export const useGoogleDrive = () => {
-    // This functionality has been removed.
-    return {
-        isGapiReady: false,
-        isSignedIn: false,
-        isSaving: false,
-        error: "Google Drive functionality has been removed.",
-        successMessage: null,
-        saveToDrive: async () => { console.warn('Google Drive functionality is removed.'); },
-        handleAuthClick: () => { console.warn('Google Drive functionality is removed.'); },
-        clearMessages: () => {}
-    };
-};
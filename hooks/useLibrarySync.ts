@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useUploadedContent } from '../contexts/UploadedContentContext';
+import { syncLibrary, getMaterialSyncStatuses, SyncError, SyncResult, ConflictResolution, MaterialSyncStatus } from '../services/syncService';
+import { createHttpSyncProvider, loadSyncSettings, saveSyncSettings, HttpSyncSettings } from '../services/httpSyncProvider';
+
+/**
+ * Syncs the library with the server configured in the sync settings, and reports when each
+ * material was last synced.
+ */
+export const useLibrarySync = () => {
+  const { studyMaterials, runLibraryTask } = useUploadedContent();
+  const [settings, setSettings] = useState<HttpSyncSettings>(loadSyncSettings);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastResult, setLastResult] = useState<SyncResult | null>(null);
+  const [materialStatuses, setMaterialStatuses] = useState(new Map<string, { status: MaterialSyncStatus; syncedAt?: string }>());
+
+  useEffect(() => {
+    let cancelled = false;
+    getMaterialSyncStatuses(studyMaterials)
+      .then(statuses => { if (!cancelled) setMaterialStatuses(statuses); })
+      .catch(err => console.error("Failed to read the sync state:", err));
+    return () => { cancelled = true; };
+  }, [studyMaterials, lastResult]);
+
+  const updateSettings = useCallback((next: HttpSyncSettings) => {
+    saveSyncSettings(next);
+    setSettings(next);
+    setError(null);
+  }, []);
+
+  /** Runs a sync; `resolutions` picks the winning side of conflicts reported by the previous one. */
+  const syncNow = useCallback(async (resolutions?: Map<string, ConflictResolution>) => {
+    if (!settings.serverUrl.trim()) return;
+    setIsSyncing(true);
+    setError(null);
+    try {
+      setLastResult(await runLibraryTask(() => syncLibrary(createHttpSyncProvider(settings), resolutions)));
+    } catch (err) {
+      console.error("Sync failed:", err);
+      setError(err instanceof SyncError ? err.message : "The sync failed unexpectedly. Your library was not changed.");
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [settings, runLibraryTask]);
+
+  return {
+    settings,
+    updateSettings,
+    isConfigured: !!settings.serverUrl.trim(),
+    isSyncing,
+    error,
+    lastResult,
+    conflicts: lastResult?.conflicts || [],
+    materialStatuses,
+    syncNow,
+  };
+};
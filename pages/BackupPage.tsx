@@ -0,0 +1,195 @@
+import React, { useState, useRef } from 'react';
+import { useUploadedContent } from '../contexts/UploadedContentContext';
+import { StudyMaterial, Course } from '../types';
+import { exportLibraryArchive, readLibraryArchive, previewLibraryImport, importLibraryArchive, createBackupFileName, BackupError, LibraryArchive, ImportPreview } from '../services/backupService';
+import { describeStorageError } from '../services/libraryRepository';
+import Button from '../components/common/Button';
+import Alert from '../components/common/Alert';
+import { DownloadIcon, UploadIcon } from '../components/icons/Icons';
+
+const formatMaterialTitle = (material: StudyMaterial) => material.title || material.originalContent.slice(0, 60) || 'Untitled material';
+const formatCourseName = (course: Course) => course.name || 'Untitled course';
+
+const BackupPage: React.FC = () => {
+  const { studyMaterials, courses, getQuizzesForContent, isLibraryLoading, runLibraryTask } = useUploadedContent();
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [archive, setArchive] = useState<LibraryArchive | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [overwriteIds, setOverwriteIds] = useState<Set<string>>(new Set());
+  const [overwriteCourseIds, setOverwriteCourseIds] = useState<Set<string>>(new Set());
+  const [message, setMessage] = useState<{ type: 'success' | 'error' | 'info'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const quizCount = studyMaterials.reduce((total, material) => total + getQuizzesForContent(material.id).length, 0);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setMessage(null);
+    try {
+      const blob = await exportLibraryArchive();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = createBackupFileName();
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to export the library:", error);
+      setMessage({ type: 'error', text: "The backup could not be created. Please try again." });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setMessage(null);
+    setIsImporting(true);
+    try {
+      const nextArchive = await readLibraryArchive(file);
+      setArchive(nextArchive);
+      setPreview(previewLibraryImport(nextArchive, studyMaterials, courses));
+      setOverwriteIds(new Set());
+      setOverwriteCourseIds(new Set());
+    } catch (error) {
+      console.error("Failed to read the backup:", error);
+      setMessage({ type: 'error', text: error instanceof BackupError ? error.message : "The backup could not be read. Please try again." });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const toggleId = (ids: Set<string>, id: string) => {
+    const next = new Set(ids);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  };
+
+  const toggleOverwrite = (materialId: string) => setOverwriteIds(prev => toggleId(prev, materialId));
+  const toggleCourseOverwrite = (courseId: string) => setOverwriteCourseIds(prev => toggleId(prev, courseId));
+
+  const cancelImport = () => {
+    setArchive(null);
+    setPreview(null);
+  };
+
+  const handleImport = async () => {
+    if (!archive) return;
+    setIsImporting(true);
+    setMessage(null);
+    try {
+      // Held in the library's write queue, so saves still pending from other pages cannot interleave with the import.
+      const result = await runLibraryTask(() => importLibraryArchive(archive, studyMaterials, courses, overwriteIds, overwriteCourseIds));
+      setMessage({ type: 'success', text: `Restored ${result.materials} material${result.materials === 1 ? '' : 's'} and ${result.quizzes} quiz attempt${result.quizzes === 1 ? '' : 's'}.` });
+      cancelImport();
+    } catch (error) {
+      console.error("Failed to import the backup:", error);
+      setMessage({ type: 'error', text: error instanceof DOMException && error.name === 'QuotaExceededError' ? describeStorageError(error) : "The backup could not be imported. Your library was not changed." });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div>
+      <header style={{ marginBottom: '2rem' }}>
+        <h1>Backup &amp; Restore</h1>
+        <p>Move your library between browsers or machines. A backup contains your study materials, chat histories, quiz attempts, generated images and audio recordings.</p>
+      </header>
+
+      {message && <Alert type={message.type} message={message.text} style={{ marginBottom: '1.5rem' }} />}
+
+      <div className="backup-sections">
+        <section className="card">
+          <h2>Download a backup</h2>
+          <p className="backup-summary">{studyMaterials.length} material{studyMaterials.length === 1 ? '' : 's'} and {quizCount} quiz attempt{quizCount === 1 ? '' : 's'} in this browser.</p>
+          <Button leftIcon={<DownloadIcon />} onClick={handleExport} isLoading={isExporting} disabled={isLibraryLoading || studyMaterials.length === 0}>
+            Download backup
+          </Button>
+        </section>
+
+        <section className="card">
+          <h2>Restore from a backup</h2>
+          <p className="backup-summary">Materials from the backup are added to your library. You choose which existing materials may be overwritten.</p>
+          <input ref={fileInputRef} type="file" accept=".zip,application/zip" onChange={handleFileSelected} style={{ display: 'none' }} />
+          {!preview && (
+            <Button variant="secondary" leftIcon={<UploadIcon />} onClick={() => fileInputRef.current?.click()} isLoading={isImporting} disabled={isLibraryLoading}>
+              Choose backup file
+            </Button>
+          )}
+
+          {preview && archive && (
+            <div className="backup-preview">
+              <p className="backup-summary">Backup from {new Date(archive.exportedAt).toLocaleString()} with {preview.quizCount} quiz attempt{preview.quizCount === 1 ? '' : 's'}{preview.courseCount > 0 && ` and ${preview.courseCount} course${preview.courseCount === 1 ? '' : 's'}`}.</p>
+              {preview.invalidCount > 0 && (
+                <Alert type="warning" message={`${preview.invalidCount} record${preview.invalidCount === 1 ? '' : 's'} in this backup could not be read and will be skipped.`} />
+              )}
+
+              <h3>Will be added ({preview.added.length})</h3>
+              {preview.added.length > 0 ? (
+                <ul className="backup-preview-list">
+                  {preview.added.map(material => <li key={material.id}>{formatMaterialTitle(material)}</li>)}
+                </ul>
+              ) : <p className="backup-summary">No new materials.</p>}
+
+              {preview.conflicts.length > 0 && (
+                <>
+                  <h3>Already in your library ({preview.conflicts.length})</h3>
+                  <p className="backup-summary">Tick the materials to replace with the version from the backup. Unticked ones are kept as they are.</p>
+                  <ul className="backup-preview-list backup-conflict-list">
+                    {preview.conflicts.map(({ incoming, existing }) => (
+                      <li key={incoming.id}>
+                        <label className="backup-conflict">
+                          <input type="checkbox" checked={overwriteIds.has(incoming.id)} onChange={() => toggleOverwrite(incoming.id)} />
+                          <span>
+                            {formatMaterialTitle(incoming)}
+                            <span className="backup-conflict-detail">
+                              Backup: {new Date(incoming.uploadDate).toLocaleDateString()}, {incoming.chatHistory?.length || 0} chat messages · In library: {new Date(existing.uploadDate).toLocaleDateString()}, {existing.chatHistory?.length || 0} chat messages
+                            </span>
+                          </span>
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+
+              {preview.courseConflicts.length > 0 && (
+                <>
+                  <h3>Courses already in your library ({preview.courseConflicts.length})</h3>
+                  <p className="backup-summary">Tick the courses to replace with the version from the backup. Unticked ones keep their current name and place.</p>
+                  <ul className="backup-preview-list backup-conflict-list">
+                    {preview.courseConflicts.map(({ incoming, existing }) => (
+                      <li key={incoming.id}>
+                        <label className="backup-conflict">
+                          <input type="checkbox" checked={overwriteCourseIds.has(incoming.id)} onChange={() => toggleCourseOverwrite(incoming.id)} />
+                          <span>
+                            {formatCourseName(incoming)}
+                            {incoming.name !== existing.name && <span className="backup-conflict-detail">In library: {formatCourseName(existing)}</span>}
+                          </span>
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+
+              <div className="backup-preview-actions">
+                <Button onClick={handleImport} isLoading={isImporting} disabled={preview.added.length === 0 && overwriteIds.size === 0}>
+                  Import {preview.added.length + overwriteIds.size} material{preview.added.length + overwriteIds.size === 1 ? '' : 's'}
+                </Button>
+                <Button variant="ghost" onClick={cancelImport} disabled={isImporting}>Cancel</Button>
+              </div>
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default BackupPage;
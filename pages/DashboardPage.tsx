@@ -1,31 +1,56 @@
-import React from 'react';
-import { Link } from 'react-router-dom';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Link, useSearchParams, useNavigate } from 'react-router-dom';
 import { useUploadedContent } from '../contexts/UploadedContentContext';
-import { StudyMaterial, Quiz } from '../types';
+import { StudyMaterial, Quiz, Course } from '../types';
 import Button from '../components/common/Button';
-import { BarChartIcon, BookOpenIcon, ClipboardListIcon, SparklesIcon, UploadIcon } from '../components/icons/Icons';
+import Alert from '../components/common/Alert';
+import LoadingSpinner from '../components/common/LoadingSpinner';
+import MaterialActions from '../components/materials/MaterialActions';
+import { UNFILED_COURSE_FILTER, courseFilterPath } from '../components/courses/CourseTree';
+import { computeQuizStats, getCourseSubtreeIds, getCoursePath } from '../services/courseService';
+import { MATERIAL_DRAG_TYPE } from '../constants';
+import { UsageRecord, UsageSettings, UsageTotals, USAGE_FEATURE_LABELS, UsageFeature, loadUsageSettings, saveUsageSettings, getUsageRecords, sumUsage, groupUsage, formatCost, startOfDay, startOfMonth } from '../services/usageService';
+import { BarChartIcon, BookOpenIcon, ClipboardListIcon, FolderIcon, SparklesIcon, UploadIcon } from '../components/icons/Icons';
 
 const DashboardPage: React.FC = () => {
-  const { studyMaterials, getQuizzesForContent } = useUploadedContent();
-
-  const getTotalQuizzesTaken = () => studyMaterials.reduce((acc, material) => acc + (getQuizzesForContent(material.id)?.length || 0), 0);
-
-  const getAverageQuizScore = () => {
-    let totalScore = 0;
-    let totalQuestions = 0;
-    studyMaterials.forEach(material => {
-      getQuizzesForContent(material.id)?.forEach(quiz => {
-        if (typeof quiz.score === 'number' && quiz.questions.length > 0) {
-          totalScore += quiz.score;
-          totalQuestions += quiz.questions.length;
-        }
-      });
+  const { studyMaterials, getQuizzesForContent, isLibraryLoading, courses, createCourse, renameCourse, deleteCourse } = useUploadedContent();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [showArchived, setShowArchived] = useState(false);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+
+  const courseFilter = searchParams.get('course');
+  const selectedCourse = courses.find(course => course.id === courseFilter);
+  const isUnfiledView = courseFilter === UNFILED_COURSE_FILTER;
+
+  const courseMaterials = useMemo(() => {
+    if (selectedCourse) {
+      const courseIds = getCourseSubtreeIds(courses, selectedCourse.id);
+      return studyMaterials.filter(material => material.courseId && courseIds.has(material.courseId));
+    }
+    if (isUnfiledView) return studyMaterials.filter(material => !material.courseId || !courses.some(course => course.id === material.courseId));
+    return studyMaterials;
+  }, [studyMaterials, courses, selectedCourse, isUnfiledView]);
+
+  const activeMaterials = courseMaterials.filter(material => !material.archivedAt);
+  const archivedCount = courseMaterials.length - activeMaterials.length;
+  const allTags = Array.from(new Set(activeMaterials.flatMap(material => material.tags || []))).sort((a, b) => a.localeCompare(b));
+  const listedMaterials = (showArchived ? courseMaterials : activeMaterials)
+    .filter(material => !tagFilter || material.tags?.includes(tagFilter));
+
+  const stats = computeQuizStats(courseMaterials, getQuizzesForContent);
+
+  // Quiz statistics roll up from each course's folders; inside a course, its folders are listed.
+  const courseRows = courses
+    .filter(course => selectedCourse ? course.parentId === selectedCourse.id : !course.parentId || !courses.some(parent => parent.id === course.parentId))
+    .map(course => {
+      const courseIds = getCourseSubtreeIds(courses, course.id);
+      return { course, stats: computeQuizStats(studyMaterials.filter(material => material.courseId && courseIds.has(material.courseId)), getQuizzesForContent) };
     });
-    if (totalQuestions === 0) return 0;
-    return parseFloat((totalScore / totalQuestions * 100).toFixed(1));
-  };
-  
-  const recentActivities = [...studyMaterials].sort((a,b) => new Date(b.uploadDate).getTime() - new Date(a.uploadDate).getTime()).slice(0, 5);
+
+  const recentActivities = [...activeMaterials].sort((a,b) => new Date(b.uploadDate).getTime() - new Date(a.uploadDate).getTime()).slice(0, 5);
+
+  if (isLibraryLoading) return <LoadingSpinner text="Loading your library..." />;
 
   if (studyMaterials.length === 0) {
     return (
@@ -42,7 +67,7 @@ const DashboardPage: React.FC = () => {
     );
   }
   
-  const averageScore = getAverageQuizScore();
+  const averageScore = stats.averageScore ?? 0;
   const getSubText = (score: number) => {
       if (score === 0) return "No quizzes taken yet";
       if (score >= 85) return "Excellent work!";
@@ -50,6 +75,25 @@ const DashboardPage: React.FC = () => {
       return "Keep reviewing!";
   };
 
+  const handleNewFolder = () => {
+    const name = window.prompt(selectedCourse ? `New folder in "${selectedCourse.name}":` : 'New course name:')?.trim();
+    if (name) createCourse(name, selectedCourse?.id);
+  };
+
+  const handleRenameCourse = () => {
+    if (!selectedCourse) return;
+    const name = window.prompt('Rename course:', selectedCourse.name)?.trim();
+    if (name) renameCourse(selectedCourse.id, name);
+  };
+
+  const handleDeleteCourse = () => {
+    if (!selectedCourse) return;
+    deleteCourse(selectedCourse.id);
+    navigate(selectedCourse.parentId ? courseFilterPath(selectedCourse.parentId) : '/dashboard');
+  };
+
+  const listTitle = selectedCourse ? getCoursePath(courses, selectedCourse.id).join(' / ') : isUnfiledView ? 'Unfiled Materials' : 'All Study Materials';
+
   return (
     <div>
       <header style={{marginBottom: '2rem'}}>
@@ -58,31 +102,258 @@ const DashboardPage: React.FC = () => {
       </header>
 
       <div className="dashboard-grid">
-        <StatCard title="Materials Logged" value={studyMaterials.length.toString()} icon={BookOpenIcon} />
-        <StatCard title="Quizzes Taken" value={getTotalQuizzesTaken().toString()} icon={ClipboardListIcon} />
+        <StatCard title="Materials Logged" value={stats.materialCount.toString()} icon={BookOpenIcon} />
+        <StatCard title="Quizzes Taken" value={stats.quizCount.toString()} icon={ClipboardListIcon} />
         <StatCard title="Average Quiz Score" value={`${averageScore}%`} subText={getSubText(averageScore)} icon={BarChartIcon} />
       </div>
 
       <div className="dashboard-columns">
         <div>
-          <h2>All Study Materials</h2>
+          <div className="dashboard-list-header">
+            <h2>{listTitle}</h2>
+            <div className="dashboard-list-actions">
+              {(selectedCourse || isUnfiledView) && <Link to="/dashboard"><Button variant="ghost">Show all</Button></Link>}
+              {selectedCourse && <Button variant="ghost" onClick={handleRenameCourse}>Rename</Button>}
+              {selectedCourse && <Button variant="ghost" onClick={handleDeleteCourse}>Delete folder</Button>}
+              {archivedCount > 0 && (
+                <Button variant="ghost" onClick={() => setShowArchived(show => !show)}>
+                  {showArchived ? 'Hide archived' : `Show archived (${archivedCount})`}
+                </Button>
+              )}
+            </div>
+          </div>
+          {allTags.length > 0 && (
+            <div className="tag-filter">
+              {allTags.map(tag => (
+                <button key={tag} type="button" className={`tag-chip ${tagFilter === tag ? 'active' : ''}`} onClick={() => setTagFilter(current => current === tag ? null : tag)}>
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
           <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
-            {studyMaterials.map(material => (
-              <MaterialCard key={material.id} material={material} quizzes={getQuizzesForContent(material.id)} />
+            {listedMaterials.length === 0 && (
+              <p>{courseMaterials.length === 0 ? 'No materials here yet. Drag materials onto a course in the sidebar to file them.' : tagFilter ? `No materials tagged #${tagFilter}.` : 'All of these materials are archived.'}</p>
+            )}
+            {listedMaterials.map(material => (
+              <MaterialCard
+                key={material.id}
+                material={material}
+                quizzes={getQuizzesForContent(material.id)}
+                coursePath={getCoursePath(courses, material.courseId)}
+                onTagClick={setTagFilter}
+              />
             ))}
           </div>
         </div>
         <div>
+          <div className="dashboard-list-header">
+            <h2>{selectedCourse ? 'Folders' : 'Courses'}</h2>
+            <Button variant="ghost" onClick={handleNewFolder}>{selectedCourse ? 'New folder' : 'New course'}</Button>
+          </div>
+          {courseRows.length > 0 ? (
+            <div className="course-stats">
+              {courseRows.map(({ course, stats: rowStats }) => <CourseStatsRow key={course.id} course={course} stats={rowStats} />)}
+            </div>
+          ) : (
+            <p style={{ fontSize: '0.875rem' }}>{selectedCourse ? 'No folders in this course.' : 'Group your materials into courses to see quiz results per course.'}</p>
+          )}
+
           <h2>Recent Activity</h2>
           <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
             {recentActivities.map(material => <ActivityItem key={material.id} material={material} />)}
           </div>
         </div>
       </div>
+
+      <AiUsageSection materials={studyMaterials} />
     </div>
   );
 };
 
+const USAGE_MONTHS_SHOWN = 6;
+const USAGE_DAYS_SHOWN = 14;
+
+const formatTokens = (tokens: number) => {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return tokens.toString();
+};
+
+// Days and months in local time, as YYYY-MM-DD and YYYY-MM, so they sort as text.
+const localDay = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+const localMonth = (timestamp: string) => localDay(timestamp).slice(0, 7);
+
+const describeUsage = (totals: UsageTotals) =>
+  `${formatTokens(totals.inputTokens)} tokens in · ${formatTokens(totals.outputTokens)} out${totals.images ? ` · ${totals.images} image${totals.images === 1 ? '' : 's'}` : ''}`;
+
+const describeBudget = (cost: number, budget: number | null) => budget === null ? '' : ` · ${Math.round(cost / budget * 100)}% of ${formatCost(budget)} budget`;
+
+const parseBudget = (value: string) => value.trim() === '' ? null : Math.max(0, Number(value));
+
+/** Tokens, images and estimated cost of AI requests, with the budgets that stop new requests once reached. */
+const AiUsageSection: React.FC<{ materials: StudyMaterial[] }> = ({ materials }) => {
+  const [records, setRecords] = useState<UsageRecord[] | null>(null);
+  const [settings, setSettings] = useState<UsageSettings>(loadUsageSettings);
+  const [draft, setDraft] = useState<Record<keyof UsageSettings, string> | null>(null);
+
+  useEffect(() => {
+    const now = new Date();
+    getUsageRecords(new Date(now.getFullYear(), now.getMonth() - (USAGE_MONTHS_SHOWN - 1), 1))
+      .then(setRecords)
+      .catch(error => {
+        console.error("Failed to load AI usage:", error);
+        setRecords([]);
+      });
+  }, []);
+
+  if (!records) return null;
+
+  const monthStart = startOfMonth().toISOString();
+  const dayStart = startOfDay().toISOString();
+  const monthRecords = records.filter(record => record.timestamp >= monthStart);
+  const today = sumUsage(monthRecords.filter(record => record.timestamp >= dayStart), settings);
+  const month = sumUsage(monthRecords, settings);
+  const byFeature = groupUsage(monthRecords, settings, record => record.feature);
+  const byMaterial = groupUsage(monthRecords.filter(record => record.materialId), settings, record => record.materialId!);
+  const byDay = groupUsage(records, settings, record => localDay(record.timestamp))
+    .sort((a, b) => b.group.localeCompare(a.group)).slice(0, USAGE_DAYS_SHOWN);
+  const byMonth = groupUsage(records, settings, record => localMonth(record.timestamp))
+    .sort((a, b) => b.group.localeCompare(a.group));
+  const budgetReached = (settings.dailyBudget !== null && today.cost >= settings.dailyBudget)
+    || (settings.monthlyBudget !== null && month.cost >= settings.monthlyBudget);
+
+  const editSettings = () => setDraft({
+    inputPricePerMillion: settings.inputPricePerMillion.toString(),
+    outputPricePerMillion: settings.outputPricePerMillion.toString(),
+    pricePerImage: settings.pricePerImage.toString(),
+    dailyBudget: settings.dailyBudget?.toString() ?? '',
+    monthlyBudget: settings.monthlyBudget?.toString() ?? '',
+  });
+
+  const handleSaveSettings = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!draft) return;
+    const next: UsageSettings = {
+      inputPricePerMillion: Math.max(0, Number(draft.inputPricePerMillion) || 0),
+      outputPricePerMillion: Math.max(0, Number(draft.outputPricePerMillion) || 0),
+      pricePerImage: Math.max(0, Number(draft.pricePerImage) || 0),
+      dailyBudget: parseBudget(draft.dailyBudget),
+      monthlyBudget: parseBudget(draft.monthlyBudget),
+    };
+    saveUsageSettings(next);
+    setSettings(next);
+    setDraft(null);
+  };
+
+  const settingField = (key: keyof UsageSettings, label: string, placeholder?: string) => (
+    <div>
+      <label className="form-label" htmlFor={`usage-${key}`}>{label}</label>
+      <input id={`usage-${key}`} type="number" min="0" step="any" className="form-input" placeholder={placeholder} value={draft![key]} onChange={event => setDraft({ ...draft!, [key]: event.target.value })} />
+    </div>
+  );
+
+  const materialTitle = (id: string) => materials.find(material => material.id === id)?.title;
+
+  return (
+    <section className="ai-usage">
+      <div className="dashboard-list-header">
+        <h2>AI Usage</h2>
+        <Button variant="ghost" onClick={() => draft ? setDraft(null) : editSettings()}>{draft ? 'Cancel' : 'Budgets and prices'}</Button>
+      </div>
+
+      {budgetReached && <Alert type="warning" title="Budget reached" message="New AI requests are refused until the period ends or the budget is raised. Saved explanations, notes and cached answers remain available." style={{ marginBottom: '1rem' }} />}
+
+      {draft && (
+        <form className="card sync-settings ai-usage-settings" onSubmit={handleSaveSettings}>
+          <p className="backup-summary">Costs are estimated from the tokens the provider reports, at these prices in US dollars. Set them to 0 for a free local model server. Leave a budget empty for no limit.</p>
+          <div className="sync-settings-row">
+            {settingField('dailyBudget', 'Daily budget ($)', 'No limit')}
+            {settingField('monthlyBudget', 'Monthly budget ($)', 'No limit')}
+          </div>
+          <div className="sync-settings-row">
+            {settingField('inputPricePerMillion', 'Per million input tokens ($)')}
+            {settingField('outputPricePerMillion', 'Per million output tokens ($)')}
+            {settingField('pricePerImage', 'Per image ($)')}
+          </div>
+          <div>
+            <Button type="submit" variant="secondary">Save</Button>
+          </div>
+        </form>
+      )}
+
+      <div className="dashboard-grid">
+        <StatCard title="AI Cost Today" value={formatCost(today.cost)} subText={`${describeUsage(today)}${describeBudget(today.cost, settings.dailyBudget)}`} icon={SparklesIcon} />
+        <StatCard title="AI Cost This Month" value={formatCost(month.cost)} subText={`${describeUsage(month)}${describeBudget(month.cost, settings.monthlyBudget)}`} icon={BarChartIcon} />
+      </div>
+
+      {records.length === 0 ? (
+        <p style={{ fontSize: '0.875rem' }}>No AI requests recorded yet. Usage appears here once you generate explanations, notes, quizzes or chat replies.</p>
+      ) : (
+        <div className="dashboard-columns">
+          <div>
+            <h3>This month by feature</h3>
+            <UsageTable label="Feature" rows={byFeature.map(({ group, totals }) => ({ key: group, label: USAGE_FEATURE_LABELS[group as UsageFeature] || group, totals }))} />
+            <h3>This month by material</h3>
+            {byMaterial.length > 0 ? (
+              <UsageTable label="Material" rows={byMaterial.map(({ group, totals }) => ({
+                key: group,
+                label: materialTitle(group) ? <Link to={`/study/${group}`}>{materialTitle(group)}</Link> : 'Deleted material',
+                totals,
+              }))} />
+            ) : (
+              <p style={{ fontSize: '0.875rem' }}>No requests for a specific material this month.</p>
+            )}
+          </div>
+          <div>
+            <h3>Daily</h3>
+            <UsageTable label="Day" rows={byDay.map(({ group, totals }) => ({ key: group, label: new Date(`${group}T00:00`).toLocaleDateString(), totals }))} />
+            <h3>Monthly</h3>
+            <UsageTable label="Month" rows={byMonth.map(({ group, totals }) => ({
+              key: group,
+              label: new Date(`${group}-01T00:00`).toLocaleDateString(undefined, { month: 'long', year: 'numeric' }),
+              totals,
+            }))} />
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+const UsageTable: React.FC<{ label: string; rows: { key: string; label: React.ReactNode; totals: UsageTotals }[] }> = ({ label, rows }) => (
+  <table className="sync-status-table usage-table">
+    <thead>
+      <tr><th>{label}</th><th>Requests</th><th>Tokens in</th><th>Tokens out</th><th>Images</th><th>Est. cost</th></tr>
+    </thead>
+    <tbody>
+      {rows.map(({ key, label: rowLabel, totals }) => (
+        <tr key={key}>
+          <td>{rowLabel}</td>
+          <td>{totals.requests}</td>
+          <td>{formatTokens(totals.inputTokens)}</td>
+          <td>{formatTokens(totals.outputTokens)}</td>
+          <td>{totals.images}</td>
+          <td>{formatCost(totals.cost)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const CourseStatsRow: React.FC<{ course: Course; stats: ReturnType<typeof computeQuizStats> }> = ({ course, stats }) => (
+  <Link to={courseFilterPath(course.id)} className="course-stats-row">
+    <span className="course-stats-name"><FolderIcon style={{ width: 18, height: 18 }} />{course.name}</span>
+    <span className="course-stats-details">
+      {stats.materialCount} material{stats.materialCount === 1 ? '' : 's'} · {stats.quizCount} quiz{stats.quizCount === 1 ? '' : 'zes'}
+      {stats.averageScore !== null && <> · <strong>{stats.averageScore}%</strong> avg</>}
+    </span>
+  </Link>
+);
+
 interface StatCardProps {
   title: string;
   value: string;
@@ -113,7 +384,14 @@ const ActivityItem: React.FC<{ material: StudyMaterial }> = ({ material }) => (
   </div>
 );
 
-const MaterialCard: React.FC<{ material: StudyMaterial; quizzes: Quiz[] | undefined }> = ({ material, quizzes }) => {
+interface MaterialCardProps {
+  material: StudyMaterial;
+  quizzes: Quiz[] | undefined;
+  coursePath: string[];
+  onTagClick: (tag: string) => void;
+}
+
+const MaterialCard: React.FC<MaterialCardProps> = ({ material, quizzes, coursePath, onTagClick }) => {
   const quizzesTaken = quizzes?.length || 0;
   let lastQuizScore: string | null = null;
   if (quizzes && quizzesTaken > 0) {
@@ -124,22 +402,38 @@ const MaterialCard: React.FC<{ material: StudyMaterial; quizzes: Quiz[] | undefi
   }
 
   return (
-    <div className="card material-card">
+    <div
+      className={`card material-card ${material.archivedAt ? 'archived' : ''}`}
+      draggable
+      onDragStart={event => {
+        event.dataTransfer.setData(MATERIAL_DRAG_TYPE, material.id);
+        event.dataTransfer.effectAllowed = 'move';
+      }}
+    >
       <div className="material-card-header">
         <div>
-          <p className="material-card-meta">{material.subject || 'General'}</p>
+          <p className="material-card-meta">{material.subject || 'General'}{material.archivedAt && <span className="archived-badge">Archived</span>}</p>
           <h3>{material.title}</h3>
           <div className="material-card-details">
              <span>Topic: <strong>{material.topic || 'N/A'}</strong></span>
              <span>Difficulty: <strong>{material.difficulty}</strong></span>
              <span>Quizzes: <strong>{quizzesTaken}</strong></span>
              {lastQuizScore !== null && <span>Last Score: <strong>{lastQuizScore}%</strong></span>}
+             {coursePath.length > 0 && <span>Course: <strong>{coursePath.join(' / ')}</strong></span>}
           </div>
+          {material.tags && material.tags.length > 0 && (
+            <div className="tag-filter">
+              {material.tags.map(tag => (
+                <button key={tag} type="button" className="tag-chip" onClick={() => onTagClick(tag)}>#{tag}</button>
+              ))}
+            </div>
+          )}
         </div>
         <Link to={`/study/${material.id}`}>
           <Button variant="secondary">Study Session</Button>
         </Link>
       </div>
+      <MaterialActions material={material} />
     </div>
   );
 };
@@ -1,52 +1,200 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useUploadedContent } from '../contexts/UploadedContentContext';
-import { UploadedContent } from '../types';
+import { UploadedContent, StudyMaterial, TranscriptSegment, MaterialSource, SourceType, PromptTemplateRef } from '../types';
 import Button from '../components/common/Button';
 import * as geminiService from '../services/geminiService';
+import { AiServiceError } from '../services/llmProvider';
+import { extractFileContent, transcribeAudioFile, FileExtractionError, AUDIO_FILE_EXTENSIONS } from '../services/fileExtractionService';
+import { saveAsset } from '../services/assetStore';
+import { describeStorageError } from '../services/libraryRepository';
+import { parseCaptionFile, formatTranscript, formatTimestamp, getYouTubeVideoId, CAPTION_FILE_EXTENSIONS } from '../services/transcriptService';
+import { combineSourceTexts, getCombinedSourceType } from '../services/sourceService';
+import { getCoursePath, getCourseAncestorIds } from '../services/courseService';
+import { OUTPUT_LANGUAGES, formatLanguageName, loadOutputLanguage, resolveOutputLanguage } from '../services/outputLanguage';
+import { extractArticleFromHtml, ExtractedArticle, HTML_FILE_EXTENSIONS } from '../services/articleExtractionService';
 import Alert from '../components/common/Alert';
-import { BrainIcon, LinkIcon, SparklesIcon, UploadIcon, DocumentTextIcon, PencilSquareIcon } from '../components/icons/Icons';
+import { BrainIcon, LinkIcon, SparklesIcon, UploadIcon, DocumentTextIcon, PencilSquareIcon, MicrophoneIcon, XCircleIcon, GlobeAltIcon } from '../components/icons/Icons';
+
+// A source the user has added but that is not extracted yet; extraction runs when the material is created.
+type SourceDraft =
+  | { id: string; type: 'text'; label: string; text: string }
+  | { id: string; type: 'youtube'; label: string; url: string; captionFile: File; segments: TranscriptSegment[] }
+  | { id: string; type: 'file' | 'audio'; label: string; file: File }
+  | { id: string; type: 'article'; label: string; article: ExtractedArticle; fileName?: string };
+
+const SOURCE_TYPE_ICONS: Record<SourceType, React.FC<React.SVGProps<SVGSVGElement>>> = {
+  text: PencilSquareIcon,
+  youtube: LinkIcon,
+  file: DocumentTextIcon,
+  audio: MicrophoneIcon,
+  article: GlobeAltIcon,
+};
+
+const createDraftId = () => `source_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+const describeDraft = (draft: SourceDraft) => {
+  switch (draft.type) {
+    case 'text': return `${draft.text.trim().split(/\s+/).length} words`;
+    case 'youtube': return `${draft.captionFile.name}, ${formatTimestamp(draft.segments[draft.segments.length - 1].end)} long`;
+    case 'file': return `${Math.round(draft.file.size / 1024)} KB`;
+    case 'audio': return `${(draft.file.size / (1024 * 1024)).toFixed(1)} MB`;
+    case 'article': return `${draft.article.author ? `by ${draft.article.author}, ` : ''}${draft.article.markdown.split(/\s+/).length} words`;
+  }
+};
 
 const HomePage: React.FC = () => {
-  const [contentType, setContentType] = useState<'text' | 'youtube' | 'file'>('text');
+  const [contentType, setContentType] = useState<SourceType>('text');
   const [textContent, setTextContent] = useState('');
   const [youtubeUrl, setYoutubeUrl] = useState('');
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [captionFile, setCaptionFile] = useState<File | null>(null);
+  const [captionSegments, setCaptionSegments] = useState<TranscriptSegment[] | null>(null);
+  const [articleHtml, setArticleHtml] = useState('');
+  const [sourceDrafts, setSourceDrafts] = useState<SourceDraft[]>([]);
   const [title, setTitle] = useState('');
   const [subject, setSubject] = useState('');
   const [topic, setTopic] = useState('');
   const [difficulty, setDifficulty] = useState<'Easy' | 'Medium' | 'Hard'>('Medium');
+  const [outputLanguage, setOutputLanguage] = useState(''); // Empty for the language chosen in Settings
+  const [courseId, setCourseId] = useState(''); // Empty to leave the material unfiled
 
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isSuggestingMeta, setIsSuggestingMeta] = useState(false);
+  const [processingProgress, setProcessingProgress] = useState<string | null>(null);
 
   const navigate = useNavigate();
-  const { addContent } = useUploadedContent();
+  const { addContent, courses } = useUploadedContent();
+
+  // Pasted HTML is parsed as it changes so problems show up before the material is created.
+  const pastedArticle = useMemo((): { article?: ExtractedArticle; error?: string } => {
+    if (!articleHtml.trim()) return {};
+    try {
+      return { article: extractArticleFromHtml(articleHtml) };
+    } catch (err) {
+      return { error: err instanceof FileExtractionError ? err.message : 'This HTML could not be read.' };
+    }
+  }, [articleHtml]);
 
-  const handleContentTypeChange = (newType: 'text' | 'youtube' | 'file') => {
+  const createArticleDraft = (article: ExtractedArticle, fileName?: string): SourceDraft => ({
+    id: createDraftId(), type: 'article', label: article.title || fileName || 'Web article', article, fileName,
+  });
+
+  // The article's own title is better than a guessed one, so it fills an empty title field.
+  const applyArticleMetadata = (article: ExtractedArticle) => {
+    if (article.title) setTitle(current => current || article.title!);
+  };
+
+  const handleContentTypeChange = (newType: SourceType) => {
     setContentType(newType);
     setError(null);
   };
 
-  const handleSuggestMetadata = useCallback(async () => {
-    let contentToAnalyze = '';
+  // Text and YouTube inputs that are filled in but not added yet still count as a source.
+  const getPendingDraft = (): SourceDraft | null => {
     if (contentType === 'text' && textContent.trim()) {
-      contentToAnalyze = textContent;
-    } else if (contentType === 'youtube' && youtubeUrl.trim()) {
-      contentToAnalyze = `Analyze metadata for a youtube video with this URL: ${youtubeUrl}`;
-    } else if (contentType === 'file' && selectedFile) {
-      contentToAnalyze = `Analyze metadata for a file named: ${selectedFile.name}`;
+      return { id: createDraftId(), type: 'text', label: 'Pasted text', text: textContent };
+    }
+    if (contentType === 'youtube' && youtubeUrl.trim() && captionFile && captionSegments) {
+      return { id: createDraftId(), type: 'youtube', label: youtubeUrl.trim(), url: youtubeUrl.trim(), captionFile, segments: captionSegments };
+    }
+    if (contentType === 'article' && pastedArticle.article) {
+      return createArticleDraft(pastedArticle.article);
+    }
+    return null;
+  };
+
+  const getAllDrafts = (): SourceDraft[] => {
+    const pending = getPendingDraft();
+    return pending ? [...sourceDrafts, pending] : sourceDrafts;
+  };
+
+  const validateDraft = (draft: SourceDraft): string | null => {
+    if (draft.type === 'youtube' && !getYouTubeVideoId(draft.url)) return "That doesn't look like a YouTube video link.";
+    return null;
+  };
+
+  const handleAddPendingSource = () => {
+    const draft = getPendingDraft();
+    if (!draft) return;
+    const validationError = validateDraft(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setSourceDrafts(prev => [...prev, draft]);
+    setError(null);
+    if (draft.type === 'text') {
+      setTextContent('');
+    } else if (draft.type === 'article') {
+      applyArticleMetadata(draft.article);
+      setArticleHtml('');
     } else {
+      setYoutubeUrl('');
+      setCaptionFile(null);
+      setCaptionSegments(null);
+    }
+  };
+
+  const handleFilesSelected = (files: FileList | null, type: 'file' | 'audio') => {
+    if (!files || files.length === 0) return;
+    const drafts = Array.from(files).map(file => ({ id: createDraftId(), type, label: file.name, file }));
+    setSourceDrafts(prev => [...prev, ...drafts]);
+    if (error) setError(null);
+  };
+
+  const handleArticleFilesSelected = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setError(null);
+    for (const file of Array.from(files)) {
+      try {
+        const article = extractArticleFromHtml(await file.text());
+        applyArticleMetadata(article);
+        setSourceDrafts(prev => [...prev, createArticleDraft(article, file.name)]);
+      } catch (err) {
+        console.error("Error reading article:", err);
+        setError(`${file.name}: ${err instanceof FileExtractionError ? err.message : 'This page could not be read.'}`);
+      }
+    }
+  };
+
+  const handleRemoveDraft = (id: string) => setSourceDrafts(prev => prev.filter(draft => draft.id !== id));
+
+  const handleCaptionFileChange = async (file: File | null) => {
+    setCaptionFile(file);
+    setCaptionSegments(null);
+    setError(null);
+    if (!file) return;
+    try {
+      setCaptionSegments(parseCaptionFile(await file.text(), file.name));
+    } catch (err) {
+      console.error("Error parsing caption file:", err);
+      setError(err instanceof FileExtractionError ? err.message : `Could not read "${file.name}".`);
+    }
+  };
+
+  const handleSuggestMetadata = async () => {
+    const drafts = getAllDrafts();
+    if (drafts.length === 0) {
       setError(`Please provide content before suggesting metadata.`);
       return;
     }
-    
+    const contentToAnalyze = drafts.map(draft => {
+      switch (draft.type) {
+        case 'text': return draft.text;
+        case 'youtube': return formatTranscript(draft.segments);
+        case 'file': return `Analyze metadata for a file named: ${draft.file.name}`;
+        case 'audio': return `Analyze metadata for a lecture recording named: ${draft.file.name}`;
+        case 'article': return draft.article.markdown;
+      }
+    }).join('\n\n');
+    const articleTitle = drafts.find(draft => draft.type === 'article' && draft.article.title)?.label;
+
     setIsSuggestingMeta(true);
     setError(null);
     try {
       const metadata = await geminiService.suggestMetadata(contentToAnalyze);
-      setTitle(metadata.title);
+      setTitle(articleTitle || metadata.title);
       setSubject(metadata.subject);
       setTopic(metadata.topic);
       setDifficulty(metadata.difficulty);
@@ -56,73 +204,136 @@ const HomePage: React.FC = () => {
     } finally {
       setIsSuggestingMeta(false);
     }
-  }, [textContent, contentType, youtubeUrl, selectedFile]);
+  };
 
-    const handleSubmit = async (e: React.FormEvent) => {
+  // Extracts the text of one source; long-running steps report progress prefixed with the source's position.
+  const extractSource = async (draft: SourceDraft, reportProgress: (progress: string) => void): Promise<MaterialSource> => {
+    const base = { id: draft.id, type: draft.type, label: draft.label };
+    switch (draft.type) {
+      case 'text':
+        return { ...base, originalContent: draft.text, extractedText: draft.text };
+      case 'youtube':
+        return {
+          ...base, originalContent: draft.url, extractedText: formatTranscript(draft.segments),
+          captionFileName: draft.captionFile.name, transcriptSegments: draft.segments,
+        };
+      case 'file': {
+        const fileContent = await extractFileContent(draft.file);
+        return {
+          ...base, originalContent: draft.file.name, extractedText: fileContent.text, fileName: draft.file.name,
+          fileMimeType: draft.file.type, sourceImages: fileContent.sourceImages,
+        };
+      }
+      case 'audio': {
+        const audio = await transcribeAudioFile(draft.file, reportProgress);
+        return {
+          ...base, originalContent: draft.file.name, extractedText: audio.text, fileName: draft.file.name,
+          fileMimeType: audio.mimeType, transcriptSegments: audio.transcriptSegments, audioAssetId: await saveAsset(draft.file),
+        };
+      }
+      case 'article':
+        return {
+          ...base, originalContent: draft.fileName || draft.label, extractedText: draft.article.markdown,
+          fileName: draft.fileName, author: draft.article.author,
+        };
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
     setError(null);
 
-    if ((contentType === 'text' && !textContent.trim()) ||
-        (contentType === 'youtube' && !youtubeUrl.trim()) ||
-        (contentType === 'file' && !selectedFile)) {
+    const drafts = getAllDrafts();
+    if (drafts.length === 0) {
       setError(`Please provide the required content.`);
       setIsLoading(false);
       return;
     }
+    const validationError = drafts.map(validateDraft).find(Boolean);
+    if (validationError) {
+      setError(validationError);
+      setIsLoading(false);
+      return;
+    }
 
     const newContentId = `content_${Date.now()}`;
-    let extractedText = textContent;
-    let originalContentValue = textContent;
-    let fileNameValue: string | undefined = undefined;
-    let fileMimeTypeValue: string | undefined = undefined;
 
     try {
-      if (contentType === 'youtube') {
-        originalContentValue = youtubeUrl;
-        extractedText = await geminiService.fetchYouTubeTranscript(youtubeUrl);
-      } else if (contentType === 'file' && selectedFile) {
-        originalContentValue = selectedFile.name;
-        fileNameValue = selectedFile.name;
-        fileMimeTypeValue = selectedFile.type;
-        extractedText = await geminiService.processFileUploadSimulation(selectedFile);
+      const sources: MaterialSource[] = [];
+      for (const [i, draft] of drafts.entries()) {
+        const prefix = drafts.length > 1 ? `Source ${i + 1} of ${drafts.length}: ` : '';
+        setProcessingProgress(`${prefix}Reading ${draft.label}...`);
+        try {
+          sources.push(await extractSource(draft, progress => setProcessingProgress(`${prefix}${progress}`)));
+        } catch (err) {
+          // Name the failing source so the user knows which one to remove or replace.
+          if (err instanceof FileExtractionError && drafts.length > 1) throw new FileExtractionError(`${draft.label}: ${err.message}`);
+          throw err;
+        }
       }
+      const extractedText = combineSourceTexts(sources);
 
-      // Auto-generate AI explanation immediately for faster experience
-      const explanation = await geminiService.generateExplanation(extractedText);
-      const finalTitle = title || (extractedText ? (await geminiService.suggestMetadata(extractedText)).title : 'Untitled');
+      // Auto-generate AI explanation immediately for faster experience. If it fails the material is
+      // saved without one, and the study page offers to generate it again.
+      let explanationTemplate: PromptTemplateRef | undefined;
+      const explanation = await geminiService.generateExplanation(extractedText, {
+        citeTimestamps: sources.some(source => source.transcriptSegments?.length),
+        citeSources: sources.length > 1,
+        onChunkProgress: progress => setProcessingProgress(progress.message),
+        materialId: newContentId,
+        language: resolveOutputLanguage({ outputLanguage }),
+        courseIds: getCourseAncestorIds(courses, courseId || undefined),
+        onTemplate: template => { explanationTemplate = template; },
+      }).catch(err => {
+        console.warn("Could not generate the explanation while saving the material:", err);
+        return undefined;
+      });
+      const articleTitle = drafts.find(draft => draft.type === 'article' && draft.article.title)?.label;
+      const finalTitle = title || articleTitle || (extractedText ? (await geminiService.suggestMetadata(extractedText)).title : 'Untitled');
+      const authors = Array.from(new Set(sources.map(source => source.author).filter(Boolean)));
 
-      const uploadedContent: UploadedContent = {
-        id: newContentId, type: contentType, originalContent: originalContentValue, fileName: fileNameValue,
-        fileMimeType: fileMimeTypeValue, extractedText: extractedText, title: finalTitle, subject,
-        topic, difficulty, uploadDate: new Date().toISOString(), aiExplanation: explanation,
+      const uploadedContent: UploadedContent & Pick<StudyMaterial, 'courseId'> = {
+        id: newContentId, type: getCombinedSourceType(sources), sources,
+        originalContent: sources.map(source => source.label).join(', '),
+        extractedText: extractedText, title: finalTitle, author: authors.length > 0 ? authors.join(', ') : undefined, subject,
+        topic, difficulty, outputLanguage: outputLanguage || undefined, uploadDate: new Date().toISOString(), aiExplanation: explanation,
+        generatedWith: explanation ? { explanation: explanationTemplate } : undefined, courseId: courseId || undefined,
       };
 
-      addContent(uploadedContent);
+      try {
+        await addContent(uploadedContent);
+      } catch (err) {
+        console.error("Error saving content:", err);
+        setError(describeStorageError(err));
+        return;
+      }
       navigate(`/study/${newContentId}`);
 
     } catch (err) {
       console.error("Error processing content:", err);
-      setError("Failed to process content. Please ensure your API key is configured and try again.");
+      if (err instanceof FileExtractionError || err instanceof AiServiceError) {
+        setError(err.message);
+      } else {
+        setError("Failed to process content. Please ensure your API key is configured and try again.");
+      }
     } finally {
       setIsLoading(false);
+      setProcessingProgress(null);
     }
   };
 
-  const getButtonText = () => isLoading ? 'Processing...' : `Start Learning with AI`;
+  const getButtonText = () => isLoading ? (processingProgress || 'Processing...') : `Start Learning with AI`;
 
-  const isSubmitDisabled = () => {
-    if (isLoading || isSuggestingMeta) return true;
-    if (contentType === 'text' && !textContent.trim()) return true;
-    if (contentType === 'youtube' && !youtubeUrl.trim()) return true;
-    if (contentType === 'file' && !selectedFile) return true;
-    return false;
-  }
+  const hasContent = sourceDrafts.length > 0 || getPendingDraft() !== null;
+  const isSubmitDisabled = () => isLoading || isSuggestingMeta || !hasContent;
   
-  const contentTypes = [
+  const contentTypes: { id: SourceType; name: string; icon: React.FC<React.SVGProps<SVGSVGElement>> }[] = [
     { id: 'text', name: 'Paste Text', icon: PencilSquareIcon },
     { id: 'youtube', name: 'YouTube Link', icon: LinkIcon },
     { id: 'file', name: 'Upload File', icon: DocumentTextIcon },
+    { id: 'audio', name: 'Audio Lecture', icon: MicrophoneIcon },
+    { id: 'article', name: 'Web Article', icon: GlobeAltIcon },
   ];
 
   useEffect(() => {
@@ -141,7 +352,7 @@ const HomePage: React.FC = () => {
           <BrainIcon className="icon-brain" /> Unlock Your Learning Potential
         </h1>
         <p>
-          Provide your study material—text, YouTube videos, or files—and let Ameena AI create a personalized learning experience just for you.
+          Provide your study material—text, YouTube videos, files, lecture recordings or web articles, on their own or combined—and let Ameena AI create a personalized learning experience just for you.
         </p>
       </section>
       
@@ -159,7 +370,7 @@ const HomePage: React.FC = () => {
                     <button
                       type="button"
                       key={tab.id}
-                      onClick={() => handleContentTypeChange(tab.id as 'text' | 'youtube' | 'file')}
+                      onClick={() => handleContentTypeChange(tab.id)}
                       className={`home-tab ${contentType === tab.id ? 'active' : ''}`}
                     >
                       <tab.icon />
@@ -170,11 +381,24 @@ const HomePage: React.FC = () => {
 
                 <div>
                   {contentType === 'text' && (
-                    <textarea id="textContent" className="form-textarea" value={textContent} onChange={(e) => { setTextContent(e.target.value); if(error) setError(null);}} rows={8} placeholder="Paste your study content here..." required={contentType === 'text'} />
+                    <textarea id="textContent" className="form-textarea" value={textContent} onChange={(e) => { setTextContent(e.target.value); if(error) setError(null);}} rows={8} placeholder="Paste your study content here..." />
                   )}
                   {contentType === 'youtube' && (
                     <div>
-                       <input type="url" id="youtubeUrl" className="form-input" value={youtubeUrl} onChange={(e) => { setYoutubeUrl(e.target.value); if(error) setError(null);}} placeholder="https://www.youtube.com/watch?v=your_video_id" required={contentType === 'youtube'} />
+                       <input type="url" id="youtubeUrl" className="form-input" value={youtubeUrl} onChange={(e) => { setYoutubeUrl(e.target.value); if(error) setError(null);}} placeholder="https://www.youtube.com/watch?v=your_video_id" />
+                       <label htmlFor="captionUpload" className="file-upload-label" style={{ marginTop: '1rem' }}>
+                          <div>
+                              <UploadIcon style={{width: '32px', height: '32px', margin: '0 auto'}} />
+                              <p style={{margin: '0.5rem 0 0.25rem'}}><span>Attach the video's caption file</span></p>
+                              <p style={{margin: 0, fontSize: '0.875rem'}}>VTT, SRT or SBV — download it from YouTube Studio or your captioning tool</p>
+                          </div>
+                          <input type="file" id="captionUpload" style={{ display: 'none' }} onChange={(e) => handleCaptionFileChange(e.target.files ? e.target.files[0] : null)} accept={CAPTION_FILE_EXTENSIONS.join(',')} />
+                      </label>
+                      {captionFile && captionSegments && (
+                        <p style={{ marginTop: '1rem', textAlign: 'center' }}>
+                          Selected: {captionFile.name} ({captionSegments.length} segments, {formatTimestamp(captionSegments[captionSegments.length - 1].end)} long)
+                        </p>
+                      )}
                     </div>
                   )}
                   {contentType === 'file' && (
@@ -182,15 +406,73 @@ const HomePage: React.FC = () => {
                        <label htmlFor="fileUpload" className="file-upload-label">
                           <div>
                               <UploadIcon style={{width: '40px', height: '40px', margin: '0 auto'}} />
-                              <p style={{margin: '0.5rem 0 0.25rem'}}><span>Click to upload</span> or drag and drop</p>
-                              <p style={{margin: 0, fontSize: '0.875rem'}}>PDF, PPT, DOC, TXT, or images</p>
+                              <p style={{margin: '0.5rem 0 0.25rem'}}><span>Click to upload</span> one or more files</p>
+                              <p style={{margin: 0, fontSize: '0.875rem'}}>PDF, PPTX, DOCX, TXT, or images</p>
+                          </div>
+                          <input type="file" id="fileUpload" style={{ display: 'none' }} multiple onChange={(e) => { handleFilesSelected(e.target.files, 'file'); e.target.value = ''; }} accept=".pdf,.ppt,.pptx,.doc,.docx,.txt,.jpg,.jpeg,.png" />
+                      </label>
+                    </div>
+                  )}
+                  {contentType === 'audio' && (
+                    <div>
+                       <label htmlFor="audioUpload" className="file-upload-label">
+                          <div>
+                              <MicrophoneIcon style={{width: '40px', height: '40px', margin: '0 auto'}} />
+                              <p style={{margin: '0.5rem 0 0.25rem'}}><span>Click to upload</span> lecture recordings</p>
+                              <p style={{margin: 0, fontSize: '0.875rem'}}>MP3, M4A or WAV — transcribed with speakers and timestamps</p>
                           </div>
-                          <input type="file" id="fileUpload" style={{ display: 'none' }} onChange={(e) => { setSelectedFile(e.target.files ? e.target.files[0] : null); if(error) setError(null);}} accept=".pdf,.ppt,.pptx,.doc,.docx,.txt,.jpg,.jpeg,.png" required={contentType === 'file'} />
+                          <input type="file" id="audioUpload" style={{ display: 'none' }} multiple onChange={(e) => { handleFilesSelected(e.target.files, 'audio'); e.target.value = ''; }} accept={AUDIO_FILE_EXTENSIONS.join(',')} />
                       </label>
-                      {selectedFile && <p style={{ marginTop: '1rem', textAlign: 'center' }}>Selected: {selectedFile.name} ({Math.round(selectedFile.size / 1024)} KB)</p>}
+                    </div>
+                  )}
+                  {contentType === 'article' && (
+                    <div>
+                       <label htmlFor="articleUpload" className="file-upload-label">
+                          <div>
+                              <GlobeAltIcon style={{width: '40px', height: '40px', margin: '0 auto'}} />
+                              <p style={{margin: '0.5rem 0 0.25rem'}}><span>Click to upload</span> saved web pages</p>
+                              <p style={{margin: 0, fontSize: '0.875rem'}}>HTML files saved from your browser — menus, ads and scripts are removed</p>
+                          </div>
+                          <input type="file" id="articleUpload" style={{ display: 'none' }} multiple onChange={(e) => { handleArticleFilesSelected(e.target.files); e.target.value = ''; }} accept={HTML_FILE_EXTENSIONS.join(',')} />
+                      </label>
+                      <textarea id="articleHtml" className="form-textarea" style={{ marginTop: '1rem' }} value={articleHtml} onChange={(e) => { setArticleHtml(e.target.value); if(error) setError(null);}} rows={6} placeholder="...or paste the page's HTML here" />
+                      {pastedArticle.error && <Alert type="warning" message={pastedArticle.error} style={{ marginTop: '1rem' }} />}
+                      {pastedArticle.article && (
+                        <p style={{ marginTop: '1rem', textAlign: 'center' }}>
+                          Found: {pastedArticle.article.title || 'Untitled article'}{pastedArticle.article.author && ` by ${pastedArticle.article.author}`}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                  {(contentType === 'text' || contentType === 'youtube' || contentType === 'article') && (
+                    <div style={{ marginTop: '1rem', textAlign: 'right' }}>
+                      <Button type="button" variant="secondary" onClick={handleAddPendingSource} disabled={!getPendingDraft()}>
+                        Add as source
+                      </Button>
                     </div>
                   )}
                 </div>
+
+                {sourceDrafts.length > 0 && (
+                  <div style={{ marginTop: '1.5rem' }}>
+                    <h3 className="form-label">Sources in this material</h3>
+                    <ul className="source-draft-list">
+                      {sourceDrafts.map((draft, i) => {
+                        const Icon = SOURCE_TYPE_ICONS[draft.type];
+                        return (
+                          <li key={draft.id}>
+                            <Icon />
+                            <span className="source-draft-label">{i + 1}. {draft.label}</span>
+                            <span className="source-draft-detail">{describeDraft(draft)}</span>
+                            <button type="button" className="source-draft-remove" onClick={() => handleRemoveDraft(draft.id)} aria-label={`Remove ${draft.label}`} disabled={isLoading}>
+                              <XCircleIcon />
+                            </button>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                )}
               </div>
             
               <div>
@@ -198,7 +480,7 @@ const HomePage: React.FC = () => {
                    <h2>
                     2. Describe Your Content
                   </h2>
-                   <Button type="button" variant="secondary" onClick={handleSuggestMetadata} isLoading={isSuggestingMeta} leftIcon={<SparklesIcon />} disabled={isLoading || isSuggestingMeta || ((contentType === 'text' && !textContent.trim()) || (contentType === 'youtube' && !youtubeUrl.trim()) || (contentType === 'file' && !selectedFile))}>
+                   <Button type="button" variant="secondary" onClick={handleSuggestMetadata} isLoading={isSuggestingMeta} leftIcon={<SparklesIcon />} disabled={isLoading || isSuggestingMeta || !hasContent}>
                     Suggest with AI
                   </Button>
                 </div>
@@ -216,7 +498,7 @@ const HomePage: React.FC = () => {
                     <label htmlFor="topic" className="form-label">Topic</label>
                     <input type="text" id="topic" className="form-input" value={topic} onChange={e => setTopic(e.target.value)} placeholder="e.g., Plant Science" />
                   </div>
-                  <div style={{gridColumn: '1 / -1'}}>
+                  <div>
                      <label htmlFor="difficulty" className="form-label">Difficulty</label>
                      <select id="difficulty" className="form-select" value={difficulty} onChange={e => setDifficulty(e.target.value as 'Easy' | 'Medium' | 'Hard')}>
                        <option value="Easy">Easy</option>
@@ -224,6 +506,25 @@ const HomePage: React.FC = () => {
                        <option value="Hard">Hard</option>
                      </select>
                   </div>
+                  <div>
+                     <label htmlFor="output-language" className="form-label">Output language</label>
+                     <select id="output-language" className="form-select" value={outputLanguage} onChange={e => setOutputLanguage(e.target.value)}>
+                       <option value="">Default ({formatLanguageName(loadOutputLanguage())})</option>
+                       {OUTPUT_LANGUAGES.map(language => <option key={language.code} value={language.code}>{formatLanguageName(language.code)}</option>)}
+                     </select>
+                  </div>
+                  {courses.length > 0 && (
+                    <div style={{gridColumn: '1 / -1'}}>
+                       <label htmlFor="course" className="form-label">Course</label>
+                       <select id="course" className="form-select" value={courseId} onChange={e => setCourseId(e.target.value)}>
+                         <option value="">Unfiled</option>
+                         {courses
+                           .map(course => ({ id: course.id, path: getCoursePath(courses, course.id).join(' / ') }))
+                           .sort((a, b) => a.path.localeCompare(b.path))
+                           .map(course => <option key={course.id} value={course.id}>{course.path}</option>)}
+                       </select>
+                    </div>
+                  )}
                 </div>
               </div>
               
@@ -231,8 +532,8 @@ const HomePage: React.FC = () => {
                 <Button type="submit" isLoading={isLoading} disabled={isSubmitDisabled()} leftIcon={<BrainIcon/>}>
                   {getButtonText()}
                 </Button>
-                 {!process.env.API_KEY && (
-                   <Alert type="warning" title="API Key Missing" message="The Gemini API key is not configured. AI features will not work." style={{marginTop: '1.5rem'}} />
+                 {!geminiService.isAiConfigured() && (
+                   <Alert type="warning" title="AI Provider Not Configured" message="Choose and configure an AI provider in Settings. AI features will not work until then." style={{marginTop: '1.5rem'}} />
                 )}
               </div>
           </form>
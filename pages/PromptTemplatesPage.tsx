@@ -0,0 +1,130 @@
+import React, { useState, useMemo } from 'react';
+import { useUploadedContent } from '../contexts/UploadedContentContext';
+import { PROMPT_TEMPLATES, PromptTemplateId, getPromptTemplate, getPromptTemplateOverride, resolvePromptTemplate, savePromptTemplate, resetPromptTemplate, renderPromptTemplate, findUnknownVariables, describePromptTemplateRef } from '../services/promptTemplates';
+import { getCoursePath, getCourseAncestorIds } from '../services/courseService';
+import Button from '../components/common/Button';
+import Alert from '../components/common/Alert';
+
+const PromptTemplatesPage: React.FC = () => {
+  const { courses } = useUploadedContent();
+  const [courseId, setCourseId] = useState(''); // Empty for the templates used by all courses
+  const [templateId, setTemplateId] = useState<PromptTemplateId>('explanation');
+  const [revision, setRevision] = useState(0); // Bumped after saving or resetting, to read the stored templates again
+  const [draft, setDraft] = useState<string | null>(null); // Null while the text is unchanged
+
+  const template = getPromptTemplate(templateId);
+  const scope = courseId || undefined;
+  const sortedCourses = useMemo(() => courses
+    .map(course => ({ id: course.id, path: getCoursePath(courses, course.id).join(' / ') }))
+    .sort((a, b) => a.path.localeCompare(b.path)), [courses]);
+
+  // What applies in this scope without an edit of its own: the parent courses' version, the version for all courses, or the built-in one.
+  const { override, inherited } = useMemo(() => ({
+    override: getPromptTemplateOverride(templateId, scope),
+    inherited: resolvePromptTemplate(templateId, scope ? getCourseAncestorIds(courses, scope).slice(1) : []),
+  }), [templateId, scope, courses, revision]);
+
+  const savedText = override?.text ?? inherited.text;
+  const text = draft ?? savedText;
+  const unknownVariables = findUnknownVariables(templateId, text);
+  const preview = renderPromptTemplate(text, Object.fromEntries(Object.entries(template.variables).map(([name, description]) => [name, `[${description}]`])));
+
+  const selectTemplate = (id: PromptTemplateId) => {
+    setTemplateId(id);
+    setDraft(null);
+  };
+
+  const selectCourse = (id: string) => {
+    setCourseId(id);
+    setDraft(null);
+  };
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (draft === null) return;
+    savePromptTemplate(templateId, draft, scope);
+    setDraft(null);
+    setRevision(revision + 1);
+  };
+
+  const handleReset = () => {
+    resetPromptTemplate(templateId, scope);
+    setDraft(null);
+    setRevision(revision + 1);
+  };
+
+  const isEdited = (id: PromptTemplateId) => !!getPromptTemplateOverride(id, scope);
+
+  return (
+    <div>
+      <header style={{ marginBottom: '2rem' }}>
+        <h1>Prompt templates</h1>
+        <p>Adjust the instructions sent to the AI service for each kind of study aid, for all courses or for one course and the folders inside it. Each saved edit becomes a new version, and generated material records which version produced it.</p>
+      </header>
+
+      <div className="backup-sections">
+        <section className="card">
+          <h2>Applies to</h2>
+          <p className="backup-summary">A course's templates also apply to its folders. Templates that a course has not edited come from its parent course, then from the templates for all courses.</p>
+          <select className="form-select" value={courseId} onChange={event => selectCourse(event.target.value)} aria-label="Course">
+            <option value="">All courses</option>
+            {sortedCourses.map(course => <option key={course.id} value={course.id}>{course.path}</option>)}
+          </select>
+        </section>
+
+        <section className="card">
+          <h2>Templates</h2>
+          <div className="prompt-templates">
+            <ul className="prompt-template-list">
+              {PROMPT_TEMPLATES.map(item => (
+                <li key={item.id}>
+                  <button type="button" className={item.id === templateId ? 'active' : ''} onClick={() => selectTemplate(item.id)}>
+                    <span>{item.label}</span>
+                    {isEdited(item.id) && <span className="prompt-template-badge">Edited</span>}
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <form className="sync-settings" onSubmit={handleSave}>
+              <div>
+                <h3>{template.label}</h3>
+                <p className="backup-conflict-detail">{template.description}</p>
+                <p className="backup-conflict-detail">
+                  {override
+                    ? `Edited for ${scope ? 'this course' : 'all courses'} on ${new Date(override.updatedAt).toLocaleString()} (version ${override.version}).`
+                    : `Not edited here. Currently using: ${describePromptTemplateRef(inherited.ref)}.`}
+                </p>
+              </div>
+
+              <label className="form-label" htmlFor="prompt-template-text">Template</label>
+              <textarea id="prompt-template-text" className="form-textarea prompt-template-text" rows={12} spellCheck={false} value={text} onChange={event => setDraft(event.target.value)} />
+
+              {Object.keys(template.variables).length > 0 && (
+                <dl className="prompt-template-variables">
+                  {Object.entries(template.variables).map(([name, description]) => (
+                    <div key={name}><dt><code>{`{{${name}}}`}</code></dt><dd>{description}</dd></div>
+                  ))}
+                </dl>
+              )}
+              {unknownVariables.length > 0 && (
+                <Alert type="warning" message={`This template does not provide ${unknownVariables.map(name => `{{${name}}}`).join(', ')}. It will be sent to the AI service as written.`} />
+              )}
+
+              <div className="llm-provider-actions">
+                <Button type="submit" variant="secondary" disabled={draft === null || draft === savedText || !draft.trim()}>Save as new version</Button>
+                {draft !== null && <Button type="button" variant="ghost" onClick={() => setDraft(null)}>Discard changes</Button>}
+                {override && <Button type="button" variant="ghost" onClick={handleReset}>{scope ? 'Reset to inherited template' : 'Reset to built-in template'}</Button>}
+              </div>
+
+              <label className="form-label">Preview</label>
+              <pre className="prompt-template-preview">{preview}</pre>
+            </form>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplatesPage;
@@ -1,8 +1,11 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useUploadedContent } from '../contexts/UploadedContentContext';
-import { QuizQuestion, AiGeneratedFeedback, Quiz } from '../types';
+import { QuizQuestion, AiGeneratedFeedback, Quiz, PromptTemplateRef } from '../types';
 import * as geminiService from '../services/geminiService';
+import { AiServiceError } from '../services/llmProvider';
+import { getCourseAncestorIds } from '../services/courseService';
+import { resolveOutputLanguage } from '../services/outputLanguage';
 import Button from '../components/common/Button';
 import LoadingSpinner from '../components/common/LoadingSpinner';
 import Alert from '../components/common/Alert';
@@ -39,7 +42,7 @@ const CircularProgress: React.FC<{ percentage: number }> = ({ percentage }) => {
 const QuizPage: React.FC = () => {
   const { contentId } = useParams<{ contentId: string }>();
   const navigate = useNavigate();
-  const { getStudyMaterialById, addQuizResult } = useUploadedContent();
+  const { getStudyMaterialById, addQuizResult, isLibraryLoading, courses } = useUploadedContent();
 
   const [questions, setQuestions] = useState<QuizQuestion[]>([]);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
@@ -49,17 +52,37 @@ const QuizPage: React.FC = () => {
   const [score, setScore] = useState(0);
   const [feedback, setFeedback] = useState<AiGeneratedFeedback | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [loadingProgress, setLoadingProgress] = useState<string | null>(null);
 
   const timerRef = useRef<number | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null); // Stops AI requests when the page is left
+  const templateRef = useRef<PromptTemplateRef | undefined>(undefined); // The prompt template the questions came from
   const material = contentId ? getStudyMaterialById(contentId) : null;
+  const sources = material?.sources || [];
+  const sourceCount = sources.length;
+  const courseIds = useMemo(() => getCourseAncestorIds(courses, material?.courseId), [courses, material?.courseId]);
+  const language = resolveOutputLanguage(material);
+  // Read when the questions are generated, so that a course renamed or moved meanwhile, even in another tab, does not regenerate the quiz being taken.
+  const promptContextRef = useRef({ courseIds, language });
+  promptContextRef.current = { courseIds, language };
 
   const loadQuestions = useCallback(async () => {
     if (!material?.extractedText) {
       setError("Content not found or empty. Cannot generate quiz."); setQuizState('results'); return;
     }
-    setQuizState('loading'); setError(null);
+    setQuizState('loading'); setError(null); setLoadingProgress(null);
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     try {
-      const generatedQuestions = await geminiService.generateQuizQuestions(material.extractedText, DEFAULT_QUIZ_QUESTIONS_count);
+      const generatedQuestions = await geminiService.generateQuizQuestions(material.extractedText, DEFAULT_QUIZ_QUESTIONS_count, {
+        citeSources: sourceCount > 1,
+        onChunkProgress: progress => setLoadingProgress(progress.message),
+        signal: controller.signal,
+        materialId: material.id,
+        ...promptContextRef.current,
+        onTemplate: template => { templateRef.current = template; },
+      });
       if (generatedQuestions.length === 0) {
         setError("Could not generate quiz. Content might be too short or AI service unavailable."); setQuizState('results'); return;
       }
@@ -67,11 +90,12 @@ const QuizPage: React.FC = () => {
       setQuizState('taking');
       setTimeLeft(DEFAULT_QUIZ_DURATION_SECONDS);
     } catch (e) {
+      if (controller.signal.aborted) return;
       console.error("Error loading quiz questions:", e);
-      setError("Failed to load quiz. Check connection or API key.");
+      setError(e instanceof AiServiceError ? e.message : "Failed to load quiz. Check connection or API key.");
       setQuizState('results');
     }
-  }, [material?.extractedText]); 
+  }, [material?.extractedText, material?.id, sourceCount]); 
 
   const handleSubmitQuiz = useCallback(async () => {
     if (quizState === 'submitting' || quizState === 'results') return;
@@ -91,25 +115,29 @@ const QuizPage: React.FC = () => {
     setScore(calculatedScore);
 
     if (contentId) {
-      const quizResult: Quiz = { id: `quiz_${Date.now()}`, contentId, questions: answeredQuestions, score: calculatedScore, timestamp: new Date().toISOString(), durationSeconds: DEFAULT_QUIZ_DURATION_SECONDS - timeLeft };
+      const quizResult: Quiz = { id: `quiz_${Date.now()}`, contentId, questions: answeredQuestions, score: calculatedScore, timestamp: new Date().toISOString(), durationSeconds: DEFAULT_QUIZ_DURATION_SECONDS - timeLeft, generatedWith: templateRef.current };
       addQuizResult(contentId, quizResult);
     }
     
     try {
-      const generatedFeedback = await geminiService.generateFeedbackOnQuiz(calculatedScore, questions.length, material?.extractedText);
-      setFeedback(generatedFeedback);
+      let feedbackTemplate: PromptTemplateRef | undefined;
+      const generatedFeedback = await geminiService.generateFeedbackOnQuiz(calculatedScore, questions.length, material?.extractedText, { signal: abortControllerRef.current?.signal, materialId: contentId, courseIds, language, onTemplate: ref => { feedbackTemplate = ref; } });
+      setFeedback({ ...generatedFeedback, generatedWith: feedbackTemplate });
     } catch (e) {
       console.error("Error generating feedback:", e);
       setFeedback({ text: "Could not generate AI feedback." });
     }
     
     setQuizState('results');
-  }, [questions, userAnswers, timeLeft, contentId, addQuizResult, material?.extractedText, quizState]);
+  }, [questions, userAnswers, timeLeft, contentId, addQuizResult, material?.extractedText, quizState, courseIds, language]);
   
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   useEffect(() => {
-    if(!process.env.API_KEY) { setError("API Key not configured."); setQuizState('results'); return; }
+    if(!geminiService.isAiConfigured()) { setError("The AI provider is not configured."); setQuizState('results'); return; }
+    if (isLibraryLoading) return;
     loadQuestions();
-  }, [loadQuestions]);
+  }, [loadQuestions, isLibraryLoading]);
 
   useEffect(() => {
     if (quizState === 'taking' && timeLeft > 0) {
@@ -122,7 +150,7 @@ const QuizPage: React.FC = () => {
 
   const currentQ = questions[currentQuestionIndex];
 
-  if (quizState === 'loading') return <LoadingSpinner text="Generating Your Quiz..." />;
+  if (quizState === 'loading') return <LoadingSpinner text={loadingProgress ? `Generating Your Quiz... ${loadingProgress}` : "Generating Your Quiz..."} />;
   
   if (quizState === 'results') {
     const percentage = questions.length > 0 ? (score / questions.length) * 100 : 0;
@@ -153,6 +181,9 @@ const QuizPage: React.FC = () => {
                       <p>Your answer: <strong>{q.userAnswer || "Not answered"}</strong></p>
                     </div>
                     {!q.isCorrect && typeof q.correctAnswer === 'string' && <p>Correct answer: <strong>{q.correctAnswer}</strong></p>}
+                    {sourceCount > 1 && q.sourceNumber && sources[q.sourceNumber - 1] && (
+                      <p className="quiz-review-source">Review: Source {q.sourceNumber}, {sources[q.sourceNumber - 1].label}</p>
+                    )}
                 </div>
             ))}
         </div>
@@ -211,7 +242,7 @@ const QuizPage: React.FC = () => {
             )}
           </footer>
       </div>
-       {!process.env.API_KEY && <Alert type="warning" title="API Key Missing" message="The Gemini API key is not configured. Quiz features may not work correctly." />}
+       {!geminiService.isAiConfigured() && <Alert type="warning" title="AI Provider Not Configured" message="Choose and configure an AI provider in Settings. Quiz features may not work correctly." />}
     </div>
   );
 };
@@ -0,0 +1,132 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useUploadedContent } from '../contexts/UploadedContentContext';
+import { listQuarantine, discardQuarantined, retryQuarantined, QuarantinedRecord } from '../services/libraryRepository';
+import Button from '../components/common/Button';
+import Alert from '../components/common/Alert';
+import LoadingSpinner from '../components/common/LoadingSpinner';
+import { DownloadIcon, ArrowPathIcon, CheckCircleIcon } from '../components/icons/Icons';
+
+const KIND_LABELS: Record<QuarantinedRecord['kind'], { single: string; unreadable: string }> = {
+  material: { single: 'Study material', unreadable: 'Unreadable study materials' },
+  quiz: { single: 'Quiz', unreadable: 'Unreadable quizzes' },
+  course: { single: 'Course', unreadable: 'Unreadable courses' },
+};
+
+const describeRecord = (entry: QuarantinedRecord): string => {
+  const record = entry.record as { title?: unknown; name?: unknown; id?: unknown } | null;
+  if (entry.kind === 'material' && typeof record?.title === 'string' && record.title) return record.title;
+  if (entry.kind === 'course' && typeof record?.name === 'string' && record.name) return record.name;
+  if (typeof record?.id === 'string') return `${KIND_LABELS[entry.kind].single} ${record.id}`;
+  return KIND_LABELS[entry.kind].unreadable;
+};
+
+const RecoveryPage: React.FC = () => {
+  const { reloadLibrary } = useUploadedContent();
+  const [entries, setEntries] = useState<QuarantinedRecord[] | null>(null);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error' | 'info'; text: string } | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await listQuarantine());
+    } catch (error) {
+      console.error("Failed to read the quarantined records:", error);
+      setEntries([]);
+      setMessage({ type: 'error', text: "The records that could not be loaded could not be read either. Check that this browser allows site storage." });
+    }
+  }, []);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  const handleExport = () => {
+    if (!entries) return;
+    const blob = new Blob([JSON.stringify(entries, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ameena-ai-unloadable-records-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    setMessage(null);
+    try {
+      const restored = await retryQuarantined();
+      await reloadLibrary();
+      await refresh();
+      setMessage(restored > 0
+        ? { type: 'success', text: `Restored ${restored} record${restored === 1 ? '' : 's'} to your library.` }
+        : { type: 'info', text: "None of the records can be loaded by this version of Ameena AI yet." });
+    } catch (error) {
+      console.error("Failed to restore quarantined records:", error);
+      setMessage({ type: 'error', text: "The records could not be restored. Please try again." });
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  const handleDiscard = async (entry: QuarantinedRecord) => {
+    if (entry.key === undefined) return;
+    if (!window.confirm(`Permanently delete "${describeRecord(entry)}"? Export it first if you may want it back.`)) return;
+    try {
+      await discardQuarantined(entry.key);
+      await reloadLibrary();
+      await refresh();
+    } catch (error) {
+      console.error("Failed to discard a quarantined record:", error);
+      setMessage({ type: 'error', text: "The record could not be deleted. Please try again." });
+    }
+  };
+
+  if (!entries) return <LoadingSpinner text="Loading records..." />;
+
+  return (
+    <div>
+      <header style={{ marginBottom: '2rem' }}>
+        <h1>Data Recovery</h1>
+        <p>These saved records could not be loaded, for example because they were damaged or saved by a newer version of Ameena AI. They have been set aside so the rest of your library keeps working.</p>
+      </header>
+
+      {message && <Alert type={message.type} message={message.text} style={{ marginBottom: '1.5rem' }} />}
+
+      {entries.length === 0 ? (
+        <div className="dashboard-empty-state">
+          <div className="dashboard-empty-state-icon">
+            <CheckCircleIcon style={{ width: 48, height: 48 }} />
+          </div>
+          <h2>Nothing to recover</h2>
+          <p>All of your saved study materials and quizzes load correctly.</p>
+          <Link to="/dashboard">
+            <Button>Go to Dashboard</Button>
+          </Link>
+        </div>
+      ) : (
+        <>
+          <div className="recovery-actions">
+            <Button leftIcon={<DownloadIcon />} onClick={handleExport}>Export all as JSON</Button>
+            <Button variant="secondary" leftIcon={<ArrowPathIcon />} onClick={handleRetry} isLoading={isRetrying}>Try loading again</Button>
+          </div>
+          <ul className="recovery-list">
+            {entries.map(entry => (
+              <li key={entry.key} className="card recovery-item">
+                <div className="recovery-item-info">
+                  <span className="recovery-item-title">{describeRecord(entry)}</span>
+                  <span className="recovery-item-detail">
+                    {KIND_LABELS[entry.kind].single} · set aside {new Date(entry.quarantinedAt).toLocaleString()}
+                  </span>
+                  <span className="recovery-item-reason">{entry.reason}</span>
+                </div>
+                <Button variant="ghost" onClick={() => handleDiscard(entry)}>Discard</Button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RecoveryPage;
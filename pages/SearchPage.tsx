@@ -0,0 +1,58 @@
+import React, { useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useUploadedContent } from '../contexts/UploadedContentContext';
+import { buildSearchIndex, searchLibrary, getSearchResultPath } from '../services/searchService';
+import LoadingSpinner from '../components/common/LoadingSpinner';
+import { MagnifyingGlassIcon } from '../components/icons/Icons';
+
+const SearchPage: React.FC = () => {
+  const { studyMaterials, getQuizzesForContent, isLibraryLoading } = useUploadedContent();
+  const [searchParams] = useSearchParams();
+  const query = searchParams.get('q') || '';
+
+  // The index is rebuilt only when the library changes, not on every keystroke.
+  const index = useMemo(() => buildSearchIndex(studyMaterials, getQuizzesForContent), [studyMaterials, getQuizzesForContent]);
+  const results = useMemo(() => searchLibrary(index, query), [index, query]);
+
+  if (isLibraryLoading) return <LoadingSpinner text="Loading your library..." />;
+
+  return (
+    <div>
+      <header style={{ marginBottom: '2rem' }}>
+        <h1>Search</h1>
+        <p>Searches the text, explanations, notes, chats and quiz questions of all your materials.</p>
+      </header>
+
+      {!query.trim() ? (
+        <div className="dashboard-empty-state">
+          <div className="dashboard-empty-state-icon">
+            <MagnifyingGlassIcon style={{ width: 48, height: 48 }} />
+          </div>
+          <h2>Find anything in your library</h2>
+          <p>Type in the search box in the sidebar to start.</p>
+        </div>
+      ) : results.length === 0 ? (
+        <p>No results for "{query}".</p>
+      ) : (
+        <>
+          <p className="search-result-count">{results.length === 50 ? 'Top 50 results' : `${results.length} result${results.length === 1 ? '' : 's'}`} for "{query}"</p>
+          <ul className="search-results">
+            {results.map((result, i) => (
+              <li key={`${getSearchResultPath(result.document)}-${i}`}>
+                <Link to={getSearchResultPath(result.document)} className="card search-result">
+                  <span className="search-result-title">{result.document.materialTitle}</span>
+                  <span className="search-result-label">{result.document.label}</span>
+                  <p className="search-result-snippet">
+                    {result.snippet.map((part, j) => part.isMatch ? <mark key={j}>{part.text}</mark> : <React.Fragment key={j}>{part.text}</React.Fragment>)}
+                  </p>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SearchPage;
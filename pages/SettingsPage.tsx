@@ -0,0 +1,163 @@
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import { LlmSettings, LLM_PROVIDER_OPTIONS, loadLlmSettings, saveLlmSettings, createLlmProvider } from '../services/llmRegistry';
+import { ResponseCacheStats, RESPONSE_CACHE_MAX_BYTES, getResponseCacheStats, clearResponseCache } from '../services/responseCache';
+import { OpenAiCompatibleSettings } from '../services/openAiCompatibleProvider';
+import { OUTPUT_LANGUAGES, formatLanguageName, loadOutputLanguage, saveOutputLanguage } from '../services/outputLanguage';
+import Button from '../components/common/Button';
+import Alert from '../components/common/Alert';
+
+type ConnectionTest = { type: 'success' | 'error'; message: string } | null;
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const SettingsPage: React.FC = () => {
+  const [settings, setSettings] = useState<LlmSettings>(loadLlmSettings);
+  const [draft, setDraft] = useState<LlmSettings>(settings);
+  const [isTesting, setIsTesting] = useState(false);
+  const [connectionTest, setConnectionTest] = useState<ConnectionTest>(null);
+  const isDraftSaved = JSON.stringify(draft) === JSON.stringify(settings);
+  const draftProvider = useMemo(() => createLlmProvider(draft), [draft]);
+  const [cacheStats, setCacheStats] = useState<ResponseCacheStats | null>(null);
+  const [isClearingCache, setIsClearingCache] = useState(false);
+  const [outputLanguage, setOutputLanguage] = useState(loadOutputLanguage);
+
+  const loadCacheStats = useCallback(() => {
+    getResponseCacheStats().then(setCacheStats).catch(error => console.error("Failed to read the response cache statistics:", error));
+  }, []);
+
+  useEffect(loadCacheStats, [loadCacheStats]);
+
+  const updateDraft = (updates: Partial<LlmSettings>) => {
+    setDraft({ ...draft, ...updates });
+    setConnectionTest(null);
+  };
+
+  const updateOpenAiCompatible = (updates: Partial<OpenAiCompatibleSettings>) =>
+    updateDraft({ openAiCompatible: { ...draft.openAiCompatible, ...updates } });
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    const next = { ...draft, openAiCompatible: { ...draft.openAiCompatible, baseUrl: draft.openAiCompatible.baseUrl.trim(), model: draft.openAiCompatible.model.trim() } };
+    saveLlmSettings(next);
+    setSettings(next);
+    setDraft(next);
+  };
+
+  const handleTestConnection = async () => {
+    setIsTesting(true);
+    setConnectionTest(null);
+    try {
+      const reply = await draftProvider.generateText({ prompt: 'Reply with the single word OK.', temperature: 0 });
+      setConnectionTest({ type: 'success', message: `${draftProvider.label} answered: "${reply.trim().slice(0, 80)}"` });
+    } catch (error: any) {
+      console.error("AI provider connection test failed:", error);
+      setConnectionTest({ type: 'error', message: error.message || 'The provider could not be reached.' });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleClearCache = async () => {
+    setIsClearingCache(true);
+    try {
+      await clearResponseCache();
+    } catch (error) {
+      console.error("Failed to clear the response cache:", error);
+    } finally {
+      setIsClearingCache(false);
+      loadCacheStats();
+    }
+  };
+
+  const handleOutputLanguageChange = (code: string) => {
+    saveOutputLanguage(code);
+    setOutputLanguage(code);
+  };
+
+  const cacheLookups = cacheStats ? cacheStats.hits + cacheStats.misses : 0;
+
+  return (
+    <div>
+      <header style={{ marginBottom: '2rem' }}>
+        <h1>Settings</h1>
+        <p>Choose which AI service generates explanations, notes, quizzes and chat answers. Settings are stored in this browser.</p>
+      </header>
+
+      <div className="backup-sections">
+        <section className="card">
+          <h2>AI provider</h2>
+          <p className="backup-summary">Your study material is sent to the provider chosen here. A model server on your own network keeps it inside the school.</p>
+          <form onSubmit={handleSave}>
+            <div className="llm-provider-options" role="radiogroup">
+              {LLM_PROVIDER_OPTIONS.map(option => (
+                <label key={option.id} className={`llm-provider-option ${draft.provider === option.id ? 'selected' : ''}`}>
+                  <input type="radio" name="llm-provider" value={option.id} checked={draft.provider === option.id} onChange={() => updateDraft({ provider: option.id })} />
+                  <span>
+                    <strong>{option.label}</strong>
+                    <span className="backup-conflict-detail">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            {draft.provider === 'gemini' && !draftProvider.isConfigured && (
+              <Alert type="warning" message="No Gemini API key was set when the app was built (API_KEY). Choose another provider or rebuild with the key." style={{ marginBottom: '1rem' }} />
+            )}
+
+            {draft.provider === 'openai-compatible' && (
+              <div className="sync-settings" style={{ marginBottom: '1rem' }}>
+                <label className="form-label" htmlFor="llm-base-url">Base URL</label>
+                <input id="llm-base-url" type="url" className="form-input" placeholder="http://localhost:11434/v1" value={draft.openAiCompatible.baseUrl} onChange={event => updateOpenAiCompatible({ baseUrl: event.target.value })} required />
+                <div className="sync-settings-row">
+                  <div>
+                    <label className="form-label" htmlFor="llm-model">Model</label>
+                    <input id="llm-model" type="text" className="form-input" placeholder="llama3.1" value={draft.openAiCompatible.model} onChange={event => updateOpenAiCompatible({ model: event.target.value })} required />
+                  </div>
+                  <div>
+                    <label className="form-label" htmlFor="llm-image-model">Image model (optional)</label>
+                    <input id="llm-image-model" type="text" className="form-input" placeholder="dall-e-3" value={draft.openAiCompatible.imageModel} onChange={event => updateOpenAiCompatible({ imageModel: event.target.value })} />
+                  </div>
+                </div>
+                <label className="form-label" htmlFor="llm-api-key">API key (optional for most local servers)</label>
+                <input id="llm-api-key" type="password" className="form-input" autoComplete="off" value={draft.openAiCompatible.apiKey} onChange={event => updateOpenAiCompatible({ apiKey: event.target.value })} />
+              </div>
+            )}
+
+            {connectionTest && <Alert type={connectionTest.type} message={connectionTest.message} style={{ marginBottom: '1rem' }} />}
+            <div className="llm-provider-actions">
+              <Button type="submit" variant="secondary" disabled={isDraftSaved}>Save settings</Button>
+              <Button type="button" variant="ghost" onClick={handleTestConnection} isLoading={isTesting} disabled={!draftProvider.isConfigured}>Test connection</Button>
+            </div>
+          </form>
+        </section>
+
+        <section className="card">
+          <h2>Output language</h2>
+          <p className="backup-summary">Explanations, notes, quizzes, slides, diagrams, video scripts and chat answers are written in this language, whatever language the material is in. A material can choose a different one on its study page, and video narration uses a voice for its language when this device has one.</p>
+          <select className="form-select" value={outputLanguage} onChange={event => handleOutputLanguageChange(event.target.value)} aria-label="Output language">
+            {OUTPUT_LANGUAGES.map(language => <option key={language.code} value={language.code}>{formatLanguageName(language.code)}</option>)}
+          </select>
+        </section>
+
+        <section className="card">
+          <h2>Response cache</h2>
+          <p className="backup-summary">Generated explanations, notes, transcriptions and other results are kept in this browser, so asking again for the same material reuses them instead of calling the AI service. "Regenerate" always asks for a fresh answer.</p>
+          {cacheStats && (
+            <dl className="response-cache-stats">
+              <div><dt>Cached responses</dt><dd>{cacheStats.entries}</dd></div>
+              <div><dt>Size</dt><dd>{formatMegabytes(cacheStats.bytes)} of {formatMegabytes(RESPONSE_CACHE_MAX_BYTES)}</dd></div>
+              <div><dt>Hit rate</dt><dd>{cacheLookups ? `${Math.round(cacheStats.hits / cacheLookups * 100)}%` : '—'}</dd></div>
+              <div><dt>Hits / misses</dt><dd>{cacheStats.hits} / {cacheStats.misses}</dd></div>
+            </dl>
+          )}
+          {cacheStats && <p className="backup-conflict-detail">Counted since {new Date(cacheStats.since).toLocaleString()}.</p>}
+          <div className="llm-provider-actions">
+            <Button type="button" variant="secondary" onClick={handleClearCache} isLoading={isClearingCache} disabled={!cacheStats?.entries && !cacheLookups}>Clear cache</Button>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPage;
@@ -1,28 +1,53 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { useParams, useNavigate, Link } from 'react-router-dom';
+import { useParams, useNavigate, useLocation, useSearchParams, Link } from 'react-router-dom';
 import { useUploadedContent } from '../contexts/UploadedContentContext';
-import { StudyMaterial, NoteLength, ChatMessage, PresentationContent, VideoScene, SlideContent } from '../types';
+import { StudyMaterial, NoteLength, ChatMessage, PresentationContent, VideoScene, SlideContent, MaterialSource, PromptTemplateRef, ExplanationAudience, ExplanationStyle, ExplanationVariant } from '../types';
 import * as geminiService from '../services/geminiService';
 import Button from '../components/common/Button';
 import LoadingSpinner from '../components/common/LoadingSpinner';
 import Alert from '../components/common/Alert';
+import AiErrorAlert from '../components/common/AiErrorAlert';
 import PptxGenJS from 'pptxgenjs';
 import ErrorBoundary from '../components/common/ErrorBoundary';
 import MermaidDiagram from '../components/common/MermaidDiagram';
-import { AmeenaLogoIcon, UserIcon, BookOpenIcon, ChevronDownIcon, ClipboardListIcon, DownloadIcon, GlobeAltIcon, LightBulbIcon, PhotoIcon, PlayIcon, PauseIcon, ChevronLeftIcon, ChevronRightIcon, PresentationChartIcon, Squares2X2Icon, SparklesIcon } from '../components/icons/Icons';
+import TimestampedText, { CitationTarget } from '../components/common/TimestampedText';
+import AssetImage from '../components/common/AssetImage';
+import ChunkProgressIndicator from '../components/common/ChunkProgressIndicator';
+import MaterialActions from '../components/materials/MaterialActions';
+import { buildYouTubeTimestampUrl, formatTimestamp } from '../services/transcriptService';
+import { buildFocusedContext } from '../services/chunkingService';
+import { getCoursePath, getCourseAncestorIds } from '../services/courseService';
+import { AiServiceError, toAiServiceError } from '../services/llmProvider';
+import { describePromptTemplateRef } from '../services/promptTemplates';
+import { EXPLANATION_AUDIENCES, EXPLANATION_STYLES, describeExplanationVariant } from '../services/explanationPresets';
+import { OUTPUT_LANGUAGES, findVoicesForLanguage, formatLanguageName, loadOutputLanguage, resolveOutputLanguage } from '../services/outputLanguage';
+import { useAssetUrl } from '../hooks/useAssetUrl';
+import { resolveAssetDataUrl } from '../services/assetStore';
+import { AmeenaLogoIcon, UserIcon, BookOpenIcon, ChevronDownIcon, ClipboardListIcon, DownloadIcon, GlobeAltIcon, LightBulbIcon, PhotoIcon, PlayIcon, PauseIcon, ChevronLeftIcon, ChevronRightIcon, PresentationChartIcon, Squares2X2Icon, SparklesIcon, StopCircleIcon } from '../components/icons/Icons';
+
+// Budget for the study material included with every chat message; long materials contribute their most relevant passages.
+const CHAT_CONTEXT_MAX_CHARS = 8000;
 
 interface CollapsibleCardProps {
   title: string;
   icon: React.ComponentType<React.SVGProps<SVGSVGElement>>;
   children: React.ReactNode;
   defaultOpen?: boolean;
+  focusKey?: string; // Set by a deep link to this card: it opens and scrolls into view whenever the key changes
 }
 
-const CollapsibleCard: React.FC<CollapsibleCardProps> = ({ title, icon: Icon, children, defaultOpen = false }) => {
+const CollapsibleCard: React.FC<CollapsibleCardProps> = ({ title, icon: Icon, children, defaultOpen = false, focusKey }) => {
   const [isOpen, setIsOpen] = useState(defaultOpen);
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!focusKey) return;
+    setIsOpen(true);
+    cardRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [focusKey]);
 
   return (
-    <div className="collapsible-card" data-open={isOpen}>
+    <div className="collapsible-card" data-open={isOpen} ref={cardRef}>
       <header className="collapsible-card-header" onClick={() => setIsOpen(!isOpen)}>
         <div className="collapsible-card-title">
             <Icon style={{ width: 20, height: 20 }} />
@@ -40,7 +65,7 @@ const CollapsibleCard: React.FC<CollapsibleCardProps> = ({ title, icon: Icon, ch
 };
 
 
-const VideoPlayer: React.FC<{ scenes: VideoScene[], selectedVoice: SpeechSynthesisVoice | null }> = ({ scenes, selectedVoice }) => {
+const VideoPlayer: React.FC<{ scenes: VideoScene[], selectedVoice: SpeechSynthesisVoice | null, language: string }> = ({ scenes, selectedVoice, language }) => {
     const [currentSceneIndex, setCurrentSceneIndex] = useState(0);
     const [isPlaying, setIsPlaying] = useState(false);
     const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
@@ -58,6 +83,7 @@ const VideoPlayer: React.FC<{ scenes: VideoScene[], selectedVoice: SpeechSynthes
         window.speechSynthesis.cancel();
         const utterance = new SpeechSynthesisUtterance(currentScene.script);
         if (selectedVoice) utterance.voice = selectedVoice;
+        utterance.lang = selectedVoice?.lang || language;
         utterance.rate = 1.0;
         utterance.onend = () => {
             setIsPlaying(false);
@@ -71,6 +97,7 @@ const VideoPlayer: React.FC<{ scenes: VideoScene[], selectedVoice: SpeechSynthes
                         window.speechSynthesis.cancel();
                         const nextUtter = new SpeechSynthesisUtterance(scenes[next].script);
                         if (selectedVoice) nextUtter.voice = selectedVoice;
+                        nextUtter.lang = selectedVoice?.lang || language;
                         nextUtter.rate = 1.0;
                         nextUtter.onend = () => setIsPlaying(false);
                         utteranceRef.current = nextUtter;
@@ -83,7 +110,7 @@ const VideoPlayer: React.FC<{ scenes: VideoScene[], selectedVoice: SpeechSynthes
         };
         utteranceRef.current = utterance;
         window.speechSynthesis.speak(utterance);
-    }, [currentScene, scenes, selectedVoice]);
+    }, [currentScene, scenes, selectedVoice, language]);
 
     const handlePlayPause = () => {
         if (!currentScene) return;
@@ -102,7 +129,7 @@ const VideoPlayer: React.FC<{ scenes: VideoScene[], selectedVoice: SpeechSynthes
         <div>
             <div className="video-player">
                 {currentScene.imageUrl ? (
-                    <img src={currentScene.imageUrl} alt={currentScene.imagePrompt} />
+                    <AssetImage src={currentScene.imageUrl} alt={currentScene.imagePrompt} />
                 ) : (
                     <div style={{ width: '100%', height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center', color: 'white' }}>
                         <PhotoIcon style={{ width: 48, height: 48 }} />
@@ -142,7 +169,7 @@ const PresentationViewer: React.FC<{ presentation: PresentationContent }> = ({ p
                 </div>
                 <div className="presentation-slide-image">
                     {currentSlide.imageUrl ? (
-                       <img src={currentSlide.imageUrl} alt={currentSlide.imagePrompt} />
+                       <AssetImage src={currentSlide.imageUrl} alt={currentSlide.imagePrompt} />
                     ) : (
                        <div style={{textAlign: 'center'}}>
                             <PhotoIcon style={{ width: 48, height: 48, margin: '0 auto' }} />
@@ -161,75 +188,260 @@ const PresentationViewer: React.FC<{ presentation: PresentationContent }> = ({ p
 };
 
 
+interface AudioSourcePlayerProps {
+  source: MaterialSource;
+  showLabel: boolean;
+  audioRef: (element: HTMLAudioElement | null) => void;
+  onTimeUpdate: (seconds: number) => void;
+}
+
+const AudioSourcePlayer: React.FC<AudioSourcePlayerProps> = ({ source, showLabel, audioRef, onTimeUpdate }) => {
+  const { url, error } = useAssetUrl(source.audioAssetId);
+
+  return (
+    <div className="audio-player">
+      {showLabel && <p className="audio-player-label">{source.label}</p>}
+      {error ? <Alert type="warning" message={error} /> : url ? (
+        <audio ref={audioRef} src={url} controls preload="metadata" onTimeUpdate={(e) => onTimeUpdate(e.currentTarget.currentTime)} />
+      ) : <p>Loading recording...</p>}
+    </div>
+  );
+};
+
+/** Which prompt template, and which version of it, produced an artifact. */
+const TemplateCaption: React.FC<{ template?: PromptTemplateRef | (PromptTemplateRef | undefined)[] }> = ({ template }) => {
+  const templates = [template].flat().filter((ref): ref is PromptTemplateRef => !!ref);
+  if (templates.length === 0) return null;
+  return <p className="artifact-template">{templates.length > 1 ? 'Prompts' : 'Prompt'}: {templates.map(describePromptTemplateRef).join('; ')}</p>;
+};
+
 const StudyPage: React.FC = () => {
     const { contentId } = useParams<{ contentId: string }>();
     const navigate = useNavigate();
-    const { getStudyMaterialById, updateStudyMaterial } = useUploadedContent();
+    const location = useLocation();
+    const [searchParams] = useSearchParams();
+    const { getStudyMaterialById, updateStudyMaterial, isLibraryLoading, courses, getQuizzesForContent } = useUploadedContent();
     const [material, setMaterial] = useState<StudyMaterial | null>(null);
 
     const [isLoading, setIsLoading] = useState<Record<string, boolean>>({});
-    const [error, setError] = useState<Record<string, string | null>>({});
+    const [error, setError] = useState<Record<string, AiServiceError | string | null>>({});
+    const [chunkProgress, setChunkProgress] = useState<Record<string, geminiService.ChunkProgress | null>>({});
+    // Text streamed so far while an explanation, notes or chat reply is generated.
+    const [streamingText, setStreamingText] = useState<Record<string, string>>({});
+    // One controller per running AI task; Stop and Cancel abort it, and leaving the page aborts them all.
+    const abortControllers = useRef<Record<string, AbortController>>({});
 
     const [chatInput, setChatInput] = useState('');
     const [isAwaitingChatResponse, setIsAwaitingChatResponse] = useState(false);
     const [useGoogleSearch, setUseGoogleSearch] = useState(false);
     const chatContainerRef = useRef<HTMLDivElement>(null);
+    const audioRefs = useRef<Record<string, HTMLAudioElement | null>>({});
+    const [audioTimes, setAudioTimes] = useState<Record<string, number>>({});
     
     const [selectedNoteLength, setSelectedNoteLength] = useState<NoteLength>(NoteLength.MEDIUM);
 
+    const [selectedVariantId, setSelectedVariantId] = useState(''); // Empty for the standard explanation
+    const [variantAudience, setVariantAudience] = useState<ExplanationAudience>('high-school');
+    const [variantStyle, setVariantStyle] = useState<ExplanationStyle>('step-by-step');
+
     const [videoGenerationProgress, setVideoGenerationProgress] = useState('');
     const [availableVoices, setAvailableVoices] = useState<SpeechSynthesisVoice[]>([]);
     const [selectedVoice, setSelectedVoice] = useState<SpeechSynthesisVoice | null>(null);
+    const [hasMatchingVoice, setHasMatchingVoice] = useState(true); // False when no voice reads the output language
     
     const [isGeneratingPresentation, setIsGeneratingPresentation] = useState(false);
     const [presentationGenProgress, setPresentationGenProgress] = useState('');
-    const [presentationError, setPresentationError] = useState<string | null>(null);
+    const [presentationError, setPresentationError] = useState<AiServiceError | string | null>(null);
 
     const [isGeneratingDiagram, setIsGeneratingDiagram] = useState(false);
-    const [diagramError, setDiagramError] = useState<string | null>(null);
+    const [diagramError, setDiagramError] = useState<AiServiceError | string | null>(null);
 
     useEffect(() => {
         if (!contentId) { navigate('/'); return; }
+        if (isLibraryLoading) return;
         const foundMaterial = getStudyMaterialById(contentId);
         if (foundMaterial) { setMaterial(foundMaterial); } else { navigate('/'); }
-    }, [contentId, getStudyMaterialById, navigate]);
+    }, [contentId, getStudyMaterialById, isLibraryLoading, navigate]);
+
+    useEffect(() => () => Object.values(abortControllers.current).forEach(controller => controller.abort()), []);
+
+    const startTask = (key: string) => {
+        const controller = new AbortController();
+        abortControllers.current[key] = controller;
+        return controller;
+    };
+    const finishTask = (key: string, controller: AbortController) => {
+        if (abortControllers.current[key] === controller) delete abortControllers.current[key];
+    };
 
     useEffect(() => {
       if (chatContainerRef.current) { chatContainerRef.current.scrollTop = chatContainerRef.current.scrollHeight; }
-    }, [material?.chatHistory, isAwaitingChatResponse]);
-
+    }, [material?.chatHistory, isAwaitingChatResponse, streamingText.chat]);
+
+    // Deep links from search results, e.g. ?focus=chat&message=<id>, open the card and highlight the hit.
+    const focus = searchParams.get('focus');
+    const focusKeyFor = (card: string) => material && focus === card ? location.key : undefined;
+    const [highlightedElementId, setHighlightedElementId] = useState<string | null>(null);
+    const materialId = material?.id;
+    // Runs again for every followed link (location.key), even to the same URL.
+    useEffect(() => {
+      if (!materialId || !focus) return;
+      const note = searchParams.get('note');
+      if (focus === 'notes' && note && (Object.values(NoteLength) as string[]).includes(note)) setSelectedNoteLength(note as NoteLength);
+      const variantId = searchParams.get('variant');
+      if (focus === 'explanation' && variantId) setSelectedVariantId(variantId);
+
+      const elementId = focus === 'chat' ? `chat-message-${searchParams.get('message')}`
+        : focus === 'quiz' ? `quiz-attempt-${searchParams.get('quiz')}`
+        : focus === 'original' && searchParams.get('source') ? `material-source-${searchParams.get('source')}`
+        : null;
+      if (!elementId) return;
+      setHighlightedElementId(elementId);
+      // Wait for the card to open before scrolling to the element inside it.
+      const scrollTimer = setTimeout(() => document.getElementById(elementId)?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 100);
+      const highlightTimer = setTimeout(() => setHighlightedElementId(null), 3000);
+      return () => { clearTimeout(scrollTimer); clearTimeout(highlightTimer); };
+    }, [materialId, focus, searchParams, location.key]);
+    const highlightClass = (elementId: string) => highlightedElementId === elementId ? 'search-highlight' : '';
+
+    const outputLanguage = resolveOutputLanguage(material);
+
+    // Narration uses voices for the language the content is generated in; without one, any voice can be picked.
     useEffect(() => {
       if (!('speechSynthesis' in window)) return;
       const loadVoices = () => {
         const voices = window.speechSynthesis.getVoices();
-        const englishVoices = voices.filter(v => v.lang.startsWith('en') && !v.name.includes('Google') && !v.name.includes('Microsoft'));
-        setAvailableVoices(englishVoices);
-        if(englishVoices.length > 0) { setSelectedVoice(englishVoices[0]); }
+        const matchingVoices = findVoicesForLanguage(voices, outputLanguage);
+        setHasMatchingVoice(matchingVoices.length > 0);
+        const choices = matchingVoices.length > 0 ? matchingVoices : voices;
+        setAvailableVoices(choices);
+        setSelectedVoice(choices[0] || null);
       };
       loadVoices();
       window.speechSynthesis.onvoiceschanged = loadVoices;
       return () => { window.speechSynthesis.onvoiceschanged = null; }
-    }, []);
+    }, [outputLanguage]);
 
-    const handleGenerate = useCallback(async (type: 'summary' | 'explanation' | 'notes', generatorFn: () => Promise<any>) => {
+    const handleGenerate = useCallback(async (type: 'summary' | 'explanation' | 'notes', generatorFn: (signal: AbortSignal, onTemplate: (template: PromptTemplateRef) => void) => Promise<any>) => {
         if (!material?.id) return;
+        const controller = startTask(type);
         setIsLoading(prev => ({ ...prev, [type]: true }));
         setError(prev => ({ ...prev, [type]: null }));
         try {
-            const result = await generatorFn();
+            let template: PromptTemplateRef | undefined;
+            const result = await generatorFn(controller.signal, ref => { template = ref; });
+            // A stopped generation keeps the text streamed so far, unless it was stopped before any arrived.
+            if (controller.signal.aborted && !result) return;
             const updateKey = type === 'summary' ? 'aiSummary' : type === 'explanation' ? 'aiExplanation' : 'notes';
             const updateValue = type === 'notes' ? { ...material.notes, [selectedNoteLength]: result } : result;
-            updateStudyMaterial(material.id, { [updateKey]: updateValue });
+            const generatedWith = type === 'explanation' ? { ...material.generatedWith, explanation: template }
+                : type === 'notes' ? { ...material.generatedWith, notes: { ...material.generatedWith?.notes, [selectedNoteLength]: template } }
+                : material.generatedWith;
+            updateStudyMaterial(material.id, { [updateKey]: updateValue, generatedWith });
         } catch (e) {
+            if (controller.signal.aborted) return;
             console.error(`Error generating ${type}:`, e);
-            setError(prev => ({ ...prev, [type]: `Failed to generate ${type}. Please try again.` }));
+            setError(prev => ({ ...prev, [type]: toAiServiceError(e) }));
         } finally {
+            finishTask(type, controller);
             setIsLoading(prev => ({ ...prev, [type]: false }));
+            setChunkProgress(prev => ({ ...prev, [type]: null }));
+            setStreamingText(prev => ({ ...prev, [type]: '' }));
         }
-    }, [material?.id, material?.notes, selectedNoteLength, updateStudyMaterial]);
+    }, [material?.id, material?.notes, material?.generatedWith, selectedNoteLength, updateStudyMaterial]);
+
+    const stopGeneration = (key: string) => abortControllers.current[key]?.abort();
+
+
+    const sources = useMemo(() => material?.sources || [], [material?.sources]);
+    const sourceLabels = sources.length > 1 ? sources.map(source => source.label) : undefined;
+    const hasTimestamps = sources.some(source => source.transcriptSegments?.length);
+    const courseIds = useMemo(() => getCourseAncestorIds(courses, material?.courseId), [courses, material?.courseId]);
+
+    // With a signal the answer streams into streamingText[progressKey] and can be stopped.
+    const generationOptions = (progressKey: string, signal?: AbortSignal): geminiService.GenerationOptions => ({
+        citeTimestamps: hasTimestamps,
+        citeSources: sources.length > 1,
+        onChunkProgress: progress => setChunkProgress(prev => ({ ...prev, [progressKey]: progress })),
+        materialId: material?.id,
+        courseIds,
+        language: outputLanguage,
+        ...(signal && { signal, onText: text => setStreamingText(prev => ({ ...prev, [progressKey]: text })) }),
+    });
+
+    const seekAudio = useCallback((sourceId: string, seconds: number) => {
+        const audio = audioRefs.current[sourceId];
+        if (!audio) return;
+        audio.currentTime = seconds;
+        audio.play().catch(() => { /* Playback can be blocked until the user interacts with the player. */ });
+    }, []);
+
+    // A citation without a source number refers to the material's only timestamped source.
+    const resolveTimestamp = useCallback((seconds: number, sourceNumber?: number): CitationTarget | null => {
+        const source = sourceNumber ? sources[sourceNumber - 1] : sources.find(s => s.transcriptSegments?.length);
+        if (source?.type === 'youtube') {
+            const href = buildYouTubeTimestampUrl(source.originalContent, seconds);
+            return href ? { href } : null;
+        }
+        if (source?.type === 'audio' && source.audioAssetId) return { onSeek: () => seekAudio(source.id, seconds) };
+        return null;
+    }, [sources, seekAudio]);
 
+    const handleGenerateExplanation = () => handleGenerate('explanation', (signal, onTemplate) => geminiService.generateExplanation(material!.extractedText!, { ...generationOptions('explanation', signal), onTemplate, bypassCache: !!material!.aiExplanation }));
 
-    const handleGenerateNotes = () => handleGenerate('notes', () => geminiService.generateNotes(material!.extractedText!, selectedNoteLength));
+    const variants = material?.explanationVariants || [];
+    const selectedVariant = variants.find(variant => variant.id === selectedVariantId);
+    const existingVariant = variants.find(variant => variant.audience === variantAudience && variant.style === variantStyle);
+
+    // Selecting a variant also selects its audience and style, so regenerating replaces it.
+    const selectedVariantAudience = selectedVariant?.audience;
+    const selectedVariantStyle = selectedVariant?.style;
+    useEffect(() => {
+        if (!selectedVariantAudience || !selectedVariantStyle) return;
+        setVariantAudience(selectedVariantAudience);
+        setVariantStyle(selectedVariantStyle);
+    }, [selectedVariantId, selectedVariantAudience, selectedVariantStyle]);
+
+    const handleGenerateVariant = async () => {
+        if (!material?.id || !material.extractedText) return;
+        const audience = variantAudience, style = variantStyle;
+        const controller = startTask('explanationVariant');
+        setIsLoading(prev => ({ ...prev, explanationVariant: true }));
+        setError(prev => ({ ...prev, explanationVariant: null }));
+        try {
+            const generatedWith: ExplanationVariant['generatedWith'] = {};
+            const text = await geminiService.generateExplanation(material.extractedText, {
+                ...generationOptions('explanationVariant', controller.signal),
+                onTemplate: ref => { generatedWith.explanation = ref; },
+                bypassCache: !!existingVariant,
+            }, { audience, style, onTemplate: ref => { generatedWith.preset = ref; } });
+            if (controller.signal.aborted && !text) return;
+            // One variant per audience and style: a new one replaces the earlier version in place.
+            const variant: ExplanationVariant = { id: existingVariant?.id || `variant_${Date.now()}`, audience, style, text, createdAt: new Date().toISOString(), generatedWith };
+            const currentVariants = getStudyMaterialById(material.id)?.explanationVariants || [];
+            updateStudyMaterial(material.id, {
+                explanationVariants: existingVariant ? currentVariants.map(v => v.id === variant.id ? variant : v) : [...currentVariants, variant],
+            });
+            setSelectedVariantId(variant.id);
+        } catch (e) {
+            if (controller.signal.aborted) return;
+            console.error("Error generating explanation variant:", e);
+            setError(prev => ({ ...prev, explanationVariant: toAiServiceError(e) }));
+        } finally {
+            finishTask('explanationVariant', controller);
+            setIsLoading(prev => ({ ...prev, explanationVariant: false }));
+            setChunkProgress(prev => ({ ...prev, explanationVariant: null }));
+            setStreamingText(prev => ({ ...prev, explanationVariant: '' }));
+        }
+    };
+
+    const handleRemoveVariant = (variantId: string) => {
+        if (!material?.id) return;
+        updateStudyMaterial(material.id, { explanationVariants: variants.filter(variant => variant.id !== variantId) });
+        setSelectedVariantId('');
+    };
+
+    const handleGenerateNotes = () => handleGenerate('notes', (signal, onTemplate) => geminiService.generateNotes(material!.extractedText!, selectedNoteLength, { ...generationOptions('notes', signal), onTemplate, bypassCache: !!material!.notes?.[selectedNoteLength] }));
 
     const handleSendMessage = useCallback(async (textOverride?: string) => {
       const textToSend = (textOverride ?? chatInput).trim();
@@ -240,52 +452,100 @@ const StudyPage: React.FC = () => {
       setChatInput('');
       setIsAwaitingChatResponse(true);
       setError(prev => ({ ...prev, chat: null }));
+      const controller = startTask('chat');
+      // The question goes back into the input box to be sent again, rather than staying unanswered in the conversation.
+      const withdrawMessage = () => {
+        const currentMaterial = getStudyMaterialById(material.id);
+        updateStudyMaterial(material.id, { chatHistory: (currentMaterial?.chatHistory || []).filter(message => message.id !== userMessage.id) });
+        setChatInput(textToSend);
+      };
 
       try {
-        const systemInstruction = `You are Ameena AI, a friendly and expert study assistant. The user is currently studying the following material titled "${material.title}". Topic: ${material.topic}. Subject: ${material.subject}.\n\nRefer to this content when answering, but do not mention it explicitly unless asked. Be helpful, encouraging, and clear.\n\n---\nSTUDY MATERIAL:\n${material.extractedText?.substring(0, 4000)}...\n---`;
-        const chat = geminiService.startOrGetChat(systemInstruction, material.chatHistory?.map(msg => ({ role: msg.sender === 'user' ? 'user' : 'model', parts: [{ text: msg.text }] })));
-        const { text: aiText, groundingSources } = await geminiService.sendMessageToChat(chat, userMessage.text, useGoogleSearch);
-        const aiMessage: ChatMessage = { id: `msg_${Date.now() + 1}`, sender: 'ai', text: aiText, timestamp: new Date().toISOString(), groundingSources: groundingSources };
-        updateStudyMaterial(material.id, { chatHistory: [...(material.chatHistory || []), userMessage, aiMessage] });
+        const systemInstruction = geminiService.buildChatInstruction(material, buildFocusedContext(material.extractedText || '', textToSend, CHAT_CONTEXT_MAX_CHARS), {
+          citeSources: sources.length > 1,
+          citeTimestamps: hasTimestamps,
+          courseIds,
+          language: outputLanguage,
+        });
+        const chat = geminiService.startOrGetChat(systemInstruction, material.chatHistory?.map(msg => ({ role: msg.sender === 'user' ? 'user' : 'model', text: msg.text })));
+        const { text: aiText, groundingSources } = await geminiService.sendMessageToChat(chat, userMessage.text, useGoogleSearch, {
+          onText: text => setStreamingText(prev => ({ ...prev, chat: text })),
+          signal: controller.signal,
+          materialId: material.id,
+        });
+        // A stopped reply keeps the text received so far; stopped before any arrived, the question is taken back.
+        if (aiText || !controller.signal.aborted) {
+          const aiMessage: ChatMessage = { id: `msg_${Date.now() + 1}`, sender: 'ai', text: aiText, timestamp: new Date().toISOString(), groundingSources: groundingSources };
+          updateStudyMaterial(material.id, { chatHistory: [...(material.chatHistory || []), userMessage, aiMessage] });
+        } else {
+          withdrawMessage();
+        }
       } catch (e: any) {
+        if (controller.signal.aborted) { withdrawMessage(); return; }
         console.error("Error sending message:", e);
-        const errorMessage: ChatMessage = { id: `err_${Date.now()}`, sender: 'ai', text: "Sorry, I encountered an error. Please check your connection or API key and try again.", timestamp: new Date().toISOString() };
-        const currentMaterial = getStudyMaterialById(material.id);
-        updateStudyMaterial(material.id, { chatHistory: [...(currentMaterial?.chatHistory || []), errorMessage] });
+        withdrawMessage();
+        setError(prev => ({ ...prev, chat: toAiServiceError(e) }));
       } finally {
+        finishTask('chat', controller);
+        setStreamingText(prev => ({ ...prev, chat: '' }));
         setIsAwaitingChatResponse(false);
       }
-    }, [chatInput, material, updateStudyMaterial, getStudyMaterialById, useGoogleSearch]);
+    }, [chatInput, material, sources.length, hasTimestamps, courseIds, outputLanguage, updateStudyMaterial, getStudyMaterialById, useGoogleSearch]);
     
     const handleGenerateFullPresentation = async () => {
         if (!material?.id || !material.aiExplanation) {
             setPresentationError("An explanation must be generated first to create a presentation."); return;
         }
+        const controller = startTask('presentation');
         setIsGeneratingPresentation(true);
         setPresentationError(null);
         setPresentationGenProgress('Starting presentation generation...');
+        // A regeneration keeps the previous presentation until the new one has its images: replacing it
+        // sooner would release the previous slide images, which a cancelled regeneration has to keep.
+        const previousTemplate = material.generatedWith?.presentation;
+        const replacesPrevious = !!material.presentationContent;
+        let wroteContent = false;
         try {
             setPresentationGenProgress('Step 1/2: Crafting slide content...');
-            const content = await geminiService.generatePresentationContent(material.aiExplanation);
-            if (!content) throw new Error("The AI failed to generate presentation content.");
-            updateStudyMaterial(material.id, { presentationContent: content });
+            let template: PromptTemplateRef | undefined;
+            const content = await geminiService.generatePresentationContent(material.aiExplanation, {
+                onChunkProgress: progress => setPresentationGenProgress(`Step 1/2: ${progress.message}`),
+                signal: controller.signal,
+                bypassCache: replacesPrevious,
+                materialId: material.id,
+                courseIds,
+                language: outputLanguage,
+                onTemplate: ref => { template = ref; },
+            });
+            if (!replacesPrevious) {
+                updateStudyMaterial(material.id, { presentationContent: content, generatedWith: { ...material.generatedWith, presentation: template } });
+                wroteContent = true;
+            }
             const onProgress = (progress: string) => setPresentationGenProgress(`Step 2/2: ${progress}`);
-            const contentWithImages = await geminiService.generatePresentationImages(content, onProgress);
+            const contentWithImages = await geminiService.generatePresentationImages(content, onProgress, { signal: controller.signal, materialId: material.id });
             if (contentWithImages) {
-                updateStudyMaterial(material.id, { presentationContent: contentWithImages });
+                updateStudyMaterial(material.id, { presentationContent: contentWithImages, generatedWith: { ...material.generatedWith, presentation: template } });
                 if (contentWithImages.slides.some(s => !s.imageUrl)) setPresentationError("Some slide visuals could not be generated.");
             } else { throw new Error("Failed to generate presentation images."); }
         } catch (err: any) {
-            console.error("Presentation generation failed:", err);
-            setPresentationError(err.message || "An unknown error occurred.");
-            updateStudyMaterial(material.id, { presentationContent: undefined });
+            if (!controller.signal.aborted) {
+                console.error("Presentation generation failed:", err);
+                setPresentationError(toAiServiceError(err));
+            }
+            // Cancelling, leaving the page or failing puts back what was there before: the previous presentation,
+            // or none if the unfinished one had already been saved.
+            if (wroteContent) {
+                const current = getStudyMaterialById(material.id);
+                updateStudyMaterial(material.id, { presentationContent: undefined, generatedWith: { ...current?.generatedWith, presentation: previousTemplate } });
+            }
         } finally {
+            finishTask('presentation', controller);
             setIsGeneratingPresentation(false);
             setPresentationGenProgress('');
         }
     };
 
-    const handleDownloadPptx = () => {
+    const handleDownloadPptx = async () => {
       if (!material?.presentationContent) return;
       const { title, slides } = material.presentationContent;
       const pptx = new PptxGenJS();
@@ -295,10 +555,13 @@ const StudyPage: React.FC = () => {
       titleSlide.addText(title, { x: 0.5, y: 2.5, w: '90%', h: 1, fontSize: 44, bold: true, align: 'center' });
       titleSlide.addText(`By Ameena AI`, { x: 0.5, y: 3.5, w: '90%', h: 1, fontSize: 20, align: 'center' });
 
-      slides.forEach(slide => {
+      // Stored slide images are read back from the asset store so they can be embedded in the file.
+      const imageUrls = await Promise.all(slides.map(slide => slide.imageUrl ? resolveAssetDataUrl(slide.imageUrl).catch(() => null) : null));
+      slides.forEach((slide, i) => {
         const pptxSlide = pptx.addSlide();
-        if (slide.imageUrl) {
-            pptxSlide.addImage({ data: slide.imageUrl, x: 0, y: 0, w: '100%', h: '100%' });
+        const imageUrl = imageUrls[i];
+        if (imageUrl) {
+            pptxSlide.addImage({ ...(imageUrl.startsWith('data:') ? { data: imageUrl } : { path: imageUrl }), x: 0, y: 0, w: '100%', h: '100%' });
         }
         pptxSlide.addText(slide.title, { x: 0.5, y: 0.25, w: '90%', h: 0.75, fontSize: 32, bold: true, color: "FFFFFF", outline: { size: 1, color: "000000" } });
         pptxSlide.addText(slide.content.join('\n'), { x: 0.5, y: 1.2, w: '50%', h: 4, fontSize: 18, bullet: true, color: "FFFFFF", outline: { size: 1, color: "000000" } });
@@ -309,75 +572,207 @@ const StudyPage: React.FC = () => {
     
     const handleGenerateBlockDiagram = async () => {
         if (!material?.aiExplanation) { setDiagramError("Please generate an explanation first."); return; }
+        const controller = startTask('diagram');
         setIsGeneratingDiagram(true);
         setDiagramError(null);
         try {
-            const mermaidCode = await geminiService.generateBlockDiagram(material.aiExplanation);
-            updateStudyMaterial(material!.id, { blockDiagramMermaid: mermaidCode || 'error' });
+            let template: PromptTemplateRef | undefined;
+            const mermaidCode = await geminiService.generateBlockDiagram(material.aiExplanation, {
+                ...generationOptions('diagram'),
+                signal: controller.signal,
+                bypassCache: !!material.blockDiagramMermaid,
+                onTemplate: ref => { template = ref; },
+            });
+            updateStudyMaterial(material!.id, { blockDiagramMermaid: mermaidCode, generatedWith: { ...material.generatedWith, diagram: template } });
         } catch (err: any) {
-            setDiagramError(err.message || 'Failed to generate diagram.');
-            updateStudyMaterial(material!.id, { blockDiagramMermaid: 'error' });
+            if (controller.signal.aborted) return;
+            setDiagramError(toAiServiceError(err));
         } finally {
+            finishTask('diagram', controller);
             setIsGeneratingDiagram(false);
+            setChunkProgress(prev => ({ ...prev, diagram: null }));
         }
     };
     
     const handleGenerateVideo = async () => {
         if (!material?.aiExplanation) { setError(prev => ({ ...prev, video: "Please generate an explanation first."})); return; }
+        const controller = startTask('video');
         setIsLoading(prev => ({ ...prev, video: true }));
         setError(prev => ({ ...prev, video: null }));
         setVideoGenerationProgress('Starting video generation...');
         try {
-            const scenes = await geminiService.generateVideoAssets(material.aiExplanation, (progress) => setVideoGenerationProgress(progress));
-            updateStudyMaterial(material!.id, { videoScenes: scenes || [] });
+            let template: PromptTemplateRef | undefined;
+            const scenes = await geminiService.generateVideoAssets(material.aiExplanation, (progress) => setVideoGenerationProgress(progress), {
+                signal: controller.signal,
+                bypassCache: !!material.videoScenes?.length,
+                materialId: material.id,
+                courseIds,
+                language: outputLanguage,
+                onTemplate: ref => { template = ref; },
+            });
+            updateStudyMaterial(material!.id, { videoScenes: scenes, generatedWith: { ...material.generatedWith, video: template } });
         } catch (err: any) {
+            if (controller.signal.aborted) return;
             console.error(err);
-            setError(prev => ({ ...prev, video: err.message || "An unknown error occurred."}));
+            setError(prev => ({ ...prev, video: toAiServiceError(err) }));
         } finally {
+            finishTask('video', controller);
             setIsLoading(prev => ({ ...prev, video: false }));
             setVideoGenerationProgress('');
         }
     };
 
 
+    const renderSourceContent = (source: MaterialSource, sourceNumber: number) => {
+        if (source.type === 'audio' && source.transcriptSegments?.length) {
+            const audioTime = audioTimes[source.id] ?? -1;
+            return (
+                <ol className="audio-transcript">
+                  {source.transcriptSegments.map((segment, i) => (
+                    <li key={i} className={audioTime >= segment.start && audioTime < segment.end ? 'active' : undefined}>
+                      <button type="button" className="timestamp-link" onClick={() => seekAudio(source.id, segment.start)}>
+                        [{formatTimestamp(segment.start)}]
+                      </button>
+                      <span>{segment.speaker && <strong>{segment.speaker}: </strong>}{segment.text}</span>
+                    </li>
+                  ))}
+                </ol>
+            );
+        }
+        if (source.sourceImages && source.sourceImages.length > 0) {
+            return (
+                <div className="original-content-split">
+                  <div className="original-content-images">
+                    {source.sourceImages.map((image, i) => (
+                      <AssetImage key={i} src={image} alt={source.sourceImages!.length > 1 ? `Page ${i + 1} of ${source.fileName}` : source.fileName} />
+                    ))}
+                  </div>
+                  <p style={{whiteSpace: 'pre-wrap'}}>{source.extractedText || "No text content available."}</p>
+                </div>
+            );
+        }
+        return <TimestampedText text={source.extractedText || "No text content available."} resolveTimestamp={seconds => resolveTimestamp(seconds, sourceNumber)} />;
+    };
+
     if (!material) return <LoadingSpinner text="Loading study material..." />;
     
     const noteForSelectedLength = material.notes?.[selectedNoteLength];
+    const quizzes = [...getQuizzesForContent(material.id)].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
 
     return (
         <div>
             <header className="study-page-header">
-                <p className="meta-info">{material.subject} &gt; {material.topic}</p>
+                <div className="study-page-header-top">
+                    <p className="meta-info">{material.subject} &gt; {material.topic}</p>
+                    <MaterialActions
+                      material={material}
+                      onDuplicated={copy => navigate(`/study/${copy.id}`)}
+                      onBeforeDelete={() => navigate('/dashboard')}
+                    />
+                </div>
                 <h1>{material.title}</h1>
                 <div className="details">
+                    {material.archivedAt && <span className="archived-badge">Archived</span>}
+                    {material.author && <span>By {material.author}</span>}
                     <span>Difficulty: {material.difficulty}</span>
                     <span>Type: {material.type}</span>
+                    {sources.length > 1 && <span>Sources: {sources.length}</span>}
+                    {material.courseId && getCoursePath(courses, material.courseId).length > 0 && <span>Course: {getCoursePath(courses, material.courseId).join(' / ')}</span>}
+                    {material.tags?.map(tag => <span key={tag} className="tag-chip">#{tag}</span>)}
+                    <label className="output-language-select">
+                        Output language
+                        <select className="form-select" value={material.outputLanguage || ''} onChange={e => updateStudyMaterial(material.id, { outputLanguage: e.target.value || undefined })}>
+                            <option value="">Default ({formatLanguageName(loadOutputLanguage())})</option>
+                            {OUTPUT_LANGUAGES.map(language => <option key={language.code} value={language.code}>{formatLanguageName(language.code)}</option>)}
+                        </select>
+                    </label>
                 </div>
+                {sources.filter(source => source.type === 'audio').map(source => (
+                  <AudioSourcePlayer
+                    key={source.id}
+                    source={source}
+                    showLabel={sources.length > 1}
+                    audioRef={element => { audioRefs.current[source.id] = element; }}
+                    onTimeUpdate={seconds => setAudioTimes(prev => ({ ...prev, [source.id]: seconds }))}
+                  />
+                ))}
             </header>
 
             <div className="study-page-layout">
                 <div>
-                    <CollapsibleCard title="Original Content" icon={BookOpenIcon}>
-                      <p style={{whiteSpace: 'pre-wrap'}}>{material.extractedText || "No text content available."}</p>
+                    <CollapsibleCard title="Original Content" icon={BookOpenIcon} focusKey={focusKeyFor('original')}>
+                      {sources.length > 1 ? sources.map((source, i) => (
+                        <section key={source.id} id={`material-source-${i + 1}`} className={`material-source ${highlightClass(`material-source-${i + 1}`)}`}>
+                          <h3>Source {i + 1}: {source.label}</h3>
+                          {renderSourceContent(source, i + 1)}
+                        </section>
+                      )) : sources.length === 1 && renderSourceContent(sources[0], 1)}
                     </CollapsibleCard>
                     
-                    <CollapsibleCard title="AI-Powered Explanation" icon={LightBulbIcon} defaultOpen={true}>
+                    <CollapsibleCard title="AI-Powered Explanation" icon={LightBulbIcon} defaultOpen={true} focusKey={focusKeyFor('explanation')}>
                        <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
-                            {error.explanation && <Alert type="error" message={error.explanation} />}
-                            {material.aiExplanation ? (
-                                <p style={{whiteSpace: 'pre-wrap'}}>{material.aiExplanation}</p>
+                            {variants.length > 0 && (
+                                <div className="explanation-variant-selector">
+                                    <Button onClick={() => setSelectedVariantId('')} variant={selectedVariant ? 'ghost' : 'primary'}>Standard</Button>
+                                    {variants.map(variant => (
+                                        <Button key={variant.id} onClick={() => setSelectedVariantId(variant.id)} variant={variant.id === selectedVariant?.id ? 'primary' : 'ghost'}>
+                                            {describeExplanationVariant(variant)}
+                                        </Button>
+                                    ))}
+                                </div>
+                            )}
+                            {!selectedVariant && error.explanation && <AiErrorAlert error={error.explanation} onRetry={handleGenerateExplanation} />}
+                            {error.explanationVariant && <AiErrorAlert error={error.explanationVariant} onRetry={handleGenerateVariant} />}
+                            {isLoading.explanation && !selectedVariant && chunkProgress.explanation && <ChunkProgressIndicator progress={chunkProgress.explanation} />}
+                            {isLoading.explanationVariant && chunkProgress.explanationVariant && <ChunkProgressIndicator progress={chunkProgress.explanationVariant} />}
+                            {isLoading.explanationVariant && streamingText.explanationVariant ? (
+                                <TimestampedText text={streamingText.explanationVariant} resolveTimestamp={resolveTimestamp} sourceLabels={sourceLabels} />
+                            ) : selectedVariant ? (
+                                <>
+                                    <TimestampedText text={selectedVariant.text} resolveTimestamp={resolveTimestamp} sourceLabels={sourceLabels} />
+                                    <TemplateCaption template={[selectedVariant.generatedWith?.explanation, selectedVariant.generatedWith?.preset]} />
+                                </>
+                            ) : isLoading.explanation && streamingText.explanation ? (
+                                <TimestampedText text={streamingText.explanation} resolveTimestamp={resolveTimestamp} sourceLabels={sourceLabels} />
+                            ) : material.aiExplanation ? (
+                                <TimestampedText text={material.aiExplanation} resolveTimestamp={resolveTimestamp} sourceLabels={sourceLabels} />
                             ) : (
                                 <p>No explanation generated yet. Click the button to get started!</p>
                             )}
-                            <Button onClick={() => handleGenerate('explanation', () => geminiService.generateExplanation(material.extractedText!))} isLoading={isLoading.explanation} disabled={!material.extractedText || isLoading.explanation} leftIcon={<SparklesIcon />}>
-                                {isLoading.explanation ? 'Generating...' : (material.aiExplanation ? 'Regenerate Explanation' : 'Generate Explanation')}
-                            </Button>
+                            {!selectedVariant && !isLoading.explanation && material.aiExplanation && <TemplateCaption template={material.generatedWith?.explanation} />}
+                            {selectedVariant ? (
+                                <Button variant="ghost" onClick={() => handleRemoveVariant(selectedVariant.id)} disabled={isLoading.explanationVariant}>Remove this variant</Button>
+                            ) : isLoading.explanation ? (
+                                <Button variant="secondary" onClick={() => stopGeneration('explanation')} leftIcon={<StopCircleIcon />}>Stop generating</Button>
+                            ) : (
+                                <Button onClick={handleGenerateExplanation} disabled={!material.extractedText} leftIcon={<SparklesIcon />}>
+                                    {material.aiExplanation ? 'Regenerate Explanation' : 'Generate Explanation'}
+                                </Button>
+                            )}
+                            <div className="explanation-variant-form">
+                                <label className="form-label" htmlFor="explanation-audience">Explain for</label>
+                                <select id="explanation-audience" className="form-select" value={variantAudience} onChange={e => setVariantAudience(e.target.value as ExplanationAudience)} disabled={isLoading.explanationVariant}>
+                                    {EXPLANATION_AUDIENCES.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                                </select>
+                                <label className="form-label" htmlFor="explanation-style">Style</label>
+                                <select id="explanation-style" className="form-select" value={variantStyle} onChange={e => setVariantStyle(e.target.value as ExplanationStyle)} disabled={isLoading.explanationVariant}>
+                                    {EXPLANATION_STYLES.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                                </select>
+                                {isLoading.explanationVariant ? (
+                                    <Button variant="secondary" onClick={() => stopGeneration('explanationVariant')} leftIcon={<StopCircleIcon />}>Stop generating</Button>
+                                ) : (
+                                    <Button variant="secondary" onClick={handleGenerateVariant} disabled={!material.extractedText} leftIcon={<SparklesIcon />}>
+                                        {existingVariant ? 'Regenerate variant' : 'Generate variant'}
+                                    </Button>
+                                )}
+                            </div>
                         </div>
                     </CollapsibleCard>
 
-                    <CollapsibleCard title="AI-Generated Notes" icon={ClipboardListIcon}>
+                    <CollapsibleCard title="AI-Generated Notes" icon={ClipboardListIcon} focusKey={focusKeyFor('notes')}>
                         <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
-                          {error.notes && <Alert type="error" message={error.notes} />}
+                          {error.notes && <AiErrorAlert error={error.notes} onRetry={handleGenerateNotes} />}
+                          {isLoading.notes && chunkProgress.notes && <ChunkProgressIndicator progress={chunkProgress.notes} />}
                           <div className="note-length-selector">
                               {(Object.keys(NoteLength) as Array<keyof typeof NoteLength>).map(key => (
                                 <Button key={key} onClick={() => setSelectedNoteLength(NoteLength[key])} variant={selectedNoteLength === NoteLength[key] ? 'primary' : 'ghost'}>
@@ -386,25 +781,63 @@ const StudyPage: React.FC = () => {
                               ))}
                           </div>
                           
-                          {noteForSelectedLength ? (
-                            <p style={{whiteSpace: 'pre-wrap'}}>{noteForSelectedLength}</p>
+                          {isLoading.notes && streamingText.notes ? (
+                            <TimestampedText text={streamingText.notes} resolveTimestamp={resolveTimestamp} sourceLabels={sourceLabels} />
+                          ) : noteForSelectedLength ? (
+                            <TimestampedText text={noteForSelectedLength} resolveTimestamp={resolveTimestamp} sourceLabels={sourceLabels} />
                           ) : (
                             <p>Notes for this level of detail have not been generated yet.</p>
                           )}
-                          <Button onClick={handleGenerateNotes} isLoading={isLoading.notes} disabled={!material.extractedText || isLoading.notes} leftIcon={<SparklesIcon />}>
-                              {isLoading.notes ? 'Generating...' : (noteForSelectedLength ? `Regenerate ${selectedNoteLength} Notes` : `Generate ${selectedNoteLength} Notes`)}
-                          </Button>
+                          {!isLoading.notes && noteForSelectedLength && <TemplateCaption template={material.generatedWith?.notes?.[selectedNoteLength]} />}
+                          {isLoading.notes ? (
+                            <Button variant="secondary" onClick={() => stopGeneration('notes')} leftIcon={<StopCircleIcon />}>Stop generating</Button>
+                          ) : (
+                            <Button onClick={handleGenerateNotes} disabled={!material.extractedText} leftIcon={<SparklesIcon />}>
+                                {noteForSelectedLength ? `Regenerate ${selectedNoteLength} Notes` : `Generate ${selectedNoteLength} Notes`}
+                            </Button>
+                          )}
                         </div>
                     </CollapsibleCard>
 
+                    <CollapsibleCard title="Quiz History" icon={ClipboardListIcon} focusKey={focusKeyFor('quiz')}>
+                        {quizzes.length > 0 ? (
+                          <div className="quiz-history">
+                            {quizzes.map(quiz => (
+                              <details key={quiz.id} id={`quiz-attempt-${quiz.id}`} className={`quiz-history-attempt ${highlightClass(`quiz-attempt-${quiz.id}`)}`} open={focus === 'quiz' && searchParams.get('quiz') === quiz.id ? true : undefined}>
+                                <summary>
+                                  {new Date(quiz.timestamp).toLocaleString()} · {typeof quiz.score === 'number' ? `${quiz.score}/${quiz.questions.length} correct` : 'Not scored'}
+                                </summary>
+                                {quiz.questions.map((question, i) => (
+                                  <div key={question.id} className={`quiz-review-item ${question.isCorrect ? 'correct' : 'incorrect'}`}>
+                                    <p><strong>Q{i + 1}: {question.questionText}</strong></p>
+                                    <p>Your answer: <strong>{question.userAnswer || 'Not answered'}</strong></p>
+                                    {!question.isCorrect && <p>Correct answer: <strong>{[question.correctAnswer].flat().join(', ')}</strong></p>}
+                                  </div>
+                                ))}
+                                <TemplateCaption template={quiz.generatedWith} />
+                              </details>
+                            ))}
+                          </div>
+                        ) : (
+                          <p>No quizzes taken yet.</p>
+                        )}
+                        <Link to={`/quiz/${material.id}`}><Button variant="secondary" style={{ marginTop: '1rem' }}>Take a Quiz</Button></Link>
+                    </CollapsibleCard>
+
                     <CollapsibleCard title="Generate Presentation" icon={PresentationChartIcon}>
                         <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
-                            {presentationError && <Alert type="error" title="Presentation Error" message={presentationError} />}
-                            {isGeneratingPresentation && <LoadingSpinner text={presentationGenProgress} />}
+                            {presentationError && <AiErrorAlert error={presentationError} title="Presentation Error" onRetry={handleGenerateFullPresentation} />}
+                            {isGeneratingPresentation && (
+                                <div style={{ textAlign: 'center' }}>
+                                    <LoadingSpinner text={presentationGenProgress} />
+                                    <Button variant="secondary" onClick={() => stopGeneration('presentation')} leftIcon={<StopCircleIcon />}>Cancel</Button>
+                                </div>
+                            )}
 
                             {!isGeneratingPresentation && material.presentationContent && (
                                 <>
                                     <PresentationViewer presentation={material.presentationContent} />
+                                    <TemplateCaption template={material.generatedWith?.presentation} />
                                     <div style={{ display: 'flex', justifyContent: 'center', gap: '1rem', marginTop: '1rem' }}>
                                         <Button onClick={handleDownloadPptx} leftIcon={<DownloadIcon />}>Download .pptx</Button>
                                         <Button variant="secondary" onClick={handleGenerateFullPresentation} leftIcon={<SparklesIcon />}>Regenerate</Button>
@@ -427,9 +860,13 @@ const StudyPage: React.FC = () => {
                     <CollapsibleCard title="Visualize as Block Diagram" icon={Squares2X2Icon}>
                         <ErrorBoundary>
                             <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem', alignItems: 'center' }}>
-                                {diagramError && <Alert type="error" title="Diagram Error" message={diagramError} />}
+                                {diagramError && <AiErrorAlert error={diagramError} title="Diagram Error" onRetry={handleGenerateBlockDiagram} />}
+                                {isGeneratingDiagram && chunkProgress.diagram && <ChunkProgressIndicator progress={chunkProgress.diagram} />}
                                 {material.blockDiagramMermaid && material.blockDiagramMermaid !== 'error' && (
-                                    <div style={{padding: '1rem', backgroundColor: 'white' }}><MermaidDiagram chart={material.blockDiagramMermaid} /></div>
+                                    <>
+                                        <div style={{padding: '1rem', backgroundColor: 'white' }}><MermaidDiagram chart={material.blockDiagramMermaid} /></div>
+                                        <TemplateCaption template={material.generatedWith?.diagram} />
+                                    </>
                                 )}
                                 {material.blockDiagramMermaid === 'error' && !diagramError && (
                                     <Alert type="warning" title="Could not generate diagram" message="The AI was unable to create a valid diagram from the text." />
@@ -438,6 +875,7 @@ const StudyPage: React.FC = () => {
                                     <Button onClick={handleGenerateBlockDiagram} isLoading={isGeneratingDiagram} disabled={!material.aiExplanation || isGeneratingDiagram} leftIcon={<SparklesIcon />}>
                                         {isGeneratingDiagram ? 'Generating...' : (material.blockDiagramMermaid ? 'Regenerate Diagram' : 'Generate Diagram')}
                                     </Button>
+                                    {isGeneratingDiagram && <Button variant="ghost" onClick={() => stopGeneration('diagram')} leftIcon={<StopCircleIcon />} style={{ marginLeft: '0.5rem' }}>Cancel</Button>}
                                     {!material.aiExplanation && <p style={{ fontSize: '0.75rem', marginTop: '0.5rem' }}>Please generate an explanation first.</p>}
                                 </div>
                             </div>
@@ -447,12 +885,13 @@ const StudyPage: React.FC = () => {
                     <CollapsibleCard title="Generate AI-Narrated Video" icon={PlayIcon}>
                         <ErrorBoundary>
                             <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem', alignItems: 'center' }}>
-                                {error.video && <Alert type="error" title="Video Generation Error" message={error.video} />}
+                                {error.video && <AiErrorAlert error={error.video} title="Video Generation Error" onRetry={handleGenerateVideo} />}
                                 {isLoading.video && <LoadingSpinner text={videoGenerationProgress} />}
 
                                 {!isLoading.video && material.videoScenes && material.videoScenes.length > 0 && (
                                     <div style={{width: '100%'}}>
-                                        <VideoPlayer scenes={material.videoScenes} selectedVoice={selectedVoice}/>
+                                        <VideoPlayer scenes={material.videoScenes} selectedVoice={selectedVoice} language={outputLanguage}/>
+                                        <TemplateCaption template={material.generatedWith?.video} />
                                         <div style={{ marginTop: '1rem', textAlign: 'center' }}>
                                             <label htmlFor="voice-select" className="form-label">Voice:</label>
                                             <select id="voice-select" className="form-select" value={selectedVoice?.name || ''} onChange={(e) => { const voice = availableVoices.find(v => v.name === e.target.value); if (voice) setSelectedVoice(voice); }} disabled={availableVoices.length === 0}>
@@ -460,6 +899,7 @@ const StudyPage: React.FC = () => {
                                                     <option key={voice.name} value={voice.name}>{voice.name} ({voice.lang})</option>
                                                 )) : <option>No voices</option>}
                                             </select>
+                                            {availableVoices.length > 0 && !hasMatchingVoice && <p style={{ fontSize: '0.75rem', marginTop: '0.5rem' }}>This device has no voice for {formatLanguageName(outputLanguage)}, so the narration may be mispronounced.</p>}
                                         </div>
                                     </div>
                                 )}
@@ -468,6 +908,7 @@ const StudyPage: React.FC = () => {
                                     <Button onClick={handleGenerateVideo} isLoading={isLoading.video} disabled={!material.aiExplanation || isLoading.video} leftIcon={<SparklesIcon />}>
                                         {isLoading.video ? videoGenerationProgress : (material.videoScenes && material.videoScenes.length > 0 ? 'Regenerate Video' : 'Generate Video')}
                                     </Button>
+                                    {isLoading.video && <Button variant="ghost" onClick={() => stopGeneration('video')} leftIcon={<StopCircleIcon />} style={{ marginLeft: '0.5rem' }}>Cancel</Button>}
                                     {!material.aiExplanation && <p style={{ fontSize: '0.75rem', marginTop: '0.5rem' }}>Please generate an explanation first.</p>}
                                 </div>
                             </div>
@@ -481,12 +922,12 @@ const StudyPage: React.FC = () => {
                     </div>
                     <div className="chat-messages" ref={chatContainerRef}>
                         {material.chatHistory && material.chatHistory.length > 0 ? material.chatHistory.map((msg) => (
-                        <div key={msg.id} className={`chat-message ${msg.sender}`}>
+                        <div key={msg.id} id={`chat-message-${msg.id}`} className={`chat-message ${msg.sender} ${highlightClass(`chat-message-${msg.id}`)}`}>
                             <div className="chat-message-avatar">
                                 {msg.sender === 'user' ? <UserIcon /> : <AmeenaLogoIcon />}
                             </div>
                             <div className="chat-message-bubble">
-                                <div dangerouslySetInnerHTML={{ __html: msg.text.replace(/\n/g, '<br />') }}></div>
+                                <TimestampedText text={msg.text} resolveTimestamp={resolveTimestamp} sourceLabels={sourceLabels} />
                                 {msg.groundingSources && msg.groundingSources.length > 0 && (
                                     <div className="chat-message-sources">
                                         <strong>Sources:</strong>
@@ -504,25 +945,38 @@ const StudyPage: React.FC = () => {
                             <p>Ready to help!</p><p>Ask a question about your material.</p>
                         </div>
                         )}
-                        {isAwaitingChatResponse && (
+                        {isAwaitingChatResponse && (streamingText.chat ? (
+                          <div className="chat-message ai" aria-live="polite">
+                            <div className="chat-message-avatar"><AmeenaLogoIcon /></div>
+                            <div className="chat-message-bubble">
+                                <TimestampedText text={streamingText.chat} resolveTimestamp={resolveTimestamp} sourceLabels={sourceLabels} />
+                            </div>
+                          </div>
+                        ) : (
                           <div style={{alignSelf: 'flex-start'}}>
                             <div className="typing-indicator" aria-label="AI is typing">
                               <span></span><span></span><span></span>
                             </div>
                           </div>
-                        )}
+                        ))}
                     </div>
                     
                     <div className="chat-input-area">
-                        {error.chat && <Alert type="error" message={error.chat} />}
+                        {error.chat && <AiErrorAlert error={error.chat} onRetry={() => handleSendMessage()} />}
                         <div className="chat-input-wrapper">
                             <textarea value={chatInput} onChange={(e) => setChatInput(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSendMessage(); }}} placeholder="Ask a question..." rows={1} className="form-textarea" disabled={isAwaitingChatResponse} />
-                            <Button variant="ghost" onClick={() => handleSendMessage()} disabled={!chatInput.trim() || isAwaitingChatResponse}>Send</Button>
+                            {isAwaitingChatResponse ? (
+                                <Button variant="ghost" onClick={() => stopGeneration('chat')} leftIcon={<StopCircleIcon />}>Stop</Button>
+                            ) : (
+                                <Button variant="ghost" onClick={() => handleSendMessage()} disabled={!chatInput.trim()}>Send</Button>
+                            )}
                         </div>
-                        <label className="chat-google-toggle">
-                            <input type="checkbox" checked={useGoogleSearch} onChange={(e) => setUseGoogleSearch(e.target.checked)} />
-                            <GlobeAltIcon style={{ width: 16, height: 16 }}/> Search with Google for up-to-date info
-                        </label>
+                        {geminiService.supportsWebSearch() && (
+                            <label className="chat-google-toggle">
+                                <input type="checkbox" checked={useGoogleSearch} onChange={(e) => setUseGoogleSearch(e.target.checked)} />
+                                <GlobeAltIcon style={{ width: 16, height: 16 }}/> Search with Google for up-to-date info
+                            </label>
+                        )}
                     </div>
                 </aside>
             </div>
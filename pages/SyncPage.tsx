@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useUploadedContent } from '../contexts/UploadedContentContext';
+import { useLibrarySync } from '../hooks/useLibrarySync';
+import { MaterialSyncStatus } from '../services/syncService';
+import Button from '../components/common/Button';
+import Alert from '../components/common/Alert';
+import { ArrowPathIcon } from '../components/icons/Icons';
+
+const STATUS_LABELS: Record<MaterialSyncStatus, string> = {
+  synced: 'Synced',
+  changed: 'Changed since last sync',
+  never: 'Not synced yet',
+};
+
+const KIND_LABELS = { material: 'Material', quiz: 'Quiz attempt', course: 'Course' };
+
+const SyncPage: React.FC = () => {
+  const { studyMaterials, isLibraryLoading } = useUploadedContent();
+  const { settings, updateSettings, isConfigured, isSyncing, error, lastResult, conflicts, materialStatuses, syncNow } = useLibrarySync();
+  const [draft, setDraft] = useState(settings);
+  const isDraftSaved = draft.serverUrl === settings.serverUrl && draft.username === settings.username && draft.password === settings.password;
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    updateSettings({ ...draft, serverUrl: draft.serverUrl.trim() });
+  };
+
+  const summary = lastResult && `Synced at ${new Date(lastResult.finishedAt).toLocaleTimeString()}: sent ${lastResult.pushed} change${lastResult.pushed === 1 ? '' : 's'}, received ${lastResult.pulled}.`;
+
+  return (
+    <div>
+      <header style={{ marginBottom: '2rem' }}>
+        <h1>Sync</h1>
+        <p>Keep your library in step across browsers and machines through a folder on a WebDAV or HTTP server you control.</p>
+      </header>
+
+      <div className="backup-sections">
+        <section className="card">
+          <h2>Sync server</h2>
+          <p className="backup-summary">
+            Use an empty folder, e.g. on Nextcloud or served by <code>rclone serve webdav</code>. If the server is on another address than this app, it must allow
+            requests from this site (CORS) and expose the ETag header. The password is stored in this browser.
+          </p>
+          <form className="sync-settings" onSubmit={handleSave}>
+            <label className="form-label" htmlFor="sync-server-url">Folder URL</label>
+            <input id="sync-server-url" type="url" className="form-input" placeholder="https://cloud.example.com/remote.php/dav/files/me/ameena/" value={draft.serverUrl} onChange={event => setDraft({ ...draft, serverUrl: event.target.value })} required />
+            <div className="sync-settings-row">
+              <div>
+                <label className="form-label" htmlFor="sync-username">Username</label>
+                <input id="sync-username" type="text" className="form-input" autoComplete="username" value={draft.username} onChange={event => setDraft({ ...draft, username: event.target.value })} />
+              </div>
+              <div>
+                <label className="form-label" htmlFor="sync-password">Password</label>
+                <input id="sync-password" type="password" className="form-input" autoComplete="current-password" value={draft.password} onChange={event => setDraft({ ...draft, password: event.target.value })} />
+              </div>
+            </div>
+            <div>
+              <Button type="submit" variant="secondary" disabled={isDraftSaved}>Save settings</Button>
+            </div>
+          </form>
+        </section>
+
+        <section className="card">
+          <h2>Sync now</h2>
+          <p className="backup-summary">Sends the materials, quiz attempts and courses changed here and fetches the ones changed elsewhere.</p>
+          {error && <Alert type="error" title="Sync failed" message={error} style={{ marginBottom: '1rem' }} />}
+          {summary && !error && <Alert type={conflicts.length > 0 ? 'warning' : 'success'} message={summary} style={{ marginBottom: '1rem' }} />}
+          {lastResult && lastResult.skipped > 0 && (
+            <Alert type="warning" message={`${lastResult.skipped} record${lastResult.skipped === 1 ? '' : 's'} on the server could not be read and ${lastResult.skipped === 1 ? 'was' : 'were'} skipped.`} style={{ marginBottom: '1rem' }} />
+          )}
+          <Button leftIcon={<ArrowPathIcon />} onClick={() => syncNow()} isLoading={isSyncing} disabled={!isConfigured || !isDraftSaved || isLibraryLoading}>
+            Sync now
+          </Button>
+
+          {conflicts.length > 0 && (
+            <div className="sync-conflicts">
+              <h3>Changed on both sides ({conflicts.length})</h3>
+              <p className="backup-summary">These were changed here and on another device since the last sync. Choose which version to keep.</p>
+              <ul className="backup-preview-list backup-conflict-list">
+                {conflicts.map(conflict => (
+                  <li key={conflict.key} className="sync-conflict">
+                    <span>
+                      {KIND_LABELS[conflict.kind]}: {conflict.localTitle || conflict.remoteTitle}
+                      <span className="backup-conflict-detail">
+                        Here: {conflict.localTitle === null ? 'deleted' : conflict.localTitle} · Server: {conflict.remoteTitle === null ? 'deleted' : conflict.remoteTitle}, {new Date(conflict.remoteUpdatedAt).toLocaleString()}
+                      </span>
+                    </span>
+                    <span className="sync-conflict-actions">
+                      <Button variant="secondary" onClick={() => syncNow(new Map([[conflict.key, 'local']]))} disabled={isSyncing}>Keep this device's</Button>
+                      <Button variant="ghost" onClick={() => syncNow(new Map([[conflict.key, 'remote']]))} disabled={isSyncing}>Use the server's</Button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </section>
+
+        <section className="card">
+          <h2>Materials</h2>
+          {studyMaterials.length === 0 ? (
+            <p className="backup-summary">Your library is empty.</p>
+          ) : (
+            <table className="sync-status-table">
+              <thead>
+                <tr><th>Material</th><th>Status</th><th>Last synced</th></tr>
+              </thead>
+              <tbody>
+                {studyMaterials.map(material => {
+                  const state = materialStatuses.get(material.id);
+                  return (
+                    <tr key={material.id}>
+                      <td><Link to={`/study/${material.id}`}>{material.title || 'Untitled material'}</Link></td>
+                      <td className={`sync-status sync-status-${state?.status || 'never'}`}>{STATUS_LABELS[state?.status || 'never']}</td>
+                      <td>{state?.syncedAt ? new Date(state.syncedAt).toLocaleString() : '—'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default SyncPage;
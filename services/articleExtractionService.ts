@@ -0,0 +1,278 @@
+import { FileExtractionError } from './fileExtractionService';
+
+export interface ExtractedArticle {
+  title?: string;
+  author?: string;
+  markdown: string; // Article body with headings, lists and tables kept as Markdown
+}
+
+export const HTML_FILE_EXTENSIONS = ['.html', '.htm'];
+
+const MIN_ARTICLE_TEXT_LENGTH = 200; // Shorter candidates are treated as teasers or navigation
+
+// Elements that never hold article content.
+const REMOVED_ELEMENTS = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'object', 'embed', 'svg', 'canvas', 'form', 'button',
+  'input', 'select', 'textarea', 'nav', 'footer', 'aside', 'dialog', '[hidden]', '[aria-hidden="true"]',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]', '[role="dialog"]',
+].join(', ');
+
+// Class and id words that mark page chrome rather than the article.
+const BOILERPLATE_WORDS = new Set([
+  'ad', 'ads', 'adsense', 'advert', 'advertisement', 'banner', 'breadcrumb', 'breadcrumbs', 'comment', 'comments',
+  'cookie', 'cookies', 'masthead', 'menu', 'modal', 'navbar', 'newsletter', 'outbrain', 'paywall', 'popup', 'promo',
+  'related', 'share', 'sharing', 'sidebar', 'social', 'sponsor', 'sponsored', 'subscribe', 'taboola', 'widget',
+]);
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'blockquote', 'dd', 'details', 'div', 'dl', 'dt', 'figcaption', 'figure', 'h1', 'h2', 'h3',
+  'h4', 'h5', 'h6', 'header', 'hgroup', 'hr', 'li', 'main', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'ul',
+]);
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const getMetaContent = (doc: Document, selectors: string[]): string | undefined => {
+  for (const selector of selectors) {
+    const content = collapseWhitespace(doc.querySelector(selector)?.getAttribute('content') || '');
+    if (content) return content;
+  }
+  return undefined;
+};
+
+// JSON-LD blocks (schema.org Article) are the most reliable source of the author on news sites.
+const getJsonLdAuthor = (doc: Document): string | undefined => {
+  const nameOf = (author: unknown): string | undefined => {
+    if (typeof author === 'string') return author;
+    if (Array.isArray(author)) return author.map(nameOf).filter(Boolean).join(', ') || undefined;
+    if (author && typeof author === 'object' && 'name' in author && typeof author.name === 'string') return author.name;
+    return undefined;
+  };
+  const findAuthor = (data: unknown): string | undefined => {
+    if (Array.isArray(data)) return data.map(findAuthor).find(Boolean);
+    if (!data || typeof data !== 'object') return undefined;
+    const record = data as Record<string, unknown>;
+    return nameOf(record.author) || findAuthor(record['@graph']);
+  };
+
+  for (const script of Array.from(doc.querySelectorAll('script[type="application/ld+json"]'))) {
+    try {
+      const author = findAuthor(JSON.parse(script.textContent || ''));
+      if (author) return collapseWhitespace(author);
+    } catch {
+      // Malformed JSON-LD is common; fall back to the other author hints.
+    }
+  }
+  return undefined;
+};
+
+const extractAuthor = (doc: Document): string | undefined => {
+  const metaAuthor = getMetaContent(doc, ['meta[name="author"]', 'meta[property="article:author"]', 'meta[name="parsely-author"]', 'meta[name="dc.creator"]']);
+  if (metaAuthor && !/^https?:\/\//.test(metaAuthor)) return metaAuthor;
+
+  const jsonLdAuthor = getJsonLdAuthor(doc);
+  if (jsonLdAuthor) return jsonLdAuthor;
+
+  const byline = doc.querySelector('[itemprop="author"], [rel="author"], .byline, .author');
+  const bylineText = collapseWhitespace(byline?.textContent || '').replace(/^by\s+/i, '');
+  return bylineText && bylineText.length < 100 ? bylineText : undefined;
+};
+
+const extractTitle = (doc: Document): string | undefined => {
+  const metaTitle = getMetaContent(doc, ['meta[property="og:title"]', 'meta[name="twitter:title"]', 'meta[name="title"]']);
+  if (metaTitle) return metaTitle;
+
+  const heading = collapseWhitespace(doc.querySelector('article h1, main h1, h1')?.textContent || '');
+  if (heading) return heading;
+
+  // "<title>" usually carries the site name as well, e.g. "Article title | Site"; keep the longest part.
+  const documentTitle = collapseWhitespace(doc.title);
+  if (!documentTitle) return undefined;
+  return documentTitle.split(/\s+[|\-–—:·]\s+/).reduce((longest, part) => part.length > longest.length ? part : longest, '');
+};
+
+const isBoilerplate = (element: Element) => {
+  const words = `${element.getAttribute('class') || ''} ${element.id}`.toLowerCase().split(/[^a-z]+/);
+  return words.some(word => BOILERPLATE_WORDS.has(word));
+};
+
+const removeBoilerplate = (root: Element) => {
+  root.querySelectorAll(REMOVED_ELEMENTS).forEach(element => element.remove());
+  for (const element of Array.from(root.querySelectorAll('[class], [id]'))) {
+    // Never drop a wrapper that holds the article itself.
+    if (!element.isConnected || element.matches('article, main, [role="main"]') || element.querySelector('article, main, [role="main"]')) continue;
+    if (isBoilerplate(element)) element.remove();
+  }
+};
+
+const textLength = (element: Element) => collapseWhitespace(element.textContent || '').length;
+
+const linkDensity = (element: Element) => {
+  const total = textLength(element);
+  if (total === 0) return 1;
+  const linked = Array.from(element.querySelectorAll('a')).reduce((sum, link) => sum + textLength(link), 0);
+  return linked / total;
+};
+
+/**
+ * Finds the element holding the article: the largest <article> or <main>, or otherwise the
+ * container with the most paragraph text that is not mostly links.
+ */
+const findArticleRoot = (body: HTMLElement): Element => {
+  for (const selector of ['article', 'main, [role="main"]']) {
+    const candidates = Array.from(body.querySelectorAll(selector)).sort((a, b) => textLength(b) - textLength(a));
+    if (candidates[0] && textLength(candidates[0]) >= MIN_ARTICLE_TEXT_LENGTH) return candidates[0];
+  }
+
+  const scores = new Map<Element, number>();
+  for (const paragraph of Array.from(body.querySelectorAll('p, pre, td, li'))) {
+    const length = textLength(paragraph);
+    if (length < 25) continue;
+    const parent = paragraph.parentElement;
+    if (parent) scores.set(parent, (scores.get(parent) || 0) + length);
+    const grandparent = parent?.parentElement;
+    if (grandparent) scores.set(grandparent, (scores.get(grandparent) || 0) + length / 2);
+  }
+
+  let best: Element = body;
+  let bestScore = 0;
+  scores.forEach((score, element) => {
+    const adjusted = score * (1 - linkDensity(element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  });
+  return best;
+};
+
+// --- HTML to Markdown ---
+
+const inlineToMarkdown = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) return (node.textContent || '').replace(/\s+/g, ' ');
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const element = node as Element;
+  const content = () => Array.from(element.childNodes).map(inlineToMarkdown).join('');
+  const wrap = (marker: string) => {
+    const text = content();
+    return text.trim() ? `${marker}${text.trim()}${marker}` : text;
+  };
+  switch (element.tagName.toLowerCase()) {
+    case 'br': return '\n';
+    case 'img': return '';
+    case 'strong': case 'b': return wrap('**');
+    case 'em': case 'i': return wrap('_');
+    case 'code': return `\`${element.textContent || ''}\``;
+    case 'sup': return `^${content()}`;
+    default: return content();
+  }
+};
+
+const cleanInline = (text: string) => text.split('\n').map(line => line.replace(/\s+/g, ' ').trim()).join('\n').trim();
+
+const tableToMarkdown = (table: Element): string => {
+  const rows = Array.from(table.querySelectorAll('tr'))
+    .filter(row => row.closest('table') === table)
+    .map(row => Array.from(row.children)
+      .filter(cell => /^t[hd]$/i.test(cell.tagName))
+      .map(cell => cleanInline(inlineToMarkdown(cell)).replace(/\n/g, ' ').replace(/\|/g, '\\|')));
+  if (rows.length === 0) return '';
+
+  const columnCount = Math.max(...rows.map(row => row.length));
+  const formatRow = (row: string[]) => `| ${Array.from({ length: columnCount }, (_, i) => row[i] || '').join(' | ')} |`;
+  return [formatRow(rows[0]), formatRow(Array(columnCount).fill('---')), ...rows.slice(1).map(formatRow)].join('\n');
+};
+
+const listToMarkdown = (list: Element, depth: number): string => {
+  const ordered = list.tagName.toLowerCase() === 'ol';
+  const indent = '  '.repeat(depth);
+  return Array.from(list.children)
+    .filter(item => item.tagName.toLowerCase() === 'li')
+    .map((item, i) => {
+      const [first = '', ...rest] = blocksToMarkdown(item, depth + 1);
+      const marker = ordered ? `${i + 1}.` : '-';
+      // Nested lists are already indented; other follow-up blocks are indented under the item.
+      const continuation = rest.map(block => /^\s*(?:-|\d+\.) /.test(block) ? block : block.replace(/^/gm, `${indent}  `));
+      return [`${indent}${marker} ${first}`, ...continuation].join('\n');
+    })
+    .join('\n');
+};
+
+/** Converts the children of an element to Markdown blocks, grouping loose inline content into paragraphs. */
+const blocksToMarkdown = (element: Element, listDepth: number = 0): string[] => {
+  const blocks: string[] = [];
+  let inlineRun = '';
+  const flushInline = () => {
+    const text = cleanInline(inlineRun);
+    if (text) blocks.push(text);
+    inlineRun = '';
+  };
+
+  for (const child of Array.from(element.childNodes)) {
+    const tag = child.nodeType === Node.ELEMENT_NODE ? (child as Element).tagName.toLowerCase() : '';
+    if (!BLOCK_TAGS.has(tag)) {
+      inlineRun += inlineToMarkdown(child);
+      continue;
+    }
+    flushInline();
+    const childElement = child as Element;
+    switch (tag) {
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': {
+        const heading = cleanInline(inlineToMarkdown(childElement)).replace(/\n/g, ' ');
+        if (heading) blocks.push(`${'#'.repeat(Number(tag[1]))} ${heading}`);
+        break;
+      }
+      case 'ul': case 'ol': {
+        const list = listToMarkdown(childElement, listDepth);
+        if (list.trim()) blocks.push(list);
+        break;
+      }
+      case 'table': {
+        const table = tableToMarkdown(childElement);
+        if (table) blocks.push(table);
+        break;
+      }
+      case 'pre':
+        blocks.push(`\`\`\`\n${(childElement.textContent || '').replace(/\n+$/, '')}\n\`\`\``);
+        break;
+      case 'blockquote':
+        blocks.push(...blocksToMarkdown(childElement, listDepth).map(block => block.replace(/^/gm, '> ')));
+        break;
+      case 'hr':
+        blocks.push('---');
+        break;
+      case 'figcaption': {
+        const caption = cleanInline(inlineToMarkdown(childElement));
+        if (caption) blocks.push(`_${caption}_`);
+        break;
+      }
+      default:
+        blocks.push(...blocksToMarkdown(childElement, listDepth));
+    }
+  }
+  flushInline();
+  return blocks;
+};
+
+/**
+ * Extracts the main article from a saved web page or pasted HTML: navigation, ads, scripts and
+ * other page chrome are removed, and the article is converted to Markdown with its headings,
+ * lists and tables intact. The title and author are read from the page's metadata.
+ */
+export const extractArticleFromHtml = (html: string): ExtractedArticle => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const title = extractTitle(doc);
+  const author = extractAuthor(doc);
+
+  removeBoilerplate(doc.body);
+  const root = findArticleRoot(doc.body);
+  const blocks = blocksToMarkdown(root);
+  // The title heading often sits in the removed page header; restore it at the top.
+  if (title && !blocks.some(block => block.startsWith('# '))) blocks.unshift(`# ${title}`);
+
+  const markdown = blocks.join('\n\n').replace(/\n{3,}/g, '\n\n').trim();
+  if (markdown.replace(/^#.*$/gm, '').trim().length < MIN_ARTICLE_TEXT_LENGTH / 4) {
+    throw new FileExtractionError("No article text was found in this page. If it was saved as \"Webpage, HTML only\", try saving it as \"Webpage, Complete\" or paste the article's HTML instead.");
+  }
+  return { title, author, markdown };
+};
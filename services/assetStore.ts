@@ -0,0 +1,50 @@
+import { ASSETS_STORE, runRequest } from './libraryDb';
+
+// Binary assets (audio recordings, slide and scene images, scanned pages) are far larger than
+// study text, so they are kept in their own store and referenced from study materials by id.
+// Image fields hold an "asset:<id>" URL in place of the data URL.
+export const ASSET_URL_PREFIX = 'asset:';
+
+export const toAssetUrl = (id: string) => `${ASSET_URL_PREFIX}${id}`;
+
+export const getAssetIdFromUrl = (url: string | undefined): string | null =>
+  url?.startsWith(ASSET_URL_PREFIX) ? url.slice(ASSET_URL_PREFIX.length) : null;
+
+/** Stores a blob and returns the id it can be loaded with. */
+export const saveAsset = async (blob: Blob): Promise<string> => {
+  const id = `asset_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  await runRequest(ASSETS_STORE, 'readwrite', store => store.put(blob, id));
+  return id;
+};
+
+/** Stores a blob under a known id, e.g. one restored from a backup. */
+export const putAsset = async (id: string, blob: Blob): Promise<void> => {
+  await runRequest(ASSETS_STORE, 'readwrite', store => store.put(blob, id));
+};
+
+export const getAsset = (id: string): Promise<Blob | undefined> =>
+  runRequest<Blob | undefined>(ASSETS_STORE, 'readonly', store => store.get(id));
+
+export const deleteAsset = async (id: string): Promise<void> => {
+  await runRequest(ASSETS_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+/**
+ * Returns a URL that can be embedded outside the page, e.g. in an exported PowerPoint:
+ * asset references are read back into data URLs, other URLs are returned unchanged.
+ */
+export const resolveAssetDataUrl = async (url: string): Promise<string | null> => {
+  const id = getAssetIdFromUrl(url);
+  if (!id) return url;
+  const blob = await getAsset(id);
+  return blob ? blobToDataUrl(blob) : null;
+};
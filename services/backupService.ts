@@ -0,0 +1,197 @@
+import JSZip from 'jszip';
+import { StudyMaterial, Quiz, Course } from '../types';
+import { loadLibrary, collectAssetIds, saveRestoredRecords } from './libraryRepository';
+import { getAsset, putAsset, deleteAsset } from './assetStore';
+import { CURRENT_SCHEMA_VERSION, RecordKind, upgradeRecord, stampRecord } from './schemaMigrations';
+
+// A backup is a zip archive: library.json holds the materials (with their chat histories), quiz
+// attempts and courses, and every referenced asset is stored as a file under assets/<id>.
+const ARCHIVE_FORMAT = 'ameena-ai-library';
+const ARCHIVE_FORMAT_VERSION = 1;
+const MANIFEST_PATH = 'library.json';
+const ASSETS_DIR = 'assets/';
+
+interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  schemaVersion: number;
+  materials: unknown[];
+  quizzes: unknown[];
+  courses?: unknown[]; // Added after the first backups; missing in older archives
+  assets: { id: string; type: string }[];
+}
+
+/**
+ * Raised when a backup cannot be created or read. The message is safe to show to the user.
+ */
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+/** A backup that has been read and validated, ready to be previewed and imported. */
+export interface LibraryArchive {
+  exportedAt: string;
+  materials: StudyMaterial[];
+  quizzes: Quiz[];
+  courses: Course[];
+  invalidCount: number; // Records in the archive that could not be upgraded or validated
+  zip: JSZip;
+  assetTypes: Map<string, string>;
+}
+
+export interface ImportPreview {
+  added: StudyMaterial[];
+  conflicts: { incoming: StudyMaterial; existing: StudyMaterial }[]; // Same material id as one already in the library
+  courseConflicts: { incoming: Course; existing: Course }[]; // Same course id as one already in the library
+  quizCount: number;
+  courseCount: number;
+  invalidCount: number;
+}
+
+export interface ImportResult {
+  materials: number;
+  quizzes: number;
+}
+
+export const createBackupFileName = (date = new Date()) => `ameena-ai-library-${date.toISOString().slice(0, 10)}.zip`;
+
+/** Packs the whole library, including generated images and recordings, into one archive. */
+export const exportLibraryArchive = async (): Promise<Blob> => {
+  const { materials, quizzes, courses } = await loadLibrary();
+  const zip = new JSZip();
+  const assets: ArchiveManifest['assets'] = [];
+
+  const assetIds = new Set(materials.flatMap(material => Array.from(collectAssetIds(material))));
+  for (const id of assetIds) {
+    const blob = await getAsset(id);
+    if (!blob) {
+      console.warn(`Asset ${id} is missing and will not be included in the backup.`);
+      continue;
+    }
+    zip.file(`${ASSETS_DIR}${id}`, blob);
+    assets.push({ id, type: blob.type });
+  }
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    formatVersion: ARCHIVE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    materials: materials.map(stampRecord),
+    quizzes: quizzes.map(stampRecord),
+    courses: courses.map(stampRecord),
+    assets,
+  };
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest));
+  return zip.generateAsync({ type: 'blob' });
+};
+
+/** Reads a backup file and upgrades its records to the current schema. */
+export const readLibraryArchive = async (file: Blob): Promise<LibraryArchive> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch (error) {
+    console.error("Failed to open the backup archive:", error);
+    throw new BackupError("This file is not an Ameena AI backup. Choose a .zip file created with \"Download backup\".");
+  }
+
+  const manifestFile = zip.file(MANIFEST_PATH);
+  let manifest: ArchiveManifest | null = null;
+  try {
+    manifest = manifestFile ? JSON.parse(await manifestFile.async('string')) : null;
+  } catch (error) {
+    console.error("Failed to parse the backup manifest:", error);
+  }
+  if (!manifest || manifest.format !== ARCHIVE_FORMAT || !Array.isArray(manifest.materials) || !Array.isArray(manifest.quizzes)) {
+    throw new BackupError("This file is not an Ameena AI backup. Choose a .zip file created with \"Download backup\".");
+  }
+  if (manifest.formatVersion > ARCHIVE_FORMAT_VERSION) {
+    throw new BackupError("This backup was created by a newer version of Ameena AI. Update the app to restore it.");
+  }
+
+  let invalidCount = 0;
+  const upgradeAll = <T extends StudyMaterial | Quiz | Course>(kind: RecordKind, records: unknown[]): T[] =>
+    records.flatMap(raw => {
+      const result = upgradeRecord<T>(kind, raw);
+      if (result.ok === false) {
+        console.warn(`Skipping a ${kind} in the backup: ${result.reason}`);
+        invalidCount++;
+        return [];
+      }
+      return [result.record];
+    });
+
+  return {
+    exportedAt: manifest.exportedAt,
+    materials: upgradeAll<StudyMaterial>('material', manifest.materials),
+    quizzes: upgradeAll<Quiz>('quiz', manifest.quizzes),
+    courses: upgradeAll<Course>('course', Array.isArray(manifest.courses) ? manifest.courses : []),
+    invalidCount,
+    zip,
+    assetTypes: new Map((manifest.assets || []).map(asset => [asset.id, asset.type])),
+  };
+};
+
+/** Works out which materials and courses a backup adds to the library and which ones it would overwrite. */
+export const previewLibraryImport = (archive: LibraryArchive, existingMaterials: StudyMaterial[], existingCourses: Course[]): ImportPreview => {
+  const existingById = new Map(existingMaterials.map(material => [material.id, material]));
+  const added: StudyMaterial[] = [];
+  const conflicts: ImportPreview['conflicts'] = [];
+  archive.materials.forEach(incoming => {
+    const existing = existingById.get(incoming.id);
+    if (existing) conflicts.push({ incoming, existing });
+    else added.push(incoming);
+  });
+  const existingCoursesById = new Map(existingCourses.map(course => [course.id, course]));
+  const courseConflicts = archive.courses
+    .filter(incoming => existingCoursesById.has(incoming.id))
+    .map(incoming => ({ incoming, existing: existingCoursesById.get(incoming.id)! }));
+  return { added, conflicts, courseConflicts, quizCount: archive.quizzes.length, courseCount: archive.courses.length, invalidCount: archive.invalidCount };
+};
+
+/**
+ * Merges a backup into the library. New materials and courses are always added; one whose id is
+ * already in the library replaces it only if its id is in `overwriteIds` or `overwriteCourseIds`.
+ * Quiz attempts are merged by id for every material that is imported.
+ */
+export const importLibraryArchive = async (
+  archive: LibraryArchive,
+  existingMaterials: StudyMaterial[],
+  existingCourses: Course[],
+  overwriteIds: Set<string>,
+  overwriteCourseIds: Set<string>,
+): Promise<ImportResult> => {
+  const existingById = new Map(existingMaterials.map(material => [material.id, material]));
+  const materials = archive.materials.filter(material => !existingById.has(material.id) || overwriteIds.has(material.id));
+  const existingCourseIds = new Set(existingCourses.map(course => course.id));
+  const courses = archive.courses.filter(course => !existingCourseIds.has(course.id) || overwriteCourseIds.has(course.id));
+  const importedIds = new Set(materials.map(material => material.id));
+  const quizzes = archive.quizzes.filter(quiz => importedIds.has(quiz.contentId));
+  const replaced = materials.map(material => existingById.get(material.id)).filter((material): material is StudyMaterial => !!material);
+
+  // Assets keep their ids, so ones the library already has are simply written again.
+  const knownAssetIds = new Set(existingMaterials.flatMap(material => Array.from(collectAssetIds(material))));
+  const writtenAssetIds: string[] = [];
+  try {
+    for (const id of new Set(materials.flatMap(material => Array.from(collectAssetIds(material))))) {
+      const file = archive.zip.file(`${ASSETS_DIR}${id}`);
+      if (!file) {
+        console.warn(`Asset ${id} is missing from the backup.`);
+        continue;
+      }
+      const data = await file.async('arraybuffer');
+      await putAsset(id, new Blob([data], { type: archive.assetTypes.get(id) || '' }));
+      if (!knownAssetIds.has(id)) writtenAssetIds.push(id);
+    }
+    await saveRestoredRecords(materials, quizzes, courses, replaced);
+  } catch (error) {
+    await Promise.all(writtenAssetIds.map(id => deleteAsset(id).catch(() => undefined)));
+    throw error;
+  }
+  return { materials: materials.length, quizzes: quizzes.length };
+};
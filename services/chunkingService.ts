@@ -0,0 +1,144 @@
+import { SOURCE_HEADER_PATTERN } from './sourceService';
+
+export interface TextChunk {
+  index: number; // Zero-based position in the document
+  text: string;
+  label: string; // Human-readable location, e.g. "Pages 3–7", "12:40–18:05" or "Source 2 (slides.pdf), Slides 4–9"
+}
+
+const SECTION_MARKER_PATTERN = /^--- (Page|Slide) (\d+) ---$/gm;
+const TIMESTAMP_LINE_PATTERN = /^\[((?:\d+:)?\d{1,2}:\d{2})\]/gm;
+
+// Ordered from the most to the least meaningful place to cut a document.
+const SEPARATORS = [/\n+(?==== Source \d+: .* ===$)/m, /\n(?=--- (?:Page|Slide) \d+ ---\n)/, /\n{2,}/, /\n/, /(?<=[.?!])\s+/, /\s+/];
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one', 'our', 'out', 'has',
+  'have', 'his', 'how', 'its', 'may', 'who', 'did', 'this', 'that', 'with', 'what', 'when', 'where', 'which', 'why',
+  'from', 'they', 'them', 'then', 'than', 'there', 'these', 'those', 'will', 'would', 'could', 'should', 'about',
+  'into', 'your', 'does', 'explain', 'tell', 'please', 'also', 'just', 'more', 'some', 'such', 'been', 'being',
+]);
+
+/** Splits text into pieces no longer than maxChars, cutting at the most meaningful boundary available. */
+const splitText = (text: string, maxChars: number, separatorIndex = 0): string[] => {
+  if (text.length <= maxChars) return [text];
+  if (separatorIndex >= SEPARATORS.length) {
+    const pieces: string[] = [];
+    for (let i = 0; i < text.length; i += maxChars) pieces.push(text.slice(i, i + maxChars));
+    return pieces;
+  }
+
+  const parts = text.split(SEPARATORS[separatorIndex]).filter(part => part.trim());
+  if (parts.length <= 1) return splitText(text, maxChars, separatorIndex + 1);
+
+  const joiner = separatorIndex <= 2 ? '\n\n' : separatorIndex === 3 ? '\n' : ' ';
+  const pieces: string[] = [];
+  let current = '';
+  for (const part of parts) {
+    if (part.length > maxChars) {
+      if (current) { pieces.push(current); current = ''; }
+      pieces.push(...splitText(part, maxChars, separatorIndex + 1));
+    } else if (current && current.length + joiner.length + part.length > maxChars) {
+      pieces.push(current);
+      current = part;
+    } else {
+      current = current ? `${current}${joiner}${part}` : part;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+const describeRange = (noun: string, first: string, last: string) =>
+  first === last ? `${noun} ${first}` : `${noun}s ${first}–${last}`;
+
+type SectionMarker = { kind: string; number: string };
+type SourceMarker = { number: string; label: string; index: number };
+
+const labelLocation = (text: string, previousMarker: SectionMarker | null, index: number, total: number) => {
+  const markers = Array.from(text.matchAll(SECTION_MARKER_PATTERN)).map(match => ({ kind: match[1], number: match[2] }));
+  // A chunk that starts mid-page still belongs to the page opened by the previous chunk.
+  const startsWithMarker = /^--- (?:Page|Slide) \d+ ---/.test(text.trimStart());
+  const first = startsWithMarker ? markers[0] : previousMarker || markers[0];
+  const last = markers[markers.length - 1] || previousMarker;
+  if (first && last) {
+    return { label: describeRange(first.kind, first.number, last.number), lastMarker: last };
+  }
+
+  const timestamps = Array.from(text.matchAll(TIMESTAMP_LINE_PATTERN)).map(match => match[1]);
+  if (timestamps.length > 0) {
+    const start = timestamps[0];
+    const end = timestamps[timestamps.length - 1];
+    return { label: start === end ? start : `${start}–${end}`, lastMarker: previousMarker };
+  }
+  return { label: `Section ${index + 1} of ${total}`, lastMarker: previousMarker, isGeneric: true };
+};
+
+const labelChunk = (text: string, previous: { marker: SectionMarker | null; source: SourceMarker | null }, index: number, total: number) => {
+  const sources = Array.from(text.matchAll(SOURCE_HEADER_PATTERN)).map(match => ({ number: match[1], label: match[2], index: match.index! }));
+  if (sources.length === 0 && !previous.source) {
+    const { label, lastMarker } = labelLocation(text, previous.marker, index, total);
+    return { label, previous: { marker: lastMarker, source: null } };
+  }
+
+  // Page and slide numbers restart with every source, so only the part after the last header carries over.
+  const startsWithSource = sources.length > 0 && sources[0].index === text.length - text.trimStart().length;
+  const firstSource = startsWithSource ? sources[0] : previous.source || sources[0];
+  const lastSource = sources[sources.length - 1] || previous.source!;
+  const location = labelLocation(text, startsWithSource ? null : previous.marker, index, total);
+  const tail = sources.length > 0 ? text.slice(sources[sources.length - 1].index) : text;
+  const lastMarker = sources.length > 0 ? labelLocation(tail, null, index, total).lastMarker : location.lastMarker;
+
+  const label = firstSource.number === lastSource.number
+    ? `Source ${firstSource.number} (${firstSource.label})${location.isGeneric ? '' : `, ${location.label}`}`
+    : `Sources ${firstSource.number}–${lastSource.number}`;
+  return { label, previous: { marker: lastMarker, source: lastSource } };
+};
+
+/**
+ * Splits long study text into chunks of at most maxChars, preferring source headers, page and
+ * slide markers, then paragraphs, lines and sentences as cut points. Each chunk is labelled with
+ * the source, pages, slides or timestamps it covers.
+ */
+export const splitIntoChunks = (text: string, maxChars: number): TextChunk[] => {
+  const pieces = splitText(text.trim(), maxChars);
+  let previous: { marker: SectionMarker | null; source: SourceMarker | null } = { marker: null, source: null };
+  return pieces.map((piece, index) => {
+    const labelled = labelChunk(piece, previous, index, pieces.length);
+    previous = labelled.previous;
+    return { index, text: piece, label: labelled.label };
+  });
+};
+
+const tokenize = (text: string) =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []).filter(word => !STOP_WORDS.has(word));
+
+/**
+ * Picks the passages of a long text most relevant to a question, within a character budget.
+ * Passages are scored by how many of the question's terms they contain and returned in document order.
+ */
+export const buildFocusedContext = (text: string, query: string, maxChars: number, passageChars: number = 1500): string => {
+  if (text.length <= maxChars) return text;
+
+  const chunks = splitIntoChunks(text, passageChars);
+  const queryTerms = new Set(tokenize(query));
+  const scored = chunks.map(chunk => {
+    const words = tokenize(chunk.text);
+    const hits = words.filter(word => queryTerms.has(word)).length;
+    return { chunk, score: words.length > 0 ? hits / Math.sqrt(words.length) : 0 };
+  });
+
+  // The opening passage usually introduces the topic, so it is always kept.
+  const selected = new Set<number>([0]);
+  let used = chunks[0].text.length;
+  for (const { chunk } of [...scored].sort((a, b) => b.score - a.score)) {
+    if (selected.has(chunk.index) || used + chunk.text.length > maxChars) continue;
+    selected.add(chunk.index);
+    used += chunk.text.length;
+  }
+
+  return chunks
+    .filter(chunk => selected.has(chunk.index))
+    .map(chunk => `[${chunk.label}]\n${chunk.text}`)
+    .join('\n\n[...]\n\n');
+};
@@ -0,0 +1,106 @@
+import { Course, StudyMaterial, Quiz } from '../types';
+
+export interface CourseTreeNode {
+  course: Course;
+  children: CourseTreeNode[];
+}
+
+/** Arranges courses into a tree by parentId. Courses whose parent is missing become roots. */
+export const buildCourseTree = (courses: Course[]): CourseTreeNode[] => {
+  const nodes = new Map(courses.map(course => [course.id, { course, children: [] as CourseTreeNode[] }]));
+  const roots: CourseTreeNode[] = [];
+  nodes.forEach(node => {
+    const parent = node.course.parentId ? nodes.get(node.course.parentId) : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  });
+  const sortNodes = (list: CourseTreeNode[]) => {
+    list.sort((a, b) => a.course.name.localeCompare(b.course.name));
+    list.forEach(node => sortNodes(node.children));
+  };
+  sortNodes(roots);
+  return roots;
+};
+
+/** A course and every folder nested inside it. */
+export const getCourseSubtreeIds = (courses: Course[], courseId: string): Set<string> => {
+  const ids = new Set([courseId]);
+  let added = true;
+  while (added) {
+    added = false;
+    courses.forEach(course => {
+      if (course.parentId && ids.has(course.parentId) && !ids.has(course.id)) {
+        ids.add(course.id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+};
+
+/** Names from the top-level course down to the given folder, e.g. ["Biology 101", "Week 3"]. */
+export const getCoursePath = (courses: Course[], courseId: string | undefined): string[] => {
+  const byId = new Map(courses.map(course => [course.id, course]));
+  const path: string[] = [];
+  const seen = new Set<string>();
+  let current = courseId ? byId.get(courseId) : undefined;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current.name);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+/** The folder and every course containing it, nearest first. */
+export const getCourseAncestorIds = (courses: Course[], courseId: string | undefined): string[] => {
+  const byId = new Map(courses.map(course => [course.id, course]));
+  const ids: string[] = [];
+  let current = courseId ? byId.get(courseId) : undefined;
+  while (current && !ids.includes(current.id)) {
+    ids.push(current.id);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return ids;
+};
+
+/** True if moving a folder under the new parent would put it inside itself. */
+export const wouldCreateCycle = (courses: Course[], courseId: string, newParentId: string | undefined): boolean =>
+  !!newParentId && getCourseSubtreeIds(courses, courseId).has(newParentId);
+
+/** Splits comma-separated input into tags, trimmed and without duplicates (ignoring case). */
+export const parseTags = (input: string): string[] => {
+  const seen = new Set<string>();
+  return input.split(',').map(tag => tag.trim()).filter(tag => {
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export interface QuizStats {
+  materialCount: number;
+  quizCount: number;
+  averageScore: number | null; // Percentage of correct answers across all scored quizzes
+}
+
+export const computeQuizStats = (materials: StudyMaterial[], getQuizzes: (contentId: string) => Quiz[]): QuizStats => {
+  let quizCount = 0;
+  let totalScore = 0;
+  let totalQuestions = 0;
+  materials.forEach(material => {
+    getQuizzes(material.id).forEach(quiz => {
+      quizCount++;
+      if (typeof quiz.score === 'number' && quiz.questions.length > 0) {
+        totalScore += quiz.score;
+        totalQuestions += quiz.questions.length;
+      }
+    });
+  });
+  return {
+    materialCount: materials.length,
+    quizCount,
+    averageScore: totalQuestions === 0 ? null : parseFloat((totalScore / totalQuestions * 100).toFixed(1)),
+  };
+};
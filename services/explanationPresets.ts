@@ -0,0 +1,33 @@
+import { ExplanationAudience, ExplanationStyle, ExplanationVariant } from '../types';
+
+export interface ExplanationPresetOption<T extends string> {
+  id: T;
+  label: string;
+  instruction: string; // Filled into the explanationPreset prompt template
+}
+
+export const EXPLANATION_AUDIENCES: ExplanationPresetOption<ExplanationAudience>[] = [
+  { id: 'middle-school', label: 'Middle school', instruction: 'a middle school student of about 11 to 14: everyday words, short sentences, and every technical term defined in plain language the first time it appears' },
+  { id: 'high-school', label: 'High school', instruction: "a high school student: plain language that introduces and defines the subject's key terms, assuming only school-level background knowledge" },
+  { id: 'undergraduate', label: 'Undergraduate', instruction: 'an undergraduate student: precise terminology, the reasoning behind each result, and connections to related concepts in the field' },
+  { id: 'expert', label: 'Expert', instruction: 'an expert in the field: concise and technical, skipping the basics in favour of nuances, assumptions, limitations and open questions' },
+];
+
+export const EXPLANATION_STYLES: ExplanationPresetOption<ExplanationStyle>[] = [
+  { id: 'analogies', label: 'Analogies', instruction: 'Build the explanation around analogies to everyday experience. Introduce each concept through an analogy, then say where the analogy stops holding.' },
+  { id: 'step-by-step', label: 'Step by step', instruction: 'Go step by step in numbered steps, each building on the previous one, and work through an example where the material allows it.' },
+  { id: 'exam-focused', label: 'Exam-focused', instruction: 'Focus on what an exam would test: key definitions, formulas and facts to remember, common mistakes, and a few typical exam questions with short model answers.' },
+  { id: 'feynman', label: 'Feynman', instruction: 'Use the Feynman technique: explain each idea in the simplest words, as if teaching it to someone new to the subject, point out where the simple version breaks down, and refine it.' },
+];
+
+const findOption = <T extends string>(options: ExplanationPresetOption<T>[], id: T) => options.find(option => option.id === id) || options[0];
+
+/** The variables of the explanationPreset prompt template for an audience and style. */
+export const getExplanationPresetValues = ({ audience, style }: Pick<ExplanationVariant, 'audience' | 'style'>) => ({
+  audience: findOption(EXPLANATION_AUDIENCES, audience).instruction,
+  style: findOption(EXPLANATION_STYLES, style).instruction,
+});
+
+/** E.g. "High school · Step by step". */
+export const describeExplanationVariant = ({ audience, style }: Pick<ExplanationVariant, 'audience' | 'style'>): string =>
+  `${findOption(EXPLANATION_AUDIENCES, audience).label} · ${findOption(EXPLANATION_STYLES, style).label}`;
@@ -0,0 +1,391 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import JSZip from 'jszip';
+import { transcribeImages, transcribeAudio, InlineImage } from './geminiService';
+import { formatTranscript } from './transcriptService';
+import { TranscriptSegment } from '../types';
+
+// pdf.js parses documents in a web worker; Vite resolves this URL to the bundled worker file.
+pdfjsLib.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const DRAWING_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const PRESENTATION_NS = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// Scanned pages are rendered at this width and sent to the model in small batches to keep requests under the inline size limit.
+const SCANNED_PAGE_RENDER_WIDTH = 1600;
+const SCANNED_PAGES_PER_REQUEST = 5;
+const MAX_SCANNED_PAGES = 60;
+const MAX_IMAGE_BYTES = 15 * 1024 * 1024;
+
+// Recordings up to this size are sent inline; larger ones go through the Files API.
+const MAX_INLINE_AUDIO_BYTES = 15 * 1024 * 1024;
+const MAX_AUDIO_BYTES = 500 * 1024 * 1024;
+const AUDIO_MIME_TYPES: Record<string, string> = { mp3: 'audio/mp3', m4a: 'audio/mp4', wav: 'audio/wav' };
+export const AUDIO_FILE_EXTENSIONS = Object.keys(AUDIO_MIME_TYPES).map(extension => `.${extension}`);
+
+// Legacy .doc/.ppt files and password-protected Office files are OLE compound documents, not zip archives.
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+/**
+ * Raised when a file cannot be turned into study text. The message is safe to show to the user.
+ */
+export class FileExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FileExtractionError';
+  }
+}
+
+export type SupportedFileKind = 'pdf' | 'docx' | 'pptx' | 'txt' | 'image';
+
+export interface ExtractedFileContent {
+  text: string;
+  sourceImages?: string[]; // Data URLs of the uploaded image or the rendered pages of a scanned PDF
+}
+
+export interface TranscribedAudio {
+  text: string;
+  transcriptSegments: TranscriptSegment[];
+  mimeType: string;
+}
+
+/** Formats the marker placed between pages and slides, e.g. "--- Page 3 ---". */
+export const formatSectionMarker = (label: 'Page' | 'Slide', index: number) => `--- ${label} ${index} ---`;
+
+const getExtension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() || '';
+
+export const detectFileKind = (file: File): SupportedFileKind | null => {
+  const extension = getExtension(file.name);
+  if (extension === 'pdf' || file.type === 'application/pdf') return 'pdf';
+  if (extension === 'docx') return 'docx';
+  if (extension === 'pptx') return 'pptx';
+  if (extension === 'txt' || file.type === 'text/plain') return 'txt';
+  if (['jpg', 'jpeg', 'png'].includes(extension) || file.type === 'image/jpeg' || file.type === 'image/png') return 'image';
+  return null;
+};
+
+const hasOleSignature = (bytes: Uint8Array) => OLE_SIGNATURE.every((byte, i) => bytes[i] === byte);
+
+const joinSections = (label: 'Page' | 'Slide', sections: string[]) =>
+  sections
+    .map((text, i) => `${formatSectionMarker(label, i + 1)}\n${text.trim()}`)
+    .join('\n\n');
+
+const parseXml = (xml: string, partName: string): Document => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new FileExtractionError(`The file is damaged: "${partName}" could not be read.`);
+  }
+  return doc;
+};
+
+const loadZip = async (bytes: Uint8Array, fileName: string): Promise<JSZip> => {
+  if (hasOleSignature(bytes)) {
+    throw new FileExtractionError(`"${fileName}" is password-protected. Remove the password and upload it again.`);
+  }
+  try {
+    return await JSZip.loadAsync(bytes);
+  } catch {
+    throw new FileExtractionError(`"${fileName}" is not a valid Office document or is damaged.`);
+  }
+};
+
+const readZipText = async (zip: JSZip, path: string): Promise<string | null> => {
+  const entry = zip.file(path);
+  return entry ? entry.async('string') : null;
+};
+
+// --- PDF ---
+
+const openPdf = async (bytes: Uint8Array, fileName: string): Promise<pdfjsLib.PDFDocumentProxy> => {
+  try {
+    // pdf.js takes ownership of the buffer it is given, so hand it a copy.
+    return await pdfjsLib.getDocument({ data: bytes.slice() }).promise;
+  } catch (error: any) {
+    if (error?.name === 'PasswordException') {
+      throw new FileExtractionError(`"${fileName}" is encrypted. Remove the password and upload it again.`);
+    }
+    throw new FileExtractionError(`"${fileName}" is not a valid PDF or is damaged.`);
+  }
+};
+
+/** Returns the text layer of a PDF, or null when the PDF has none (a scanned document). */
+const extractPdfText = async (bytes: Uint8Array, fileName: string): Promise<string | null> => {
+  const pdf = await openPdf(bytes, fileName);
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const textContent = await page.getTextContent();
+      const pageText = (textContent.items as TextItem[])
+        .filter(item => typeof item.str === 'string')
+        .map(item => item.str + (item.hasEOL ? '\n' : ''))
+        .join('');
+      pages.push(pageText);
+      page.cleanup();
+    }
+
+    if (pages.every(page => !page.trim())) return null;
+    return joinSections('Page', pages);
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+const renderPdfPagesToImages = async (bytes: Uint8Array, fileName: string): Promise<string[]> => {
+  const pdf = await openPdf(bytes, fileName);
+  try {
+    if (pdf.numPages > MAX_SCANNED_PAGES) {
+      throw new FileExtractionError(`"${fileName}" is a scanned document with ${pdf.numPages} pages. Scanned PDFs are limited to ${MAX_SCANNED_PAGES} pages.`);
+    }
+    const images: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const baseViewport = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: SCANNED_PAGE_RENDER_WIDTH / baseViewport.width });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
+      await page.render({ canvas, viewport }).promise;
+      images.push(canvas.toDataURL('image/jpeg', 0.85));
+      page.cleanup();
+    }
+    return images;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+// --- DOCX ---
+
+const extractDocxText = async (bytes: Uint8Array, fileName: string): Promise<string> => {
+  const zip = await loadZip(bytes, fileName);
+  const documentXml = await readZipText(zip, 'word/document.xml');
+  if (!documentXml) {
+    throw new FileExtractionError(`"${fileName}" is not a Word document.`);
+  }
+  const doc = parseXml(documentXml, 'word/document.xml');
+
+  const pages: string[][] = [[]];
+  const startNewPage = () => { if (pages[pages.length - 1].length > 0) pages.push([]); };
+
+  // Text boxes nest paragraphs inside paragraphs; the outer walk already picks up their text.
+  const isNestedParagraph = (paragraph: Element) => {
+    for (let parent = paragraph.parentElement; parent; parent = parent.parentElement) {
+      if (parent.namespaceURI === WORD_NS && parent.localName === 'p') return true;
+    }
+    return false;
+  };
+  const paragraphs = Array.from(doc.getElementsByTagNameNS(WORD_NS, 'p')).filter(paragraph => !isNestedParagraph(paragraph));
+  for (const paragraph of paragraphs) {
+    let line = '';
+    // Walk the paragraph in document order so tabs, breaks and page breaks land where Word puts them.
+    const walker = doc.createTreeWalker(paragraph, NodeFilter.SHOW_ELEMENT);
+    for (let node = walker.nextNode() as Element | null; node; node = walker.nextNode() as Element | null) {
+      if (node.namespaceURI !== WORD_NS) continue;
+      switch (node.localName) {
+        case 't':
+          line += node.textContent || '';
+          break;
+        case 'tab':
+          line += '\t';
+          break;
+        case 'br':
+          if (node.getAttributeNS(WORD_NS, 'type') === 'page') {
+            if (line.trim()) pages[pages.length - 1].push(line);
+            line = '';
+            startNewPage();
+          } else {
+            line += '\n';
+          }
+          break;
+        case 'lastRenderedPageBreak':
+          if (line.trim()) pages[pages.length - 1].push(line);
+          line = '';
+          startNewPage();
+          break;
+      }
+    }
+    if (line.trim()) pages[pages.length - 1].push(line);
+  }
+
+  const pageTexts = pages.map(lines => lines.join('\n')).filter(text => text.trim());
+  if (pageTexts.length === 0) {
+    throw new FileExtractionError(`"${fileName}" does not contain any text.`);
+  }
+  return pageTexts.length === 1 ? pageTexts[0] : joinSections('Page', pageTexts);
+};
+
+// --- PPTX ---
+
+const resolveZipPath = (baseDir: string, target: string) => {
+  const parts = (target.startsWith('/') ? target.slice(1) : `${baseDir}/${target}`).split('/');
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === '..') resolved.pop();
+    else if (part && part !== '.') resolved.push(part);
+  }
+  return resolved.join('/');
+};
+
+const readRelationships = async (zip: JSZip, relsPath: string, baseDir: string): Promise<Map<string, { type: string; target: string }>> => {
+  const relationships = new Map<string, { type: string; target: string }>();
+  const relsXml = await readZipText(zip, relsPath);
+  if (!relsXml) return relationships;
+  const doc = parseXml(relsXml, relsPath);
+  for (const rel of Array.from(doc.getElementsByTagName('Relationship'))) {
+    const id = rel.getAttribute('Id');
+    const target = rel.getAttribute('Target');
+    if (id && target) {
+      relationships.set(id, { type: rel.getAttribute('Type') || '', target: resolveZipPath(baseDir, target) });
+    }
+  }
+  return relationships;
+};
+
+const extractDrawingParagraphs = (doc: Document): string[] =>
+  Array.from(doc.getElementsByTagNameNS(DRAWING_NS, 'p'))
+    .map(paragraph => Array.from(paragraph.getElementsByTagNameNS(DRAWING_NS, 't')).map(t => t.textContent || '').join(''))
+    .filter(text => text.trim());
+
+const extractPptxText = async (bytes: Uint8Array, fileName: string): Promise<string> => {
+  const zip = await loadZip(bytes, fileName);
+  const presentationXml = await readZipText(zip, 'ppt/presentation.xml');
+  if (!presentationXml) {
+    throw new FileExtractionError(`"${fileName}" is not a PowerPoint presentation.`);
+  }
+
+  // Slide order comes from presentation.xml, not from the slideN.xml file names.
+  const presentation = parseXml(presentationXml, 'ppt/presentation.xml');
+  const presentationRels = await readRelationships(zip, 'ppt/_rels/presentation.xml.rels', 'ppt');
+  const slidePaths = Array.from(presentation.getElementsByTagNameNS(PRESENTATION_NS, 'sldId'))
+    .map(slideId => presentationRels.get(slideId.getAttributeNS(RELATIONSHIP_NS, 'id') || '')?.target)
+    .filter((path): path is string => !!path);
+
+  const slides: string[] = [];
+  for (const slidePath of slidePaths) {
+    const slideXml = await readZipText(zip, slidePath);
+    if (!slideXml) continue;
+    const lines = extractDrawingParagraphs(parseXml(slideXml, slidePath));
+
+    const slideDir = slidePath.substring(0, slidePath.lastIndexOf('/'));
+    const slideFile = slidePath.substring(slidePath.lastIndexOf('/') + 1);
+    const slideRels = await readRelationships(zip, `${slideDir}/_rels/${slideFile}.rels`, slideDir);
+    const notesRel = Array.from(slideRels.values()).find(rel => rel.type.endsWith('/notesSlide'));
+    if (notesRel) {
+      const notesXml = await readZipText(zip, notesRel.target);
+      // Notes slides repeat the slide number placeholder; keep only real speaker notes.
+      const notes = notesXml ? extractDrawingParagraphs(parseXml(notesXml, notesRel.target)).filter(text => !/^\d+$/.test(text.trim())) : [];
+      if (notes.length > 0) lines.push(`Speaker notes:\n${notes.join('\n')}`);
+    }
+    slides.push(lines.join('\n'));
+  }
+
+  if (slides.every(slide => !slide.trim())) {
+    throw new FileExtractionError(`"${fileName}" does not contain any slide text.`);
+  }
+  return joinSections('Slide', slides);
+};
+
+// --- Images & scanned documents ---
+
+const readAsDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+const toInlineImage = (dataUrl: string): InlineImage => {
+  const [header, data] = dataUrl.split(',');
+  return { mimeType: header.substring('data:'.length, header.indexOf(';')), data };
+};
+
+const transcribePageImages = async (pageImages: string[], fileName: string): Promise<string> => {
+  const transcriptions: string[] = [];
+  for (let start = 0; start < pageImages.length; start += SCANNED_PAGES_PER_REQUEST) {
+    const batch = pageImages.slice(start, start + SCANNED_PAGES_PER_REQUEST).map(toInlineImage);
+    const text = await transcribeImages(batch, start + 1);
+    // A single-image batch comes back without a marker, so add it to keep page boundaries intact.
+    transcriptions.push(batch.length === 1 && pageImages.length > 1 ? `${formatSectionMarker('Page', start + 1)}\n${text.trim()}` : text.trim());
+  }
+  const text = transcriptions.join('\n\n');
+  if (!text.trim() || text.trim() === '[No readable text]') {
+    throw new FileExtractionError(`No readable text was found in "${fileName}".`);
+  }
+  return text;
+};
+
+// --- Audio ---
+
+/**
+ * Transcribes a lecture recording (.mp3, .m4a, .wav) into speaker-labelled, timestamped segments.
+ * The text is stored as "[mm:ss] Speaker: text" lines so generated content can cite moments in the recording.
+ */
+export const transcribeAudioFile = async (file: File, onProgress?: (progress: string) => void): Promise<TranscribedAudio> => {
+  const mimeType = AUDIO_MIME_TYPES[getExtension(file.name)];
+  if (!mimeType) {
+    throw new FileExtractionError(`"${file.name}" is not a supported recording. Upload an MP3, M4A or WAV file.`);
+  }
+  if (file.size > MAX_AUDIO_BYTES) {
+    throw new FileExtractionError(`"${file.name}" is larger than ${MAX_AUDIO_BYTES / (1024 * 1024)} MB. Split the recording and upload the parts separately.`);
+  }
+
+  const transcriptSegments = file.size <= MAX_INLINE_AUDIO_BYTES
+    ? await transcribeAudio({ mimeType, data: (await readAsDataUrl(file)).split(',')[1] }, onProgress)
+    : await transcribeAudio({ mimeType, blob: file }, onProgress);
+
+  if (transcriptSegments.length === 0) {
+    throw new FileExtractionError(`No speech was recognized in "${file.name}".`);
+  }
+  return { text: formatTranscript(transcriptSegments), transcriptSegments, mimeType };
+};
+
+// --- Entry point ---
+
+/**
+ * Extracts the text of an uploaded document. Text documents are parsed entirely in the browser;
+ * images and scanned PDFs are transcribed by the model, and their images are returned alongside the text.
+ * PDFs and presentations keep their page and slide boundaries as "--- Page N ---" / "--- Slide N ---" markers.
+ */
+export const extractFileContent = async (file: File): Promise<ExtractedFileContent> => {
+  const kind = detectFileKind(file);
+  const extension = getExtension(file.name);
+
+  if (!kind) {
+    if (extension === 'doc' || extension === 'ppt') {
+      throw new FileExtractionError(`Legacy .${extension} files are not supported. Save "${file.name}" as .${extension}x and upload it again.`);
+    }
+    throw new FileExtractionError(`"${file.name}" is not a supported file type. Upload a PDF, DOCX, PPTX, TXT, JPG or PNG file.`);
+  }
+
+  if (kind === 'txt') {
+    const text = await file.text();
+    if (!text.trim()) throw new FileExtractionError(`"${file.name}" is empty.`);
+    return { text };
+  }
+
+  if (kind === 'image') {
+    if (file.size > MAX_IMAGE_BYTES) {
+      throw new FileExtractionError(`"${file.name}" is larger than ${MAX_IMAGE_BYTES / (1024 * 1024)} MB. Upload a smaller image.`);
+    }
+    const dataUrl = await readAsDataUrl(file);
+    return { text: await transcribePageImages([dataUrl], file.name), sourceImages: [dataUrl] };
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  switch (kind) {
+    case 'pdf': {
+      const text = await extractPdfText(bytes, file.name);
+      if (text !== null) return { text };
+      const pageImages = await renderPdfPagesToImages(bytes, file.name);
+      return { text: await transcribePageImages(pageImages, file.name), sourceImages: pageImages };
+    }
+    case 'docx':
+      return { text: await extractDocxText(bytes, file.name) };
+    case 'pptx':
+      return { text: await extractPptxText(bytes, file.name) };
+  }
+};
@@ -0,0 +1,171 @@
+import { GoogleGenAI, GenerateContentResponse, GenerateContentResponseUsageMetadata, GroundingMetadata, Part, Schema, Type, FileState, createPartFromUri } from "@google/genai";
+import { GEMINI_API_PRO_TEXT_MODEL, GEMINI_API_PRO_IMAGE_MODEL } from '../constants';
+import { GroundingSource } from '../types';
+import { LlmProvider, GenerateRequest, JsonSchema, PromptPart, TokenUsage, AiServiceError, parseJsonFromText, collectStream } from './llmProvider';
+
+const FILE_PROCESSING_POLL_MS = 2000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: schema.type.toUpperCase() as Type,
+  ...(schema.properties && { properties: Object.fromEntries(Object.entries(schema.properties).map(([name, property]) => [name, toGeminiSchema(property)])) }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.required && { required: schema.required }),
+  ...(schema.enum && { enum: schema.enum }),
+  ...(schema.description && { description: schema.description }),
+});
+
+const reportUsage = (metadata: GenerateContentResponseUsageMetadata | undefined, onUsage?: (usage: TokenUsage) => void) => {
+  if (!metadata || !onUsage) return;
+  onUsage({ inputTokens: metadata.promptTokenCount || 0, outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0) });
+};
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+/** Gemini answers a blocked prompt or reply with an empty text and the reason alongside it. */
+const throwIfBlocked = (response: GenerateContentResponse) => {
+  const reason = response.promptFeedback?.blockReason || response.candidates?.find(candidate => BLOCKED_FINISH_REASONS.includes(candidate.finishReason as string))?.finishReason;
+  if (reason) throw new AiServiceError('safety', `The AI service declined to answer because of its safety filters (${reason}).`);
+};
+
+/** The text of each streamed response; the stream is opened lazily so that failing to open it is stopped like a failed read. */
+async function* streamTexts(open: () => Promise<AsyncGenerator<GenerateContentResponse>>, onResponse?: (response: GenerateContentResponse) => void) {
+  for await (const response of await open()) {
+    onResponse?.(response);
+    yield response.text || '';
+  }
+}
+
+/** Google Gemini through the @google/genai SDK. Large recordings are sent through the Files API. */
+export const createGeminiProvider = (apiKey: string | undefined): LlmProvider => {
+  // Safely initialize the AI client to prevent a crash if the API key is missing.
+  // This ensures the application can load and display a warning to the user.
+  let ai: GoogleGenAI | null = null;
+  try {
+    if (apiKey) ai = new GoogleGenAI({ apiKey });
+    else console.error("API_KEY for Gemini is not set. Gemini will be unavailable.");
+  } catch (error) {
+    console.error("Failed to initialize GoogleGenAI. Gemini will be unavailable.", error);
+  }
+
+  const client = () => {
+    if (!ai) throw new AiServiceError('missing-key');
+    return ai;
+  };
+
+  const uploadMediaFile = async (blob: Blob, mimeType: string, onProgress?: (progress: string) => void): Promise<Part> => {
+    onProgress?.('Uploading recording...');
+    let file = await client().files.upload({ file: blob, config: { mimeType } });
+    while (file.state === FileState.PROCESSING) {
+      onProgress?.('Waiting for the recording to be processed...');
+      await sleep(FILE_PROCESSING_POLL_MS);
+      file = await client().files.get({ name: file.name! });
+    }
+    if (file.state === FileState.FAILED || !file.uri) {
+      throw new Error("The recording could not be processed by the AI service.");
+    }
+    return createPartFromUri(file.uri, file.mimeType || mimeType);
+  };
+
+  const toContents = async ({ prompt, onProgress }: GenerateRequest) => {
+    if (typeof prompt === 'string') return prompt;
+    const parts = await Promise.all(prompt.map((part: PromptPart): Part | Promise<Part> =>
+      'file' in part ? uploadMediaFile(part.file, part.mimeType, onProgress) : part));
+    return { parts };
+  };
+
+  const generate = async (request: GenerateRequest, config: Record<string, unknown> = {}) => {
+    const { temperature, topP, topK, onText, signal, onUsage } = request;
+    const params = {
+      model: GEMINI_API_PRO_TEXT_MODEL,
+      contents: await toContents(request),
+      config: { temperature, topP, topK, abortSignal: signal, ...config },
+    };
+    if (onText) {
+      // Each streamed chunk carries the usage so far; the last one has the total.
+      let usage: GenerateContentResponseUsageMetadata | undefined;
+      const text = await collectStream(streamTexts(() => client().models.generateContentStream(params), response => {
+        throwIfBlocked(response);
+        usage = response.usageMetadata || usage;
+      }), onText, signal);
+      reportUsage(usage, onUsage);
+      return text;
+    }
+    const response = await client().models.generateContent(params);
+    reportUsage(response.usageMetadata, onUsage);
+    throwIfBlocked(response);
+    return response.text || '';
+  };
+
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+    model: GEMINI_API_PRO_TEXT_MODEL,
+    isConfigured: !!ai,
+    supportsWebSearch: true,
+
+    generateText: request => generate(request),
+
+    generateJson: async (request: GenerateRequest, schema: JsonSchema) =>
+      parseJsonFromText(await generate({ ...request, onText: undefined }, { responseMimeType: 'application/json', responseSchema: toGeminiSchema(schema) })),
+
+    startChat: (systemInstruction, history = []) => {
+      const chat = client().chats.create({
+        model: GEMINI_API_PRO_TEXT_MODEL,
+        config: { systemInstruction },
+        history: history.map(message => ({ role: message.role, parts: [{ text: message.text }] })),
+      });
+      return {
+        sendMessage: async (message, options = {}) => {
+          const { useWebSearch, onText, signal, onUsage } = options;
+          const params = {
+            message,
+            config: { ...(useWebSearch ? { tools: [{ googleSearch: {} }] } : {}), abortSignal: signal },
+          };
+
+          // When streaming, the grounding metadata arrives with one of the later chunks.
+          let metadata: GroundingMetadata | undefined;
+          let usage: GenerateContentResponseUsageMetadata | undefined;
+          const keepMetadata = (response: GenerateContentResponse) => {
+            throwIfBlocked(response);
+            metadata = response.candidates?.[0]?.groundingMetadata || metadata;
+            usage = response.usageMetadata || usage;
+          };
+          let text: string;
+          if (onText) {
+            text = await collectStream(streamTexts(() => chat.sendMessageStream(params), keepMetadata), onText, signal);
+          } else {
+            const response = await chat.sendMessage(params);
+            keepMetadata(response);
+            text = response.text || '';
+          }
+          reportUsage(usage, onUsage);
+
+          let groundingSources: GroundingSource[] | undefined = undefined;
+          if (useWebSearch) {
+            if (metadata?.groundingChunks) {
+              groundingSources = metadata.groundingChunks
+                .filter(chunk => chunk.web)
+                .map(chunk => ({
+                  uri: chunk.web!.uri,
+                  title: chunk.web!.title,
+                }));
+            }
+          }
+          return { text, groundingSources };
+        },
+      };
+    },
+
+    generateImage: async (prompt, options) => {
+      const response = await client().models.generateImages({
+        model: GEMINI_API_PRO_IMAGE_MODEL,
+        prompt,
+        config: { numberOfImages: 1, outputMimeType: 'image/jpeg', aspectRatio: options?.aspectRatio || '16:9', abortSignal: options?.signal },
+      });
+      const image = response.generatedImages?.[0]?.image;
+      return image?.imageBytes ? `data:${image.mimeType};base64,${image.imageBytes}` : null;
+    },
+  };
+};
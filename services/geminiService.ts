@@ -1,82 +1,95 @@
-import { GoogleGenAI, GenerateContentResponse, Chat as GenAIChat, Content, Type, GenerateImagesResponse } from "@google/genai";
-import { GEMINI_API_PRO_TEXT_MODEL, GEMINI_API_PRO_IMAGE_MODEL, DEFAULT_QUIZ_QUESTIONS_count } from '../constants';
-import { QuizQuestion, NoteLength, AiGeneratedFeedback, PresentationContent, GroundingSource, VideoScene, SlideContent } from '../types';
-
-// Re-export the Chat type so it can be used as geminiService.Chat
-export type { GenAIChat as Chat };
-
-const API_KEY = process.env.API_KEY;
-
-// Safely initialize the AI client to prevent a crash if the API key is missing.
-// This ensures the application can load and display a warning to the user.
-let ai: GoogleGenAI | null;
-try {
-  if (API_KEY) {
-    ai = new GoogleGenAI({ apiKey: API_KEY });
-  } else {
-    console.error("API_KEY for Gemini is not set. AI features will be disabled.");
-    ai = null;
-  }
-} catch (error) {
-  console.error("Failed to initialize GoogleGenAI. AI features will be disabled.", error);
-  ai = null;
-}
+import { DEFAULT_QUIZ_QUESTIONS_count } from '../constants';
+import { QuizQuestion, NoteLength, AiGeneratedFeedback, PresentationContent, GroundingSource, VideoScene, SlideContent, TranscriptSegment, PromptTemplateRef, ExplanationVariant } from '../types';
+import { splitIntoChunks, TextChunk } from './chunkingService';
+import { parseTimestamp } from './transcriptService';
+import { LlmProvider, GenerateRequest, JsonSchema, ChatSession, ChatMessage, ChatSendOptions, PromptPart, TokenUsage, FieldError, StructuredOutputError, AiServiceError, validateJson, formatFieldError, toAiServiceError } from './llmProvider';
+import { getLlmProvider } from './llmRegistry';
+import { createRequestScheduler, ScheduleOptions } from './requestScheduler';
+import { computeResponseCacheKey, getCachedResponse, putCachedResponse } from './responseCache';
+import { UsageFeature, ensureWithinBudget, recordUsage } from './usageService';
+import { PromptTemplateId, resolvePromptTemplate, renderPromptTemplate } from './promptTemplates';
+import { formatLanguageName } from './outputLanguage';
+import { getExplanationPresetValues } from './explanationPresets';
+
+// The prompts come from the template registry (services/promptTemplates.ts) and work with any provider;
+// which one answers is chosen in the settings (services/llmRegistry.ts).
+
+/** The selected provider, or null while it is not configured, e.g. when the Gemini API key is missing. */
+const getConfiguredProvider = (): LlmProvider | null => {
+  const provider = getLlmProvider();
+  return provider.isConfigured ? provider : null;
+};
 
-const MIN_CONTENT_LENGTH_FOR_GENERATION = 20; // Minimum characters needed to attempt generation
-const MAX_CONTENT_LENGTH_FOR_GENERATION = 8000; // Max characters to send for faster processing
-
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-const withRetry = async <T,>(
-    fn: () => Promise<T>, 
-    maxAttempts: number = 3, 
-    initialDelay: number = 1000,
-    onRetry?: (attempt: number, delay: number) => void
-): Promise<T> => {
-    let attempt = 0;
-    let delay = initialDelay;
-    while (attempt < maxAttempts) {
-        try {
-            return await fn();
-        } catch (err: any) {
-            attempt++;
-            const errorMessage = JSON.stringify(err);
-            const isRateLimitError = errorMessage.includes('429') || errorMessage.includes('503') || errorMessage.includes('RESOURCE_EXHAUSTED') || errorMessage.includes('UNAVAILABLE');
-
-            if (isRateLimitError && attempt < maxAttempts) {
-                if (onRetry) {
-                    onRetry(attempt, delay);
-                }
-                console.warn(`Rate limit or transient error hit. Retrying in ${delay / 1000}s... (Attempt ${attempt + 1}/${maxAttempts})`);
-                await sleep(delay);
-                delay *= 2; // Exponential backoff
-            } else {
-                throw err;
-            }
-        }
-    }
-    // This part should not be reachable due to the throw in the loop
-    throw new Error('Exceeded retry attempts.');
+export const isAiConfigured = () => !!getConfiguredProvider();
+
+const ensureConfigured = () => {
+  if (!getConfiguredProvider()) throw new AiServiceError('missing-key');
 };
 
+export const supportsWebSearch = () => getLlmProvider().supportsWebSearch;
 
-const parseJsonFromText = <T,>(text: string): T | null => {
-    let jsonStr = text.trim();
-    const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
-    const match = jsonStr.match(fenceRegex);
-    if (match && match[2]) {
-        jsonStr = match[2].trim();
-    }
-    
-    // Fix for common JSON error where a comma is missing between objects
-    jsonStr = jsonStr.replace(/}\s*{/g, '},{');
+const MIN_CONTENT_LENGTH_FOR_GENERATION = 20; // Minimum characters needed to attempt generation
+const MAX_CONTENT_LENGTH_FOR_GENERATION = 8000; // Max characters per request; longer content is processed chunk by chunk
+const MAX_CONDENSE_DEPTH = 3; // Rounds of condensing before the remainder is truncated
+const MAX_STRUCTURED_OUTPUT_ATTEMPTS = 3; // The first reply and up to two corrections
+const MAX_REJECTED_REPLY_LENGTH = 4000; // Characters of a rejected reply shown to the model when asking for a correction
+
+// Every AI request goes through one queue, so features running side by side share the provider's rate limit.
+const scheduler = createRequestScheduler({ maxConcurrent: 2, requestsPerMinute: 30, burst: 5, maxAttempts: 3, initialRetryDelayMs: 1000 });
+
+/**
+ * What a request is for: its usage is recorded against the feature and material, and requests built
+ * from a prompt template are cached. Bypassing the cache skips the lookup but still stores the fresh response.
+ */
+interface RequestContext {
+    feature: UsageFeature;
+    materialId?: string;
+    template?: PromptTemplateRef;
+    bypassCache?: boolean;
+}
 
-    try {
-        return JSON.parse(jsonStr) as T;
-    } catch (e) {
-        console.error("Failed to parse JSON response:", e, "Original text:", text);
-        return null;
-    }
+export interface ChunkProgress {
+    stage: 'map' | 'reduce';
+    completed: number; // Chunks finished so far
+    total: number;
+    message: string;
+}
+
+export interface GenerationOptions {
+    citeTimestamps?: boolean; // Source is a timestamped transcript; cite [mm:ss] moments in the output
+    citeSources?: boolean; // Content combines several sources under "=== Source N ===" headers; attribute output with [S<n>] citations
+    onChunkProgress?: (progress: ChunkProgress) => void; // Reports progress while long content is processed in chunks
+    onText?: (text: string) => void; // Streams the final answer: receives the text generated so far
+    signal?: AbortSignal; // Stops generation; a streamed answer then resolves with the text generated so far
+    bypassCache?: boolean; // Generates afresh instead of answering from the response cache, e.g. for "Regenerate"
+    materialId?: string; // The material the usage is recorded against
+    courseIds?: string[]; // The material's folder and the courses containing it, nearest first; their edited prompt templates apply
+    onTemplate?: (template: PromptTemplateRef) => void; // Receives the prompt template version the answer was generated from
+    language?: string; // Code of the language to write study content in, which may differ from the material's
+}
+
+const contextFor = (feature: UsageFeature, options?: Pick<GenerationOptions, 'materialId' | 'bypassCache'>, template?: PromptTemplateRef): RequestContext =>
+    ({ feature, materialId: options?.materialId, template, bypassCache: options?.bypassCache });
+
+// Prompts whose answers the student reads. Transcriptions, metadata and condensed digests stay in the material's language.
+const TRANSLATED_PROMPTS: PromptTemplateId[] = ['explanation', 'summary', 'notes', 'sectionNotes', 'mergedNotes', 'quiz', 'quizFeedback', 'presentation', 'diagram', 'videoScript', 'chat'];
+
+/**
+ * A prompt from the template registry, in the version that applies to the material's course, with its
+ * variables filled in and, for study content, the instruction to write in the chosen language.
+ */
+const buildPrompt = (id: PromptTemplateId, values: Record<string, string | number>, options?: Pick<GenerationOptions, 'courseIds' | 'language'>) => {
+    const { text, ref } = resolvePromptTemplate(id, options?.courseIds);
+    const prompt = renderPromptTemplate(text, values);
+    if (!options?.language || !TRANSLATED_PROMPTS.includes(id)) return { prompt, template: ref };
+    const languageInstruction = renderPromptTemplate(resolvePromptTemplate('outputLanguage', options.courseIds).text, { language: formatLanguageName(options.language) });
+    return { prompt: `${prompt}\n\n${languageInstruction}`, template: ref };
+};
+
+// Source citations take over from plain timestamp citations, which would be ambiguous across several recordings.
+const withCitationInstructions = (prompt: string, options?: Pick<GenerationOptions, 'citeSources' | 'citeTimestamps' | 'courseIds'>) => {
+    if (options?.citeSources) return `${prompt}\n\n${resolvePromptTemplate('sourceCitations', options.courseIds).text}`;
+    return options?.citeTimestamps ? `${prompt}\n\n${resolvePromptTemplate('timestampCitations', options.courseIds).text}` : prompt;
 };
 
 const parseMermaidFromText = (text: string): string | null => {
@@ -96,9 +109,162 @@ const parseMermaidFromText = (text: string): string | null => {
     return null;
 };
 
+// --- Requests: Response Cache & Usage ---
+
+/**
+ * Answers from the response cache when the same provider, model, template version, parameters and
+ * input were generated before. Prompts with uploaded files are not cached, nor are stopped or empty responses.
+ */
+const withResponseCache = async <T,>(context: RequestContext, request: GenerateRequest, schema: JsonSchema | undefined, generate: () => Promise<T>): Promise<T> => {
+    const { prompt, temperature, topP, topK, onText, signal } = request;
+    const { template } = context;
+    if (!template || (typeof prompt !== 'string' && prompt.some(part => 'file' in part))) return generate();
+    const templateVersion = `${template.courseId ? `course ${template.courseId} ` : ''}${template.customized ? 'custom ' : ''}v${template.version}`;
+
+    const provider = getLlmProvider();
+    const key = await computeResponseCacheKey({
+        provider: provider.id,
+        model: provider.model,
+        template: template.templateId,
+        templateVersion,
+        params: { temperature, topP, topK, schema },
+        input: prompt,
+    });
+    if (!context.bypassCache) {
+        const cached = await getCachedResponse<T>(key);
+        if (cached !== undefined) {
+            if (typeof cached === 'string') onText?.(cached);
+            return cached;
+        }
+    }
+    const response = await generate();
+    if (response && !signal?.aborted) await putCachedResponse(key, response, { template: template.templateId, model: provider.model });
+    return response;
+};
+
+/** Logs what a request was billed for, against the provider answering it now. */
+const recordUsageFor = (context: RequestContext, usage: Partial<TokenUsage> & { images?: number }) => {
+    const provider = getLlmProvider();
+    void recordUsage({
+        feature: context.feature,
+        materialId: context.materialId,
+        provider: provider.id,
+        model: provider.model,
+        inputTokens: usage.inputTokens || 0,
+        outputTokens: usage.outputTokens || 0,
+        images: usage.images || 0,
+    });
+};
+
+/**
+ * Queues a request once the budget allows it, recording the tokens it is billed for. Failures
+ * reject with an AiServiceError; a stopped request rejects with its AbortError.
+ */
+const runMetered = async <T,>(context: RequestContext, run: (onUsage: (usage: TokenUsage) => void) => Promise<T>, options: ScheduleOptions): Promise<T> => {
+    try {
+        await ensureWithinBudget();
+        return await scheduler.schedule(() => run(usage => recordUsageFor(context, usage)), options);
+    } catch (error: any) {
+        throw error?.name === 'AbortError' ? error : toAiServiceError(error);
+    }
+};
+
+/** A reply without any text is an error, unless it was stopped before any arrived. */
+const generateText = async (prompt: string | PromptPart[], options: Omit<GenerateRequest, 'prompt'>, context: RequestContext): Promise<string> => {
+    const request = { prompt, ...options };
+    const text = await withResponseCache(context, request, undefined, () =>
+        runMetered(context, onUsage => getLlmProvider().generateText({ ...request, onUsage }), { signal: options.signal }));
+    if (!text.trim() && !options.signal?.aborted) throw new AiServiceError('invalid-output', 'The AI service returned an empty reply.');
+    return text;
+};
+
+const appendToPrompt = (prompt: string | PromptPart[], text: string): string | PromptPart[] =>
+    typeof prompt === 'string' ? `${prompt}\n\n${text}` : [...prompt, { text }];
+
+interface StructuredOutputOptions<T> {
+    root?: string; // What the reply is, e.g. "slides", to name fields in errors
+    validate?: (value: T) => FieldError[]; // Rules the schema cannot express
+    maxAttempts?: number; // For the scheduler's rate limit retries
+}
+
+/**
+ * Generates JSON and checks it against the schema and the caller's rules. A reply that fails is
+ * sent back with its field errors for correction, and the StructuredOutputError of the last
+ * attempt is thrown once MAX_STRUCTURED_OUTPUT_ATTEMPTS replies have been rejected.
+ */
+const generateJson = <T,>(prompt: string | PromptPart[], schema: JsonSchema, options: Omit<GenerateRequest, 'prompt'>, context: RequestContext, { root = '', validate, maxAttempts }: StructuredOutputOptions<T> = {}): Promise<T> => {
+    const request = { prompt, ...options };
+    return withResponseCache(context, request, schema, async () => {
+        let attemptPrompt = prompt;
+        for (let attempt = 1; ; attempt++) {
+            try {
+                const value = await runMetered(context, onUsage => getLlmProvider().generateJson({ ...request, prompt: attemptPrompt, onUsage }, schema), { signal: options.signal, maxAttempts });
+                const fieldErrors = validateJson(value, schema, root);
+                if (fieldErrors.length === 0 && validate) fieldErrors.push(...validate(value as T));
+                if (fieldErrors.length > 0) throw new StructuredOutputError(fieldErrors, JSON.stringify(value, null, 2));
+                return value as T;
+            } catch (error) {
+                if (!(error instanceof StructuredOutputError) || attempt >= MAX_STRUCTURED_OUTPUT_ATTEMPTS) throw error;
+                console.warn(`Structured reply rejected (attempt ${attempt}/${MAX_STRUCTURED_OUTPUT_ATTEMPTS}), asking for a correction:`, error.fieldErrors);
+                const { prompt: repairPrompt } = buildPrompt('structuredOutputRepair', {
+                    errors: error.fieldErrors.map(fieldError => `- ${formatFieldError(fieldError)}`).join('\n'),
+                    response: error.responseText.substring(0, MAX_REJECTED_REPLY_LENGTH),
+                });
+                attemptPrompt = appendToPrompt(prompt, repairPrompt);
+            }
+        }
+    });
+};
+
+const generateImage = async (prompt: string, context: RequestContext, signal?: AbortSignal, onRetry?: (attempt: number, delayMs: number) => void): Promise<string | null> => {
+    const image = await runMetered(context, () => getLlmProvider().generateImage(prompt, { aspectRatio: '16:9', signal }), { signal, onRetry });
+    if (image) recordUsageFor(context, { images: 1 });
+    return image;
+};
+
+// --- Long Content (Map-Reduce) ---
+
+const reportProgress = (options: GenerationOptions | undefined, stage: ChunkProgress['stage'], completed: number, chunks: TextChunk[]) => {
+    const total = chunks.length;
+    const message = stage === 'map'
+        ? `Reading section ${completed + 1} of ${total} (${chunks[completed].label})...`
+        : `Combining ${total} sections...`;
+    options?.onChunkProgress?.({ stage, completed, total, message });
+};
+
+/** Runs mapFn over each chunk in order, reporting per-chunk progress. */
+const mapChunks = async <T,>(chunks: TextChunk[], mapFn: (chunk: TextChunk) => Promise<T>, options?: GenerationOptions): Promise<T[]> => {
+    const results: T[] = [];
+    for (const chunk of chunks) {
+        reportProgress(options, 'map', chunk.index, chunks);
+        results.push(await mapFn(chunk));
+    }
+    if (chunks.length > 1) reportProgress(options, 'reduce', chunks.length, chunks);
+    return results;
+};
+
+/**
+ * Shrinks content that is too long for a single request: every chunk is condensed into a dense
+ * study digest that keeps all concepts, definitions, formulas and examples. Digests that are still
+ * too long together are condensed again.
+ */
+const condenseLongContent = async (content: string, feature: UsageFeature, options?: GenerationOptions, depth: number = 0): Promise<string> => {
+    if (content.length <= MAX_CONTENT_LENGTH_FOR_GENERATION) return content;
+    if (depth >= MAX_CONDENSE_DEPTH) return content.substring(0, MAX_CONTENT_LENGTH_FOR_GENERATION);
+
+    const chunks = splitIntoChunks(content, MAX_CONTENT_LENGTH_FOR_GENERATION);
+    const targetLength = Math.max(600, Math.floor(MAX_CONTENT_LENGTH_FOR_GENERATION / chunks.length));
+    const digests = await mapChunks(chunks, chunk => {
+        const { prompt, template } = buildPrompt('condense', { label: chunk.label, targetLength, content: chunk.text }, options);
+        return generateText(withCitationInstructions(prompt, options), { temperature: 0.2, signal: options?.signal }, contextFor(feature, options, template));
+    }, options);
+
+    return condenseLongContent(digests.join('\n\n'), feature, options, depth + 1);
+};
+
 // --- Content Processing & Metadata ---
 
-export const suggestMetadata = async (content: string): Promise<{ title: string; subject: string; topic: string; difficulty: 'Easy' | 'Medium' | 'Hard' }> => {
+export const suggestMetadata = async (content: string, signal?: AbortSignal): Promise<{ title: string; subject: string; topic: string; difficulty: 'Easy' | 'Medium' | 'Hard' }> => {
   const fallback = {
     title: `Content Analysis: ${content.substring(0, 30)}...`,
     subject: 'General',
@@ -106,195 +272,258 @@ export const suggestMetadata = async (content: string): Promise<{ title: string;
     difficulty: 'Medium' as 'Easy' | 'Medium' | 'Hard'
   };
 
-  if (!ai) {
-    console.warn("API Key not configured. Using fallback metadata.");
+  if (!getConfiguredProvider()) {
+    console.warn("AI provider not configured. Using fallback metadata.");
     return fallback;
   }
 
   try {
-    const prompt = `Analyze the following content and suggest metadata.
-    - title: A concise, descriptive title.
-    - subject: The main academic or professional subject (e.g., Biology, Computer Science, History).
-    - topic: The specific topic within the subject (e.g., Photosynthesis, Data Structures, World War II).
-    - difficulty: Choose one: 'Easy', 'Medium', or 'Hard'.
+    const { prompt, template } = buildPrompt('metadata', { content: content.substring(0, 500) });
 
-    Content: "${content.substring(0, 500)}..."`;
-    
-    const schema = {
-      type: Type.OBJECT,
+    const schema: JsonSchema = {
+      type: 'object',
       properties: {
-          title: { type: Type.STRING },
-          subject: { type: Type.STRING },
-          topic: { type: Type.STRING },
-          difficulty: { type: Type.STRING, enum: ['Easy', 'Medium', 'Hard'] }
+          title: { type: 'string' },
+          subject: { type: 'string' },
+          topic: { type: 'string' },
+          difficulty: { type: 'string', enum: ['Easy', 'Medium', 'Hard'] }
       },
       required: ["title", "subject", "topic", "difficulty"]
     };
     
-    const response = await ai.models.generateContent({
-      model: GEMINI_API_PRO_TEXT_MODEL,
-      contents: prompt,
-      config: { responseMimeType: 'application/json', responseSchema: schema }
-    });
-    
-    const metadata = parseJsonFromText<any>(response.text);
-    return metadata || fallback;
+    return await generateJson<typeof fallback>(prompt, schema, { signal }, contextFor('metadata', undefined, template));
   } catch (error) {
+    if (signal?.aborted) throw error;
     console.error("Metadata suggestion API call failed. Using fallback.", error);
     return fallback;
   }
 };
 
-export const fetchYouTubeTranscript = async (url: string): Promise<string> => {
-    console.log("Simulating fetching transcript for:", url);
-    if (!ai) return "API Key not configured. Cannot simulate transcript.";
-    const response = await ai.models.generateContent({
-        model: GEMINI_API_PRO_TEXT_MODEL,
-        contents: `Imagine you are extracting the transcript from a YouTube video titled based on its URL: ${url}. The video is about a common educational topic related to technology or science. Please generate a plausible, medium-length (300-500 words) English transcript for such a video. The transcript should be formatted as plain text.`
-    });
-    return response.text;
+export interface InlineImage {
+    mimeType: string;
+    data: string; // Base64 image bytes without the data: URL prefix
+}
+
+export const transcribeImages = async (images: InlineImage[], firstPageNumber: number = 1, signal?: AbortSignal): Promise<string> => {
+    ensureConfigured();
+    const pageInstruction = images.length > 1
+        ? `The images are consecutive pages starting at page ${firstPageNumber}. Start each page with a marker line "--- Page N ---" using the real page number.`
+        : 'Do not add any page markers.';
+    const { prompt, template } = buildPrompt('pageTranscription', { source: images.length > 1 ? 'scanned pages' : 'an image', pageInstruction });
+
+    return generateText([...images.map(image => ({ inlineData: image })), { text: prompt }], { temperature: 0, signal }, contextFor('transcription', undefined, template));
 };
 
-export const processFileUploadSimulation = async (file: File): Promise<string> => {
-    console.log("Simulating file processing for:", file.name);
-    return `This is a simulated text extraction for the file "${file.name}". The content discusses key concepts related to the file's topic. For example, if it were a PDF about machine learning, it would cover topics like supervised learning, neural networks, and data preprocessing. This placeholder allows the AI to generate relevant study materials.`;
+export interface AudioInput {
+    mimeType: string;
+    data?: string; // Base64 audio bytes, for recordings small enough to send inline
+    blob?: Blob; // Larger recordings are uploaded as a file first where the provider supports it
+}
+
+export const transcribeAudio = async (audio: AudioInput, onProgress?: (progress: string) => void, signal?: AbortSignal): Promise<TranscriptSegment[]> => {
+    ensureConfigured();
+    const audioPart: PromptPart = audio.data
+        ? { inlineData: { mimeType: audio.mimeType, data: audio.data } }
+        : { file: audio.blob!, mimeType: audio.mimeType };
+
+    const { prompt, template } = buildPrompt('audioTranscription', {});
+
+    const schema: JsonSchema = {
+        type: 'array',
+        items: {
+            type: 'object',
+            properties: {
+                start: { type: 'string' },
+                end: { type: 'string' },
+                speaker: { type: 'string' },
+                text: { type: 'string' }
+            },
+            required: ['start', 'end', 'speaker', 'text']
+        }
+    };
+
+    onProgress?.('Transcribing audio...');
+    const rawSegments = await generateJson<{ start: string; end: string; speaker: string; text: string }[]>([audioPart, { text: prompt }], schema, { temperature: 0, onProgress, signal }, contextFor('transcription', undefined, template), { root: 'segments' });
+    return rawSegments
+        .map(segment => ({
+            start: parseTimestamp(segment.start),
+            end: parseTimestamp(segment.end) || parseTimestamp(segment.start),
+            speaker: segment.speaker?.trim() || undefined,
+            text: segment.text?.trim() || '',
+        }))
+        .filter(segment => segment.text && !Number.isNaN(segment.start))
+        .sort((a, b) => a.start - b.start);
 };
 
 
 // --- AI Content Generation ---
 
-export const generateSummary = async (content: string): Promise<string> => {
-  if (!ai) return "API Key not configured. Summary unavailable.";
-  if (content.length < MIN_CONTENT_LENGTH_FOR_GENERATION) return "Content is too short to generate a meaningful summary.";
-  try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: GEMINI_API_PRO_TEXT_MODEL,
-      contents: `Generate a concise summary (around 100-150 words) of the following content. Focus on the main ideas and key takeaways.\n\nContent:\n${content.substring(0, MAX_CONTENT_LENGTH_FOR_GENERATION)}`,
-      config: { temperature: 0.5, topP: 0.9, topK: 40 }
-    });
-    return response.text;
-  } catch (error) {
-    console.error("Error generating summary:", error);
-    return "Failed to generate summary. Please try again.";
+export const generateSummary = async (content: string, signal?: AbortSignal): Promise<string> => {
+  ensureConfigured();
+  if (content.length < MIN_CONTENT_LENGTH_FOR_GENERATION) throw new AiServiceError('too-short', 'The material is too short to summarize.');
+  const { prompt, template } = buildPrompt('summary', { content: await condenseLongContent(content, 'summary', { signal }) });
+  return generateText(prompt, { temperature: 0.5, topP: 0.9, topK: 40, signal }, contextFor('summary', undefined, template));
+};
+
+/**
+ * The standard explanation, or with a preset one written for that audience and teaching style. The preset's
+ * onTemplate receives the version of the audience and style template, alongside the explanation template's.
+ */
+export const generateExplanation = async (
+  content: string,
+  options?: GenerationOptions,
+  preset?: Pick<ExplanationVariant, 'audience' | 'style'> & Pick<GenerationOptions, 'onTemplate'>,
+): Promise<string> => {
+  ensureConfigured();
+  if (content.length < MIN_CONTENT_LENGTH_FOR_GENERATION) throw new AiServiceError('too-short', 'The material is too short to explain.');
+
+  // Long documents are condensed section by section first, so the explanation covers all of them.
+  const condensedContent = await condenseLongContent(content, 'explanation', options);
+  const { prompt, template } = buildPrompt('explanation', { content: condensedContent }, options);
+  let presetInstruction = '';
+  if (preset) {
+    const { prompt: presetPrompt, template: presetTemplate } = buildPrompt('explanationPreset', getExplanationPresetValues(preset), options);
+    presetInstruction = `\n\n${presetPrompt}`;
+    preset.onTemplate?.(presetTemplate);
   }
+  options?.onTemplate?.(template);
+
+  return generateText(withCitationInstructions(prompt + presetInstruction, options), {
+    temperature: 0.6, topP: 0.95, topK: 50,
+    onText: options?.onText, signal: options?.signal
+  }, contextFor('explanation', options, template));
 };
 
-export const generateExplanation = async (content: string): Promise<string> => {
-  if (!ai) return "API Key not configured. Explanation unavailable.";
-  if (content.length < MIN_CONTENT_LENGTH_FOR_GENERATION) return "Content is too short to generate a meaningful explanation.";
-  
-  const prompt = `You are an expert teacher. Your goal is to explain the core concepts from the following study material in a clear, simple, and easy-to-understand way.
-Break down complex topics, use analogies if helpful, and structure the explanation logically. Avoid simply rephrasing the text; provide genuine clarification and insight.
+const NOTE_LENGTH_DETAIL: Record<NoteLength, string> = {
+    [NoteLength.SHORT]: 'Provide a concise summary in 3-5 bullet points. Focus only on the absolute main ideas.',
+    [NoteLength.MEDIUM]: 'Outline the core concepts and key supporting details in a structured list. Use nested bullets if necessary.',
+    [NoteLength.DETAILED]: 'Create comprehensive, detailed notes covering all significant topics, definitions, and examples. Structure it with clear headings and bullet points.',
+};
 
-Content to explain:
-${content.substring(0, MAX_CONTENT_LENGTH_FOR_GENERATION)}`;
+export const generateNotes = async (content: string, length: NoteLength, options?: GenerationOptions): Promise<string> => {
+    ensureConfigured();
+    const promptDetail = NOTE_LENGTH_DETAIL[length];
 
-  try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: GEMINI_API_PRO_TEXT_MODEL,
-      contents: prompt,
-      config: { temperature: 0.6, topP: 0.95, topK: 50 }
-    });
-    return response.text;
-  } catch (error) {
-    console.error("Error generating explanation:", error);
-    return "Failed to generate explanation. Please try again.";
-  }
+    if (content.length <= MAX_CONTENT_LENGTH_FOR_GENERATION) {
+        const { prompt, template } = buildPrompt('notes', { detail: promptDetail, content }, options);
+        options?.onTemplate?.(template);
+        return generateText(withCitationInstructions(prompt, options), { onText: options?.onText, signal: options?.signal }, contextFor('notes', options, template));
+    }
+
+    // Map: notes for every section. Reduce: detailed notes keep every section under its own heading,
+    // shorter note levels are merged into one list.
+    const chunks = splitIntoChunks(content, MAX_CONTENT_LENGTH_FOR_GENERATION);
+    if (length === NoteLength.DETAILED) {
+        // Every section streams in after the finished ones, and a stopped generation keeps the sections so far.
+        const sections: string[] = [];
+        try {
+            await mapChunks(chunks, async chunk => {
+                const heading = `## ${chunk.label}\n`;
+                const { prompt, template } = buildPrompt('sectionNotes', { label: chunk.label, detail: promptDetail, content: chunk.text }, options);
+                if (sections.length === 0) options?.onTemplate?.(template);
+                const onText = options?.onText && ((text: string) => options.onText([...sections, heading + text].join('\n\n')));
+                const notes = await generateText(withCitationInstructions(prompt, options), { onText, signal: options?.signal }, contextFor('notes', options, template));
+                if (notes.trim()) sections.push(heading + notes.trim());
+                options?.onText?.(sections.join('\n\n'));
+            }, options);
+        } catch (error) {
+            if (!options?.signal?.aborted) throw error;
+        }
+        return sections.join('\n\n');
+    }
+
+    const sectionNotes = await mapChunks(chunks, chunk => {
+        const { prompt, template } = buildPrompt('sectionNotes', { label: chunk.label, detail: promptDetail, content: chunk.text }, options);
+        return generateText(withCitationInstructions(prompt, options), { signal: options?.signal }, contextFor('notes', options, template));
+    }, options);
+    const combinedNotes = await condenseLongContent(sectionNotes.map((notes, i) => `## ${chunks[i].label}\n${notes.trim()}`).join('\n\n'), 'notes', options);
+    const { prompt: mergePrompt, template: mergeTemplate } = buildPrompt('mergedNotes', { detail: promptDetail, notes: combinedNotes }, options);
+    options?.onTemplate?.(mergeTemplate);
+    return generateText(withCitationInstructions(mergePrompt, options), { onText: options?.onText, signal: options?.signal }, contextFor('notes', options, mergeTemplate));
 };
 
-export const generateNotes = async (content: string, length: NoteLength): Promise<string> => {
-    if (!ai) throw new Error("API Key not configured.");
-    let promptDetail = '';
-    switch(length) {
-        case NoteLength.SHORT:
-            promptDetail = 'Provide a concise summary in 3-5 bullet points. Focus only on the absolute main ideas.';
-            break;
-        case NoteLength.MEDIUM:
-            promptDetail = 'Outline the core concepts and key supporting details in a structured list. Use nested bullets if necessary.';
-            break;
-        case NoteLength.DETAILED:
-            promptDetail = 'Create comprehensive, detailed notes covering all significant topics, definitions, and examples. Structure it with clear headings and bullet points.';
-            break;
+const QUIZ_QUESTION_SCHEMA: JsonSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['mcq', 'short_answer'] },
+            questionText: { type: 'string' },
+            options: { type: 'array', items: { type: 'string' } },
+            correctAnswer: { type: 'string' },
+            sourceNumber: { type: 'integer', description: 'Number of the "=== Source N ===" section the question is based on.' }
+        },
+        required: ['id', 'type', 'questionText', 'correctAnswer']
     }
-    const prompt = `Generate notes for the following content. The desired level of detail is: ${promptDetail}\n\nContent:\n${content.substring(0, MAX_CONTENT_LENGTH_FOR_GENERATION)}`;
-    const response = await ai.models.generateContent({
-        model: GEMINI_API_PRO_TEXT_MODEL,
-        contents: prompt
-    });
-    return response.text;
 };
 
-export const generateQuizQuestions = async (content: string, count: number = DEFAULT_QUIZ_QUESTIONS_count): Promise<QuizQuestion[]> => {
-    if (!ai) throw new Error("API Key not configured.");
-    const prompt = `Generate a quiz with exactly ${count} questions based on the provided content. The quiz should include a mix of multiple-choice (MCQ) and short-answer questions. For MCQs, provide 4 distinct options.
+/** Multiple-choice questions need choices, one of which is the answer, the way QuizPage scores them. */
+const validateQuizQuestions = (questions: QuizQuestion[]): FieldError[] => [
+    ...(questions.length === 0 ? [{ path: 'questions', message: 'should not be empty' }] : []),
+    ...questions.flatMap((question, i): FieldError[] => {
+        if (question.type !== 'mcq') return [];
+        if (!question.options || question.options.length < 2) return [{ path: `questions[${i}].options`, message: 'should list at least two choices' }];
+        const answer = String(question.correctAnswer).trim().toLowerCase();
+        return question.options.some(option => option.trim().toLowerCase() === answer) ? [] : [{ path: `questions[${i}].correctAnswer`, message: 'should be one of the options' }];
+    }),
+];
+
+const generateQuizQuestionsForText = async (content: string, count: number, options?: GenerationOptions, label?: string): Promise<QuizQuestion[]> => {
+    const sourceInstruction = options?.citeSources
+        ? `\nThe content combines several sources under "=== Source N: ... ===" headers${label ? ` (this part covers ${label})` : ''}. Set sourceNumber to the source each question is based on.`
+        : '';
+    const { prompt, template } = buildPrompt('quiz', { count, sourceInstruction, content }, options);
+    options?.onTemplate?.(template);
+
+    // Not cached, so that every attempt gets new questions.
+    const questions = await generateJson<QuizQuestion[]>(prompt, QUIZ_QUESTION_SCHEMA, { signal: options?.signal }, contextFor('quiz', options), { root: 'questions', validate: validateQuizQuestions });
+    return options?.citeSources ? questions : questions.map(({ sourceNumber, ...question }) => question);
+};
 
-Content:
-${content.substring(0, MAX_CONTENT_LENGTH_FOR_GENERATION)}`;
+export const generateQuizQuestions = async (content: string, count: number = DEFAULT_QUIZ_QUESTIONS_count, options?: GenerationOptions): Promise<QuizQuestion[]> => {
+    ensureConfigured();
+    if (content.length <= MAX_CONTENT_LENGTH_FOR_GENERATION) {
+        return generateQuizQuestionsForText(content, count, options);
+    }
 
-    const schema = {
-        type: Type.ARRAY,
-        items: {
-            type: Type.OBJECT,
-            properties: {
-                id: { type: Type.STRING },
-                type: { type: Type.STRING, enum: ['mcq', 'short_answer'] },
-                questionText: { type: Type.STRING },
-                options: { type: Type.ARRAY, items: { type: Type.STRING } },
-                correctAnswer: { type: Type.STRING }
-            },
-            required: ['id', 'type', 'questionText', 'correctAnswer']
-        }
-    };
-    
-    const response = await ai.models.generateContent({
-        model: GEMINI_API_PRO_TEXT_MODEL,
-        contents: prompt,
-        config: { responseMimeType: 'application/json', responseSchema: schema }
-    });
+    // Spread the questions over evenly spaced sections so the quiz covers the whole document.
+    const chunks = splitIntoChunks(content, MAX_CONTENT_LENGTH_FOR_GENERATION);
+    const sampledCount = Math.min(count, chunks.length);
+    const sampledChunks = Array.from({ length: sampledCount }, (_, i) => chunks[Math.floor(i * chunks.length / sampledCount)])
+        .map((chunk, i) => ({ ...chunk, index: i }));
+    const questionsPerChunk = sampledChunks.map((_, i) => Math.floor(count / sampledCount) + (i < count % sampledCount ? 1 : 0));
 
-    const questions = parseJsonFromText<any[]>(response.text);
-    return questions || [];
+    const questionSets = await mapChunks(sampledChunks, chunk => generateQuizQuestionsForText(chunk.text, questionsPerChunk[chunk.index], options, chunk.label), options);
+    return questionSets.flatMap((questions, setIndex) => questions.map((q, i) => ({ ...q, id: `${q.id || 'q'}-${setIndex}-${i}` })));
 };
 
-export const generateFeedbackOnQuiz = async (score: number, total: number, content?: string): Promise<AiGeneratedFeedback> => {
-    if (!ai) return { text: "AI feedback is unavailable as the API key is not configured." };
-    const prompt = `A student just completed a quiz on the following material. They scored ${score} out of ${total}. 
-    Provide some brief, encouraging feedback. If their score is low, gently suggest which areas from the material they might want to review.
-    
-    Study Material (for context):
-    ${content?.substring(0, 1000)}...`;
-    
-    const response = await ai.models.generateContent({
-        model: GEMINI_API_PRO_TEXT_MODEL,
-        contents: prompt
-    });
-    return { text: response.text };
-};
+export const generateFeedbackOnQuiz = async (score: number, total: number, content?: string, options?: Pick<GenerationOptions, 'signal' | 'materialId' | 'courseIds' | 'language' | 'onTemplate'>): Promise<AiGeneratedFeedback> => {
+    ensureConfigured();
+    const { prompt, template } = buildPrompt('quizFeedback', { score, total, content: content?.substring(0, 1000) || '' }, options);
+    options?.onTemplate?.(template);
 
-export const generatePresentationContent = async (explanation: string): Promise<PresentationContent | null> => {
-    if (!ai) throw new Error("API Key not configured.");
-    const prompt = `Based on the following explanation, create content for a PowerPoint presentation.
-    The presentation should have a main title and 5-7 content slides.
-    For each slide, provide:
-    1. A concise 'title'.
-    2. 3-4 'content' bullet points.
-    3. A visually descriptive 'imagePrompt' for an AI image generator. The prompt must describe a **professional and minimalist illustration** with a clean aesthetic. The image should be relevant to the slide's content, visually engaging, and suitable for a widescreen (16:9) presentation. **Do not include any text in the image description.**
+    return { text: await generateText(prompt, { signal: options?.signal }, contextFor('feedback', options, template)) };
+};
 
-    Explanation:
-    ${explanation}`;
+export const generatePresentationContent = async (explanation: string, options?: GenerationOptions): Promise<PresentationContent> => {
+    ensureConfigured();
+    const condensedExplanation = await condenseLongContent(explanation, 'presentation', options);
+    const { prompt, template } = buildPrompt('presentation', { explanation: condensedExplanation }, options);
+    options?.onTemplate?.(template);
 
-    const schema = {
-        type: Type.OBJECT,
+    const schema: JsonSchema = {
+        type: 'object',
         properties: {
-            title: { type: Type.STRING },
+            title: { type: 'string' },
             slides: {
-                type: Type.ARRAY,
+                type: 'array',
                 items: {
-                    type: Type.OBJECT,
+                    type: 'object',
                     properties: {
-                        title: { type: Type.STRING },
-                        content: { type: Type.ARRAY, items: { type: Type.STRING } },
-                        imagePrompt: { type: Type.STRING, description: 'A detailed prompt for an AI to generate a relevant image for this slide.' }
+                        title: { type: 'string' },
+                        content: { type: 'array', items: { type: 'string' } },
+                        imagePrompt: { type: 'string', description: 'A detailed prompt for an AI to generate a relevant image for this slide.' }
                     },
                     required: ['title', 'content', 'imagePrompt']
                 }
@@ -303,47 +532,32 @@ export const generatePresentationContent = async (explanation: string): Promise<
         required: ['title', 'slides']
     };
 
-    try {
-        const response = await withRetry<GenerateContentResponse>(() => ai!.models.generateContent({
-            model: GEMINI_API_PRO_TEXT_MODEL,
-            contents: prompt,
-            config: { responseMimeType: 'application/json', responseSchema: schema }
-        }), 4);
-        return parseJsonFromText<PresentationContent>(response.text);
-    } catch (error) {
-        console.error("Failed to generate presentation content after retries:", error);
-        return null;
-    }
+    return generateJson<PresentationContent>(prompt, schema, { signal: options?.signal }, contextFor('presentation', options, template), {
+        maxAttempts: 4,
+        validate: presentation => [
+            ...(presentation.slides.length === 0 ? [{ path: 'slides', message: 'should not be empty' }] : []),
+            ...presentation.slides.flatMap((slide, i) => slide.content.length === 0 ? [{ path: `slides[${i}].content`, message: 'should not be empty' }] : []),
+        ],
+    });
 };
 
 
-export const generateBlockDiagram = async (explanation: string): Promise<string | null> => {
-    if (!ai) return null;
-    const prompt = `You are an expert in creating flawless Mermaid.js diagrams. Your task is to create a "graph TD" (top-down) block diagram from the given text.
-
-You MUST follow these rules STRICTLY:
-1.  **SYNTAX:** Use only "graph TD" format.
-2.  **CONCISENESS:** Keep node labels short and to the point. Do not use full sentences.
-3.  **QUOTES ARE MANDATORY:** If a node's text contains ANY special characters (parentheses, commas, dashes, etc.) or spaces, you MUST enclose the entire text in double quotes.
-    -   CORRECT: \`A["Node with (details)"] --> B["Another, one"]\`
-    -   INCORRECT: \`A[Node with (details)] --> B[Another, one]\`
-4.  **CONNECTIONS:** All connections must be complete using \`-->\`. Do not leave dangling arrows or use other arrow types.
-5.  **NO SUBGRAPHS:** Do not use the \`subgraph\` keyword. Keep the diagram simple.
-6.  **FINAL OUTPUT:** Enclose the final, complete Mermaid code in a single markdown code block like \`\`\`mermaid ... \`\`\`.
-
-Explanation to visualize:
-${explanation}`;
-    const response = await ai.models.generateContent({
-        model: GEMINI_API_PRO_TEXT_MODEL,
-        contents: prompt,
-    });
-    return parseMermaidFromText(response.text);
+export const generateBlockDiagram = async (explanation: string, options?: GenerationOptions): Promise<string> => {
+    ensureConfigured();
+    const condensedExplanation = await condenseLongContent(explanation, 'diagram', options);
+    const { prompt, template } = buildPrompt('diagram', { explanation: condensedExplanation }, options);
+    options?.onTemplate?.(template);
+    const mermaidCode = parseMermaidFromText(await generateText(prompt, { signal: options?.signal }, contextFor('diagram', options, template)));
+    if (!mermaidCode) throw new AiServiceError('invalid-output', 'The AI service did not reply with a valid diagram.');
+    return mermaidCode;
 };
 
 export const generatePresentationImages = async (
   presentation: PresentationContent,
   onProgress: (progress: string) => void,
+  options?: Pick<GenerationOptions, 'signal' | 'materialId'>,
 ): Promise<PresentationContent | null> => {
+    const signal = options?.signal;
     const getFallbackImageUrl = (prompt: string, seedSuffix: string) => {
         const encoded = encodeURIComponent(prompt);
         // Pollinations: free image-by-prompt service; seed helps vary images and avoid caching the same output
@@ -351,7 +565,7 @@ export const generatePresentationImages = async (
         return `https://image.pollinations.ai/prompt/${encoded}?width=1280&height=720&seed=${seed}`;
     };
 
-    if (!ai) {
+    if (!getConfiguredProvider()) {
         // Fallback entirely to Pollinations if API is unavailable
         const updatedSlides = presentation.slides.map((slide, idx) => ({ ...slide, imageUrl: getFallbackImageUrl(slide.imagePrompt, `${idx}-${Date.now()}`) }));
         onProgress('Using fallback image provider.');
@@ -363,25 +577,16 @@ export const generatePresentationImages = async (
     const updatedSlides: SlideContent[] = [];
 
     for (let i = 0; i < slides.length; i++) {
-        if (i > 0) {
-          await sleep(1000); // Add a delay to avoid hitting API rate limits.
-        }
         const slide = slides[i];
         onProgress(`Creating visual for slide ${i + 1} of ${slides.length}...`);
         try {
-            const imageResponse = await withRetry<GenerateImagesResponse>(() => 
-                ai!.models.generateImages({
-                    model: GEMINI_API_PRO_IMAGE_MODEL,
-                    prompt: slide.imagePrompt,
-                    config: { numberOfImages: 1, outputMimeType: 'image/jpeg', aspectRatio: '16:9' },
-                }), 3, 1000,
+            const generatedUrl = await generateImage(slide.imagePrompt, contextFor('presentation', options), signal,
                 (attempt, delay) => { onProgress(`Rate limit on slide ${i + 1}. Retrying in ${delay / 1000}s...`); }
             );
-            
-            const image = imageResponse.generatedImages?.[0]?.image;
-            const imageUrl = image?.imageBytes ? `data:${image.mimeType};base64,${image.imageBytes}` : getFallbackImageUrl(slide.imagePrompt, `${i}-${Math.random().toString(36).slice(2)}`);
+            const imageUrl = generatedUrl || getFallbackImageUrl(slide.imagePrompt, `${i}-${Math.random().toString(36).slice(2)}`);
             updatedSlides.push({ ...slide, imageUrl });
         } catch (error) {
+            if (signal?.aborted) throw error;
             console.error(`Error generating image for slide: "${slide.title}"`, error);
             updatedSlides.push({ ...slide, imageUrl: getFallbackImageUrl(slide.imagePrompt, `${i}-${Math.random().toString(36).slice(2)}`) });
         }
@@ -395,148 +600,102 @@ export const generatePresentationImages = async (
 export const generateVideoAssets = async (
   explanation: string,
   onProgress: (progress: string) => void,
-): Promise<VideoScene[] | null> => {
+  options?: Pick<GenerationOptions, 'signal' | 'bypassCache' | 'materialId' | 'courseIds' | 'onTemplate' | 'language'>,
+): Promise<VideoScene[]> => {
+  const signal = options?.signal;
   const getFallbackImageUrl = (prompt: string, seedSuffix: string) => {
     const encoded = encodeURIComponent(prompt);
     const seed = encodeURIComponent(`video-${seedSuffix}`);
     return `https://image.pollinations.ai/prompt/${encoded}?width=1280&height=720&seed=${seed}`;
   };
 
-  if (!ai) {
-    onProgress('Using fallback image provider for scenes.');
-    // We still need the script; without AI we cannot generate it. Return null.
-    return null;
-  }
-
+  // The script needs the AI service even though scene images can fall back to another provider.
+  ensureConfigured();
   onProgress('Generating video script and image prompts...');
 
-  const prompt = `You are an expert educator and creative director. Your task is to turn the following educational text into a script for a short, engaging video (around 1-2 minutes). Break it down into exactly 5 key scenes.
+  const { prompt, template } = buildPrompt('videoScript', { explanation }, options);
+  options?.onTemplate?.(template);
 
-For each scene, provide:
-1.  A concise "script" for the voice-over narration. Each script should be 2-3 sentences long.
-2.  A detailed, visually rich "imagePrompt" for an AI image generator. The prompt must describe a **cinematic and photorealistic image** that is visually stunning. Describe the style (e.g., dramatic lighting, soft focus), composition, and content clearly. The image must be relevant to the script and suitable for a widescreen educational video. **Do not include any text in the image description.**
-
-Educational Text:
-${explanation}`;
-  
-  const scriptSchema = {
-    type: Type.ARRAY,
+  const scriptSchema: JsonSchema = {
+    type: 'array',
     items: {
-        type: Type.OBJECT,
+        type: 'object',
         properties: {
-            script: { type: Type.STRING },
-            imagePrompt: { type: Type.STRING }
+            script: { type: 'string' },
+            imagePrompt: { type: 'string' }
         },
         required: ["script", "imagePrompt"]
     }
   };
 
-  try {
-    const response = await ai.models.generateContent({
-        model: GEMINI_API_PRO_TEXT_MODEL,
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: scriptSchema,
-        }
-    });
+  const scenesData = await generateJson<{ script: string; imagePrompt: string; }[]>(prompt, scriptSchema, { signal }, contextFor('video', options, template), {
+    root: 'scenes',
+    validate: scenes => [
+      ...(scenes.length === 0 ? [{ path: 'scenes', message: 'should not be empty' }] : []),
+      ...scenes.flatMap((scene, i) => scene.script.trim() ? [] : [{ path: `scenes[${i}].script`, message: 'should not be empty' }]),
+    ],
+  });
 
-    const scenesData = parseJsonFromText<{ script: string; imagePrompt: string; }[]>(response.text);
+  const generatedScenes: VideoScene[] = [];
+  for (let i = 0; i < scenesData.length; i++) {
+    const sceneData = scenesData[i];
+    onProgress(`Creating visual for scene ${i + 1} of ${scenesData.length}...`);
 
-    if (!scenesData || scenesData.length === 0) {
-      console.error("Failed to parse video script from AI response", response.text);
-      onProgress("Error: Could not generate video script.");
-      return null;
-    }
-
-    const generatedScenes: VideoScene[] = [];
-    for (let i = 0; i < scenesData.length; i++) {
-      if (i > 0) {
-        await sleep(1000); // Add a delay to avoid hitting API rate limits.
-      }
-      const sceneData = scenesData[i];
-      onProgress(`Creating visual for scene ${i + 1} of ${scenesData.length}...`);
-
-      try {
-        const imageResponse = await withRetry<GenerateImagesResponse>(
-          () => ai!.models.generateImages({
-            model: GEMINI_API_PRO_IMAGE_MODEL,
-            prompt: sceneData.imagePrompt,
-            config: {
-              numberOfImages: 1,
-              outputMimeType: 'image/jpeg',
-              aspectRatio: '16:9',
-            },
-          }),
-          3,
-          1000,
-          (attempt, delay) => {
-            onProgress(`Rate limit hit on scene ${i + 1}. Retrying in ${delay / 1000}s...`);
-          }
-        );
-        
-        const image = imageResponse.generatedImages?.[0]?.image;
-        if (image?.imageBytes) {
-            const imageUrl = `data:${image.mimeType};base64,${image.imageBytes}`;
-            generatedScenes.push({ ...sceneData, imageUrl });
-        } else {
-            console.warn(`No image data returned for scene: "${sceneData.script.substring(0, 30)}..."`);
-            generatedScenes.push({ ...sceneData, imageUrl: getFallbackImageUrl(sceneData.imagePrompt, `${i}-${Math.random().toString(36).slice(2)}`) });
+    try {
+      const imageUrl = await generateImage(
+        sceneData.imagePrompt,
+        contextFor('video', options),
+        signal,
+        (attempt, delay) => {
+          onProgress(`Rate limit hit on scene ${i + 1}. Retrying in ${delay / 1000}s...`);
         }
-
-      } catch (error) {
-        console.error(`Error generating image for scene: "${sceneData.script.substring(0, 30)}..."`, error);
-        generatedScenes.push({ ...sceneData, imageUrl: getFallbackImageUrl(sceneData.imagePrompt, `${i}-${Math.random().toString(36).slice(2)}`) });
+      );
+      
+      if (imageUrl) {
+          generatedScenes.push({ ...sceneData, imageUrl });
+      } else {
+          console.warn(`No image data returned for scene: "${sceneData.script.substring(0, 30)}..."`);
+          generatedScenes.push({ ...sceneData, imageUrl: getFallbackImageUrl(sceneData.imagePrompt, `${i}-${Math.random().toString(36).slice(2)}`) });
       }
-    }
-    
-    onProgress("Video generation complete!");
-    return generatedScenes;
 
-  } catch (error) {
-    console.error("Failed to generate video assets:", error);
-    onProgress("Error: A problem occurred during video generation.");
-    return null;
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error(`Error generating image for scene: "${sceneData.script.substring(0, 30)}..."`, error);
+      generatedScenes.push({ ...sceneData, imageUrl: getFallbackImageUrl(sceneData.imagePrompt, `${i}-${Math.random().toString(36).slice(2)}`) });
+    }
   }
+  
+  onProgress("Video generation complete!");
+  return generatedScenes;
 };
 
 
 // --- Chat ---
 
-export const startOrGetChat = (systemInstruction: string, history?: Content[]): GenAIChat => {
-    if (!ai) throw new Error("API Key not configured.");
-    return ai.chats.create({
-        model: GEMINI_API_PRO_TEXT_MODEL,
-        config: {
-            systemInstruction: systemInstruction,
-        },
-        history: history || []
-    });
+/** The chat assistant's instructions for a material, with the passages relevant to the question. */
+export const buildChatInstruction = (
+    material: { title?: string; topic?: string; subject?: string },
+    content: string,
+    options?: Pick<GenerationOptions, 'citeSources' | 'citeTimestamps' | 'courseIds' | 'language'>,
+): string => {
+    const { prompt } = buildPrompt('chat', { title: material.title || '', topic: material.topic || '', subject: material.subject || '', content }, options);
+    return withCitationInstructions(prompt, options);
 };
 
-export const sendMessageToChat = async (chat: GenAIChat, message: string, useGoogleSearch: boolean = false): Promise<{ text: string, groundingSources?: GroundingSource[] }> => {
-    const config: any = {};
-    if (useGoogleSearch) {
-        config.tools = [{ googleSearch: {} }];
-    }
-    
-    const response = await chat.sendMessage({
-        message,
-        config
-    });
-
-    let groundingSources: GroundingSource[] | undefined = undefined;
-    if (useGoogleSearch) {
-        const metadata = response.candidates?.[0]?.groundingMetadata;
-        if (metadata?.groundingChunks) {
-            groundingSources = metadata.groundingChunks
-                .filter(chunk => chunk.web)
-                .map(chunk => ({
-                    uri: chunk.web!.uri,
-                    title: chunk.web!.title,
-                }));
-        }
-    }
+export const startOrGetChat = (systemInstruction: string, history?: ChatMessage[]): ChatSession => {
+    const llm = getConfiguredProvider();
+    if (!llm) throw new AiServiceError('missing-key');
+    return llm.startChat(systemInstruction, history || []);
+};
 
-    return { text: response.text, groundingSources };
-};
\ No newline at end of file
+/**
+ * Web search is only used when the provider supports it; other providers answer from the material alone.
+ * With onText the reply streams in, and stopping it through the signal keeps the text received so far.
+ */
+export const sendMessageToChat = (chat: ChatSession, message: string, useGoogleSearch: boolean = false, options?: Pick<ChatSendOptions, 'onText' | 'signal'> & Pick<GenerationOptions, 'materialId'>) =>
+    runMetered(contextFor('chat', options), onUsage => chat.sendMessage(message, {
+        onText: options?.onText,
+        signal: options?.signal,
+        useWebSearch: useGoogleSearch && supportsWebSearch(),
+        onUsage,
+    }), { signal: options?.signal });
@@ -0,0 +1,17 @@
+/** JSON with object keys in sorted order and undefined properties left out, so equal values hash equally. */
+export const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(item => stableStringify(item ?? null)).join(',')}]`;
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value).sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/** Hex SHA-256 of the value's stable JSON. */
+export const hashValue = async (value: unknown): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(stableStringify(value)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
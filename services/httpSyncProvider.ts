@@ -0,0 +1,126 @@
+import { LOCAL_STORAGE_SYNC_SETTINGS_KEY } from '../constants';
+import { SyncProvider, SyncManifestEntry, SyncError } from './syncService';
+
+// The library is kept as flat files in one folder: manifest.json, one file per version of a
+// record and one per asset. Any server that supports GET, PUT and DELETE works, e.g. a WebDAV
+// folder (Nextcloud, Apache mod_dav, `rclone serve webdav`) or a small HTTP file server.
+const MANIFEST_FILE = 'manifest.json';
+
+export interface HttpSyncSettings {
+  serverUrl: string; // URL of the folder, e.g. https://cloud.example.com/remote.php/dav/files/me/ameena/
+  username: string;
+  password: string;
+}
+
+const EMPTY_SETTINGS: HttpSyncSettings = { serverUrl: '', username: '', password: '' };
+
+// The password stays in this browser's storage, like the rest of the library.
+export const loadSyncSettings = (): HttpSyncSettings => {
+  try {
+    return { ...EMPTY_SETTINGS, ...JSON.parse(localStorage.getItem(LOCAL_STORAGE_SYNC_SETTINGS_KEY) || '{}') };
+  } catch (error) {
+    console.error("Failed to read the sync settings:", error);
+    return EMPTY_SETTINGS;
+  }
+};
+
+export const saveSyncSettings = (settings: HttpSyncSettings) => {
+  localStorage.setItem(LOCAL_STORAGE_SYNC_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const recordFileName = (entry: SyncManifestEntry) => `${entry.kind}-${encodeURIComponent(entry.id)}-${entry.hash!.slice(0, 16)}.json`;
+const assetFileName = (id: string) => `asset-${encodeURIComponent(id)}`;
+
+/** Basic auth credentials, encoded as UTF-8 so names with accents work. */
+const encodeCredentials = (username: string, password: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(`${username}:${password}`)));
+
+/**
+ * Syncs with a folder on a WebDAV or plain HTTP server. When the app runs on another origin, the
+ * server must allow it with CORS, including the Authorization, If-Match and If-None-Match request
+ * headers, and expose the ETag response header.
+ *
+ * Manifest revisions are ETags. A server without ETags still works, but its manifest writes are
+ * not guarded against two devices syncing at the same moment.
+ */
+export const createHttpSyncProvider = ({ serverUrl, username, password }: HttpSyncSettings): SyncProvider => {
+  const baseUrl = serverUrl.trim().endsWith('/') ? serverUrl.trim() : `${serverUrl.trim()}/`;
+  const authHeaders: Record<string, string> = username ? { Authorization: `Basic ${encodeCredentials(username, password)}` } : {};
+
+  const send = async (fileName: string, init: RequestInit = {}): Promise<Response> => {
+    let response: Response;
+    try {
+      response = await fetch(new URL(fileName, baseUrl), { ...init, cache: 'no-store', headers: { ...authHeaders, ...(init.headers as Record<string, string>) } });
+    } catch (error) {
+      console.error(`Request to the sync server failed (${fileName}):`, error);
+      throw new SyncError('network', `Could not reach ${baseUrl}. Check the address and your connection, and that the server allows requests from this site.`);
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new SyncError('auth', "The sync server did not accept the username and password.");
+    }
+    if (response.status === 412) {
+      throw new SyncError('conflict', "The library on the server changed during the sync.");
+    }
+    return response;
+  };
+
+  const expectOk = (response: Response, action: string) => {
+    if (!response.ok) throw new SyncError('server', `The sync server could not ${action} (HTTP ${response.status}).`);
+  };
+
+  /** Resolves with null if the file does not exist. */
+  const getFile = async (fileName: string): Promise<Response | null> => {
+    const response = await send(fileName);
+    if (response.status === 404) return null;
+    expectOk(response, 'send a file');
+    return response;
+  };
+
+  const readJson = async (response: Response, fileName: string): Promise<any> => {
+    try {
+      return await response.json();
+    } catch (error) {
+      console.error(`Failed to parse ${fileName} from the sync server:`, error);
+      throw new SyncError('invalid', `${fileName} on the sync server is damaged.`);
+    }
+  };
+
+  const putFile = async (fileName: string, body: BodyInit, headers: Record<string, string>) => {
+    expectOk(await send(fileName, { method: 'PUT', body, headers }), 'store a file');
+  };
+
+  return {
+    label: baseUrl,
+
+    // A revision of '' means the manifest exists but the server sends no ETag.
+    pullManifest: async () => {
+      const response = await getFile(MANIFEST_FILE);
+      if (!response) return { manifest: null, revision: null };
+      return { manifest: await readJson(response, MANIFEST_FILE), revision: response.headers.get('ETag') || '' };
+    },
+
+    pushManifest: (manifest, revision) => {
+      const guard: Record<string, string> = revision === null ? { 'If-None-Match': '*' } : revision ? { 'If-Match': revision } : {};
+      return putFile(MANIFEST_FILE, JSON.stringify(manifest), { 'Content-Type': 'application/json', ...guard });
+    },
+
+    pullRecord: async entry => {
+      const response = await getFile(recordFileName(entry));
+      return response ? readJson(response, recordFileName(entry)) : null;
+    },
+
+    pushRecord: (entry, record) => putFile(recordFileName(entry), JSON.stringify(record), { 'Content-Type': 'application/json' }),
+
+    removeRecord: async entry => {
+      const response = await send(recordFileName(entry), { method: 'DELETE' });
+      if (response.status !== 404) expectOk(response, 'delete an old file');
+    },
+
+    pullAsset: async id => {
+      const response = await getFile(assetFileName(id));
+      return response ? response.blob() : null;
+    },
+
+    pushAsset: (id, blob) => putFile(assetFileName(id), blob, { 'Content-Type': blob.type || 'application/octet-stream' }),
+  };
+};
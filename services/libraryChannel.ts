@@ -0,0 +1,39 @@
+// Tabs of the app share one IndexedDB library. After writing, a tab announces which records it
+// changed so the others can read them again instead of keeping outdated copies on screen.
+const CHANNEL_NAME = 'ameena-ai-library';
+
+/** Ids of records a tab has written or deleted; `everything` after bulk changes such as a restore or sync. */
+export interface LibraryChange {
+  materials?: string[];
+  quizzes?: string[];
+  courses?: string[];
+  everything?: boolean;
+}
+
+// One channel per tab: a BroadcastChannel does not receive its own messages, only those of other tabs.
+let channel: BroadcastChannel | null | undefined;
+
+const getChannel = () => {
+  if (channel === undefined) {
+    channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME);
+    if (!channel) console.warn("This browser cannot notify other tabs of library changes; they will show them after a reload.");
+  }
+  return channel;
+};
+
+export const broadcastLibraryChange = (change: LibraryChange) => {
+  try {
+    getChannel()?.postMessage(change);
+  } catch (error) {
+    console.warn("Failed to notify other tabs of a library change:", error);
+  }
+};
+
+/** Calls the listener for every change made in another tab. Returns a function that unsubscribes. */
+export const subscribeToLibraryChanges = (listener: (change: LibraryChange) => void): (() => void) => {
+  const current = getChannel();
+  if (!current) return () => {};
+  const handleMessage = (event: MessageEvent<LibraryChange>) => listener(event.data);
+  current.addEventListener('message', handleMessage);
+  return () => current.removeEventListener('message', handleMessage);
+};
@@ -0,0 +1,99 @@
+import { INDEXED_DB_NAME } from '../constants';
+
+// Version 1 held only the assets store; version 2 adds materials and quizzes, version 3 the quarantine, version 4 courses,
+// version 5 the sync state, version 6 the AI response cache, version 7 the AI usage log.
+// This is the version of the database layout; the format of the records is versioned in services/schemaMigrations.ts.
+const DB_VERSION = 7;
+
+export const ASSETS_STORE = 'assets';
+export const MATERIALS_STORE = 'materials';
+export const QUIZZES_STORE = 'quizzes';
+export const QUARANTINE_STORE = 'quarantine'; // Records that could not be migrated or validated
+export const COURSES_STORE = 'courses';
+export const SYNC_STATE_STORE = 'syncState'; // What each record looked like when it was last synced
+export const RESPONSE_CACHE_STORE = 'responseCache'; // AI responses by the hash of their request; not backed up or synced
+export const USAGE_STORE = 'usage'; // Tokens and images billed per AI request; kept on this device only
+
+export type LibraryStoreName = typeof ASSETS_STORE | typeof MATERIALS_STORE | typeof QUIZZES_STORE | typeof QUARANTINE_STORE | typeof COURSES_STORE | typeof SYNC_STATE_STORE | typeof RESPONSE_CACHE_STORE | typeof USAGE_STORE;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const blockedListeners = new Set<(blocked: boolean) => void>();
+
+/**
+ * Calls the listener with true while opening the library waits for another tab that still has an older version
+ * of it open, and with false once it has opened. Returns a function that unsubscribes.
+ */
+export const subscribeToLibraryDbBlocked = (listener: (blocked: boolean) => void): (() => void) => {
+  blockedListeners.add(listener);
+  return () => { blockedListeners.delete(listener); };
+};
+
+export const openLibraryDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(INDEXED_DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ASSETS_STORE)) db.createObjectStore(ASSETS_STORE);
+        if (!db.objectStoreNames.contains(MATERIALS_STORE)) db.createObjectStore(MATERIALS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(QUIZZES_STORE)) {
+          db.createObjectStore(QUIZZES_STORE, { keyPath: 'id' }).createIndex('contentId', 'contentId');
+        }
+        if (!db.objectStoreNames.contains(COURSES_STORE)) db.createObjectStore(COURSES_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(SYNC_STATE_STORE)) db.createObjectStore(SYNC_STATE_STORE, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(RESPONSE_CACHE_STORE)) {
+          db.createObjectStore(RESPONSE_CACHE_STORE, { keyPath: 'key' }).createIndex('lastUsedAt', 'lastUsedAt');
+        }
+        if (!db.objectStoreNames.contains(USAGE_STORE)) {
+          db.createObjectStore(USAGE_STORE, { keyPath: 'id', autoIncrement: true }).createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(QUARANTINE_STORE)) db.createObjectStore(QUARANTINE_STORE, { keyPath: 'key', autoIncrement: true });
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // A newer version of the app opened in another tab needs this connection closed before it can upgrade.
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        blockedListeners.forEach(listener => listener(false));
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+      request.onblocked = () => {
+        console.warn("The library database upgrade is waiting for other tabs of Ameena AI to close.");
+        blockedListeners.forEach(listener => listener(true));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/** Runs a single request against one store and resolves with its result. */
+export const runRequest = async <T,>(storeName: LibraryStoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openLibraryDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Runs several writes in one transaction, resolving once it has committed. Either all of them
+ * are stored or, if one fails or the quota is exceeded, none are.
+ */
+export const runTransaction = async (storeNames: LibraryStoreName[], action: (stores: Record<string, IDBObjectStore>) => void): Promise<void> => {
+  const db = await openLibraryDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, 'readwrite');
+    const stores = Object.fromEntries(storeNames.map(name => [name, transaction.objectStore(name)]));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('The transaction was aborted.'));
+    action(stores);
+  });
+};
@@ -0,0 +1,425 @@
+import { StudyMaterial, Quiz, Course, PresentationContent, VideoScene, MaterialSource } from '../types';
+import { LOCAL_STORAGE_CONTENT_KEY, LOCAL_STORAGE_QUIZZES_KEY } from '../constants';
+import { MATERIALS_STORE, QUIZZES_STORE, COURSES_STORE, QUARANTINE_STORE, SYNC_STATE_STORE, runRequest, runTransaction } from './libraryDb';
+import { saveAsset, getAsset, putAsset, deleteAsset, dataUrlToBlob, toAssetUrl, getAssetIdFromUrl } from './assetStore';
+import { RecordKind, upgradeRecord, stampRecord } from './schemaMigrations';
+
+export interface Library {
+  materials: StudyMaterial[];
+  quizzes: Quiz[];
+  courses: Course[];
+  quarantinedCount: number; // Records moved aside because they could not be loaded
+}
+
+const externalizeImage = async (url: string | undefined): Promise<string | undefined> =>
+  url?.startsWith('data:') ? toAssetUrl(await saveAsset(await dataUrlToBlob(url))) : url;
+
+const externalizeImages = (urls: string[] | undefined) =>
+  urls ? Promise.all(urls.map(url => externalizeImage(url) as Promise<string>)) : undefined;
+
+/**
+ * Moves the inline images of a material, or of an update to one, into the asset store and
+ * replaces them with asset references: slide and scene images and scanned source pages.
+ */
+export const externalizeMaterialAssets = async <T extends Partial<StudyMaterial>>(material: T): Promise<T> => {
+  const result: T = { ...material };
+  if (material.presentationContent) {
+    const slides = await Promise.all(material.presentationContent.slides.map(async slide => ({ ...slide, imageUrl: await externalizeImage(slide.imageUrl) })));
+    result.presentationContent = { ...material.presentationContent, slides } as PresentationContent;
+  }
+  if (material.videoScenes) {
+    result.videoScenes = await Promise.all(material.videoScenes.map(async scene => ({ ...scene, imageUrl: await externalizeImage(scene.imageUrl) }))) as VideoScene[];
+  }
+  if (material.sources) {
+    result.sources = await Promise.all(material.sources.map(async source => ({ ...source, sourceImages: await externalizeImages(source.sourceImages) }))) as MaterialSource[];
+  }
+  return result;
+};
+
+/** Ids of every asset a material references. */
+export const collectAssetIds = (material: Partial<StudyMaterial>): Set<string> => {
+  const urls = [
+    ...(material.presentationContent?.slides.map(slide => slide.imageUrl) || []),
+    ...(material.videoScenes?.map(scene => scene.imageUrl) || []),
+    ...(material.sources?.flatMap(source => source.sourceImages || []) || []),
+  ];
+  const ids = new Set(urls.map(getAssetIdFromUrl).filter((id): id is string => !!id));
+  material.sources?.forEach(source => { if (source.audioAssetId) ids.add(source.audioAssetId); });
+  return ids;
+};
+
+/** Deletes the assets that the previous version of a material referenced and the new one no longer does. */
+const releaseUnusedAssets = async (previous: Partial<StudyMaterial> | undefined, next: Partial<StudyMaterial>) => {
+  if (!previous) return;
+  const kept = collectAssetIds(next);
+  const unused = Array.from(collectAssetIds(previous)).filter(id => !kept.has(id));
+  await Promise.all(unused.map(id => deleteAsset(id).catch(error => console.warn(`Failed to delete unused asset ${id}:`, error))));
+};
+
+export const loadLibrary = async (): Promise<Library> => {
+  const [storedMaterials, storedQuizzes, storedCourses] = await Promise.all([
+    runRequest<unknown[]>(MATERIALS_STORE, 'readonly', store => store.getAll()),
+    runRequest<unknown[]>(QUIZZES_STORE, 'readonly', store => store.getAll()),
+    runRequest<unknown[]>(COURSES_STORE, 'readonly', store => store.getAll()),
+  ]);
+  const materials = sortRecords<StudyMaterial>(storedMaterials, 'material');
+  const quizzes = sortRecords<Quiz>(storedQuizzes, 'quiz');
+  const courses = sortRecords<Course>(storedCourses, 'course');
+  const rejected = [...materials.rejected, ...quizzes.rejected, ...courses.rejected];
+  const migrated = [...materials.migrated, ...quizzes.migrated, ...courses.migrated];
+
+  // Outdated records are rewritten in the current format and invalid ones moved aside, together.
+  if (rejected.length > 0 || migrated.length > 0) {
+    await runTransaction([MATERIALS_STORE, QUIZZES_STORE, COURSES_STORE, QUARANTINE_STORE], stores => {
+      migrated.forEach(({ storeName, record }) => stores[storeName].put(stampRecord(record)));
+      rejected.forEach(({ storeName, id, entry }) => {
+        if (id !== undefined) stores[storeName].delete(id);
+        stores[QUARANTINE_STORE].add(entry);
+      });
+    });
+  }
+
+  const quarantinedCount = await runRequest<number>(QUARANTINE_STORE, 'readonly', store => store.count());
+  materials.records.sort((a, b) => a.uploadDate.localeCompare(b.uploadDate));
+  courses.records.sort((a, b) => a.name.localeCompare(b.name));
+  return { materials: materials.records, quizzes: quizzes.records, courses: courses.records, quarantinedCount };
+};
+
+export const saveMaterial = async (material: StudyMaterial, previous?: StudyMaterial): Promise<void> => {
+  await runRequest(MATERIALS_STORE, 'readwrite', store => store.put(stampRecord(material)));
+  await releaseUnusedAssets(previous, material);
+};
+
+/**
+ * Applies an update to the stored version of a material. It is read and written in one
+ * transaction, so fields saved meanwhile by another tab are kept rather than overwritten with an
+ * outdated copy. Resolves with null if the material has been deleted.
+ */
+export const mergeMaterialUpdate = async (materialId: string, updates: Partial<StudyMaterial>): Promise<{ previous: StudyMaterial; next: StudyMaterial } | null> => {
+  let merged: { previous: StudyMaterial; next: StudyMaterial } | null = null;
+  await runTransaction([MATERIALS_STORE], stores => {
+    const request = stores[MATERIALS_STORE].get(materialId);
+    request.onsuccess = () => {
+      if (!request.result) return;
+      const upgraded = upgradeRecord<StudyMaterial>('material', request.result);
+      if (upgraded.ok === false) return;
+      const next = { ...upgraded.record, ...updates };
+      stores[MATERIALS_STORE].put(stampRecord(next));
+      merged = { previous: upgraded.record, next };
+    };
+  });
+  if (merged) await releaseUnusedAssets(merged.previous, merged.next);
+  return merged;
+};
+
+/** Reads the stored versions of some records. Ids that were deleted, or no longer load, are left out. */
+export const loadRecords = async <T extends StudyMaterial | Quiz | Course>(kind: RecordKind, ids: string[]): Promise<T[]> => {
+  const stored = await Promise.all(ids.map(id => runRequest<unknown>(STORE_FOR_KIND[kind], 'readonly', store => store.get(id))));
+  return stored.flatMap(raw => {
+    if (raw === undefined) return [];
+    const result = upgradeRecord<T>(kind, raw);
+    return result.ok === false ? [] : [result.record];
+  });
+};
+
+export const saveQuiz = async (quiz: Quiz): Promise<void> => {
+  await runRequest(QUIZZES_STORE, 'readwrite', store => store.put(stampRecord(quiz)));
+};
+
+export const saveCourse = async (course: Course): Promise<void> => {
+  await runRequest(COURSES_STORE, 'readwrite', store => store.put(stampRecord(course)));
+};
+
+/**
+ * Deletes a course after its folders and materials have been moved to `parentId`, in one
+ * transaction. The materials are moved in their stored versions; the moved ones are returned.
+ */
+export const deleteCourse = async (courseId: string, movedCourses: Course[], movedMaterialIds: string[], parentId: string | undefined): Promise<StudyMaterial[]> => {
+  const movedMaterials: StudyMaterial[] = [];
+  await runTransaction([COURSES_STORE, MATERIALS_STORE], stores => {
+    movedCourses.forEach(course => stores[COURSES_STORE].put(stampRecord(course)));
+    movedMaterialIds.forEach(id => {
+      const request = stores[MATERIALS_STORE].get(id);
+      request.onsuccess = () => {
+        if (!request.result) return;
+        const upgraded = upgradeRecord<StudyMaterial>('material', request.result);
+        if (upgraded.ok === false) return;
+        const material = { ...upgraded.record, courseId: parentId };
+        stores[MATERIALS_STORE].put(stampRecord(material));
+        movedMaterials.push(material);
+      };
+    });
+    stores[COURSES_STORE].delete(courseId);
+  });
+  return movedMaterials;
+};
+
+/** Everything removed with a material, kept so the deletion can be undone. */
+export interface DeletedMaterial {
+  material: StudyMaterial;
+  quizzes: Quiz[];
+  assets: [string, Blob][];
+}
+
+/** Deletes a material together with its quiz attempts and assets. */
+export const deleteMaterial = async (material: StudyMaterial): Promise<DeletedMaterial> => {
+  const quizzes = await runRequest<Quiz[]>(QUIZZES_STORE, 'readonly', store => store.index('contentId').getAll(material.id));
+  const assetIds = Array.from(collectAssetIds(material));
+  const assets = (await Promise.all(assetIds.map(async id => [id, await getAsset(id)] as const)))
+    .filter((entry): entry is [string, Blob] => !!entry[1]);
+
+  await runTransaction([MATERIALS_STORE, QUIZZES_STORE], stores => {
+    stores[MATERIALS_STORE].delete(material.id);
+    quizzes.forEach(quiz => stores[QUIZZES_STORE].delete(quiz.id));
+  });
+  await Promise.all(assetIds.map(id => deleteAsset(id).catch(error => console.warn(`Failed to delete asset ${id}:`, error))));
+  return { material, quizzes, assets };
+};
+
+/** Puts back a material removed by deleteMaterial. */
+export const restoreDeletedMaterial = async ({ material, quizzes, assets }: DeletedMaterial): Promise<void> => {
+  await Promise.all(assets.map(([id, blob]) => putAsset(id, blob)));
+  await runTransaction([MATERIALS_STORE, QUIZZES_STORE], stores => {
+    stores[MATERIALS_STORE].put(stampRecord(material));
+    quizzes.forEach(quiz => stores[QUIZZES_STORE].put(stampRecord(quiz)));
+  });
+};
+
+const remapAssetUrl = (url: string | undefined, idMap: Map<string, string>) => {
+  const id = getAssetIdFromUrl(url);
+  return id && idMap.has(id) ? toAssetUrl(idMap.get(id)!) : url;
+};
+
+/**
+ * Copies the assets of a material so a duplicate owns its own: otherwise deleting either copy
+ * would delete the images and recordings of the other.
+ */
+export const copyMaterialAssets = async <T extends Partial<StudyMaterial>>(material: T): Promise<T> => {
+  const idMap = new Map<string, string>();
+  for (const id of collectAssetIds(material)) {
+    const blob = await getAsset(id);
+    if (blob) idMap.set(id, await saveAsset(blob));
+  }
+  const result: T = { ...material };
+  if (material.presentationContent) {
+    result.presentationContent = { ...material.presentationContent, slides: material.presentationContent.slides.map(slide => ({ ...slide, imageUrl: remapAssetUrl(slide.imageUrl, idMap) })) };
+  }
+  if (material.videoScenes) {
+    result.videoScenes = material.videoScenes.map(scene => ({ ...scene, imageUrl: remapAssetUrl(scene.imageUrl, idMap) }));
+  }
+  if (material.sources) {
+    result.sources = material.sources.map(source => ({
+      ...source,
+      sourceImages: source.sourceImages?.map(url => remapAssetUrl(url, idMap) as string),
+      audioAssetId: source.audioAssetId && (idMap.get(source.audioAssetId) || source.audioAssetId),
+    }));
+  }
+  return result;
+};
+
+/**
+ * Stores restored materials, quizzes and courses in one transaction, then releases the assets that the
+ * materials they replaced no longer need.
+ */
+export const saveRestoredRecords = async (materials: StudyMaterial[], quizzes: Quiz[], courses: Course[], replaced: StudyMaterial[]): Promise<void> => {
+  await runTransaction([MATERIALS_STORE, QUIZZES_STORE, COURSES_STORE], stores => {
+    materials.forEach(material => stores[MATERIALS_STORE].put(stampRecord(material)));
+    quizzes.forEach(quiz => stores[QUIZZES_STORE].put(stampRecord(quiz)));
+    courses.forEach(course => stores[COURSES_STORE].put(stampRecord(course)));
+  });
+  await Promise.all(replaced.map(previous => releaseUnusedAssets(previous, materials.find(material => material.id === previous.id) || {})));
+};
+
+/** A record that could not be loaded, kept as it was stored so the user can export it. */
+export interface QuarantinedRecord {
+  key?: number; // Assigned by the quarantine store
+  kind: RecordKind;
+  record: unknown;
+  reason: string;
+  quarantinedAt: string;
+}
+
+const quarantineEntry = (kind: RecordKind, record: unknown, reason: string): QuarantinedRecord =>
+  ({ kind, record, reason, quarantinedAt: new Date().toISOString() });
+
+type RecordStoreName = typeof MATERIALS_STORE | typeof QUIZZES_STORE | typeof COURSES_STORE;
+
+const STORE_FOR_KIND: Record<RecordKind, RecordStoreName> = {
+  material: MATERIALS_STORE,
+  quiz: QUIZZES_STORE,
+  course: COURSES_STORE,
+};
+
+/** Upgrades stored records, separating the ones to keep from the ones to quarantine. */
+const sortRecords = <T extends StudyMaterial | Quiz | Course>(stored: unknown[], kind: RecordKind) => {
+  const storeName = STORE_FOR_KIND[kind];
+  const records: T[] = [];
+  const migrated: { storeName: typeof storeName; record: T }[] = [];
+  const rejected: { storeName: typeof storeName; id?: IDBValidKey; entry: QuarantinedRecord }[] = [];
+  stored.forEach(raw => {
+    const result = upgradeRecord<T>(kind, raw);
+    if (result.ok === false) {
+      const id = (raw as { id?: unknown } | null)?.id;
+      console.warn(`Quarantined a stored ${kind}: ${result.reason}`);
+      rejected.push({ storeName, id: typeof id === 'string' ? id : undefined, entry: quarantineEntry(kind, raw, result.reason) });
+      return;
+    }
+    records.push(result.record);
+    if (result.migrated) migrated.push({ storeName, record: result.record });
+  });
+  return { records, migrated, rejected };
+};
+
+export const listQuarantine = (): Promise<QuarantinedRecord[]> =>
+  runRequest<QuarantinedRecord[]>(QUARANTINE_STORE, 'readonly', store => store.getAll());
+
+export const discardQuarantined = async (key: number): Promise<void> => {
+  await runRequest(QUARANTINE_STORE, 'readwrite', store => store.delete(key));
+};
+
+/**
+ * Tries the quarantined records again, e.g. after an update of the app added a migration for
+ * them, and restores the ones that now load. Returns how many were restored.
+ */
+export const retryQuarantined = async (): Promise<number> => {
+  const entries = await listQuarantine();
+  const restored = entries.flatMap(entry => {
+    const result = upgradeRecord(entry.kind, entry.record);
+    return result.ok && entry.key !== undefined ? [{ key: entry.key, kind: entry.kind, record: result.record }] : [];
+  });
+  if (restored.length === 0) return 0;
+  await runTransaction([MATERIALS_STORE, QUIZZES_STORE, COURSES_STORE, QUARANTINE_STORE], stores => {
+    restored.forEach(({ key, kind, record }) => {
+      stores[STORE_FOR_KIND[kind]].put(stampRecord(record));
+      stores[QUARANTINE_STORE].delete(key);
+    });
+  });
+  return restored.length;
+};
+
+/** What a record looked like when it was last synced, used to tell changes made here from changes made elsewhere. */
+export interface SyncRecordState {
+  key: string; // `${kind}:${id}`
+  kind: RecordKind;
+  id: string;
+  hash: string; // Content hash of the record as it was last synced
+  syncedAt: string;
+}
+
+export const listSyncStates = (): Promise<SyncRecordState[]> =>
+  runRequest<SyncRecordState[]>(SYNC_STATE_STORE, 'readonly', store => store.getAll());
+
+/** The local side of a sync: records pulled from the server, records it deleted, and the new sync state. */
+export interface SyncedChanges {
+  pulled: { kind: RecordKind; record: StudyMaterial | Quiz | Course }[];
+  removed: { kind: RecordKind; id: string }[];
+  states: SyncRecordState[];
+  clearedStateKeys: string[];
+}
+
+/**
+ * Stores the outcome of a sync in one transaction, so the library and its sync state cannot
+ * disagree, then releases the assets that replaced or removed materials no longer need.
+ */
+export const saveSyncedChanges = async ({ pulled, removed, states, clearedStateKeys }: SyncedChanges, replaced: StudyMaterial[]): Promise<void> => {
+  await runTransaction([MATERIALS_STORE, QUIZZES_STORE, COURSES_STORE, SYNC_STATE_STORE], stores => {
+    pulled.forEach(({ kind, record }) => stores[STORE_FOR_KIND[kind]].put(stampRecord(record)));
+    removed.forEach(({ kind, id }) => stores[STORE_FOR_KIND[kind]].delete(id));
+    states.forEach(state => stores[SYNC_STATE_STORE].put(state));
+    clearedStateKeys.forEach(key => stores[SYNC_STATE_STORE].delete(key));
+  });
+  const pulledMaterials = new Map(pulled.filter(({ kind }) => kind === 'material').map(({ record }) => [record.id, record as StudyMaterial]));
+  await Promise.all(replaced.map(previous => releaseUnusedAssets(previous, pulledMaterials.get(previous.id) || {})));
+};
+
+/** Reads a list saved by an earlier version; text that is not a JSON list is quarantined whole. */
+const parseLegacyList = (key: string, kind: RecordKind): { records: unknown[]; rejected: QuarantinedRecord[] } => {
+  const raw = localStorage.getItem(key);
+  if (!raw) return { records: [], rejected: [] };
+  try {
+    const parsed = JSON.parse(raw);
+    if (Array.isArray(parsed)) return { records: parsed, rejected: [] };
+    return { records: [], rejected: [quarantineEntry(kind, parsed, `The saved ${key} list is not a list.`)] };
+  } catch (error) {
+    console.error(`Failed to parse ${key} from localStorage; it will be quarantined:`, error);
+    return { records: [], rejected: [quarantineEntry(kind, raw, `The saved ${key} list is not valid JSON.`)] };
+  }
+};
+
+let legacyMigration: Promise<boolean> | null = null;
+
+/**
+ * Moves materials and quizzes saved by earlier versions from localStorage into IndexedDB, once.
+ * Records that cannot be upgraded are quarantined rather than dropped. The localStorage keys are
+ * removed only after everything has been stored, so an interrupted migration is simply retried on
+ * the next start.
+ */
+export const migrateLegacyStorage = (): Promise<boolean> => {
+  if (!legacyMigration) {
+    legacyMigration = (async () => {
+      if (localStorage.getItem(LOCAL_STORAGE_CONTENT_KEY) === null && localStorage.getItem(LOCAL_STORAGE_QUIZZES_KEY) === null) return false;
+
+      const legacyMaterials = parseLegacyList(LOCAL_STORAGE_CONTENT_KEY, 'material');
+      const legacyQuizzes = parseLegacyList(LOCAL_STORAGE_QUIZZES_KEY, 'quiz');
+      const rejected = [...legacyMaterials.rejected, ...legacyQuizzes.rejected];
+
+      const upgradedMaterials: StudyMaterial[] = [];
+      for (const raw of legacyMaterials.records) {
+        const result = upgradeRecord<StudyMaterial>('material', raw);
+        if (result.ok === false) rejected.push(quarantineEntry('material', raw, result.reason));
+        else upgradedMaterials.push(result.record);
+      }
+      const quizzes: Quiz[] = [];
+      for (const raw of legacyQuizzes.records) {
+        const result = upgradeRecord<Quiz>('quiz', raw);
+        if (result.ok === false) rejected.push(quarantineEntry('quiz', raw, result.reason));
+        else quizzes.push(result.record);
+      }
+
+      const materials: StudyMaterial[] = [];
+      const originals: StudyMaterial[] = [];
+      for (const material of upgradedMaterials) {
+        try {
+          materials.push(await externalizeMaterialAssets(material));
+          originals.push(material);
+        } catch (error) {
+          rejected.push(quarantineEntry('material', material, `Its images could not be stored: ${error instanceof Error ? error.message : String(error)}`));
+        }
+      }
+
+      try {
+        await runTransaction([MATERIALS_STORE, QUIZZES_STORE, QUARANTINE_STORE], stores => {
+          materials.forEach(material => stores[MATERIALS_STORE].put(stampRecord(material)));
+          quizzes.forEach(quiz => stores[QUIZZES_STORE].put(stampRecord(quiz)));
+          rejected.forEach(entry => stores[QUARANTINE_STORE].add(entry));
+        });
+      } catch (error) {
+        // Only the images extracted above are removed; recordings were already in the asset store.
+        const orphanedAssets = materials.flatMap((material, i) => {
+          const existing = collectAssetIds(originals[i]);
+          return Array.from(collectAssetIds(material)).filter(id => !existing.has(id));
+        });
+        await Promise.all(orphanedAssets.map(id => deleteAsset(id).catch(() => undefined)));
+        throw error;
+      }
+
+      localStorage.removeItem(LOCAL_STORAGE_CONTENT_KEY);
+      localStorage.removeItem(LOCAL_STORAGE_QUIZZES_KEY);
+      console.info(`Moved ${materials.length} study materials and ${quizzes.length} quizzes from localStorage to IndexedDB` +
+        (rejected.length > 0 ? `; ${rejected.length} records were quarantined.` : '.'));
+      return true;
+    })().catch(error => {
+      legacyMigration = null;
+      throw error;
+    });
+  }
+  return legacyMigration;
+};
+
+/** A message for the user when the library could not be read or written. */
+export const describeStorageError = (error: unknown): string => {
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return "Your browser's storage is full, so recent changes were not saved. Free up space by removing materials you no longer need.";
+  }
+  return "Recent changes could not be saved to this browser's storage. They will be lost when the page is closed.";
+};
@@ -0,0 +1,255 @@
+import { GroundingSource } from '../types';
+
+export type LlmProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+/** The subset of JSON Schema that every provider can turn into structured output. */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+  description?: string;
+}
+
+/** Part of a prompt: text, or media sent inline as base64 or, when it is large, as a file. */
+export type PromptPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }
+  | { file: Blob; mimeType: string };
+
+/** The tokens a request was billed for, as the provider reports them. */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number; // Including any thinking tokens
+}
+
+export interface GenerateRequest {
+  prompt: string | PromptPart[];
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  onProgress?: (progress: string) => void; // Reports slow steps such as uploading a recording
+  onText?: (text: string) => void; // Streams a text reply: receives the text generated so far each time it grows
+  signal?: AbortSignal; // Stops the request; a streamed reply then resolves with the text generated so far
+  onUsage?: (usage: TokenUsage) => void; // Called once the reply is complete, if the provider reports usage
+}
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface ChatReply {
+  text: string;
+  groundingSources?: GroundingSource[];
+}
+
+export interface ChatSendOptions {
+  useWebSearch?: boolean;
+  onText?: (text: string) => void;
+  signal?: AbortSignal;
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface ChatSession {
+  sendMessage(message: string, options?: ChatSendOptions): Promise<ChatReply>;
+}
+
+/**
+ * A language model backend. The study features only talk to this interface, so the material
+ * can be sent to whichever vendor or local model server a school allows.
+ */
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  readonly label: string;
+  readonly model: string; // The text model answering, e.g. to tell cached responses of different models apart
+  readonly isConfigured: boolean; // False while required settings, such as an API key, are missing
+  readonly supportsWebSearch: boolean;
+  generateText(request: GenerateRequest): Promise<string>;
+  /**
+   * Generates JSON for the schema. Rejects with a StructuredOutputError if the reply is not JSON;
+   * whether it follows the schema is for the caller to check, with validateJson.
+   */
+  generateJson(request: GenerateRequest, schema: JsonSchema): Promise<unknown>;
+  startChat(systemInstruction: string, history?: ChatMessage[]): ChatSession;
+  /** Generates one image as a data URL; resolves with null if the provider does not make images. */
+  generateImage(prompt: string, options?: { aspectRatio?: '16:9' | '1:1'; signal?: AbortSignal }): Promise<string | null>;
+}
+
+/**
+ * Raised by providers that talk HTTP when the server answers with an error status. The status
+ * is kept so rate limits (429) and unavailable servers (503) can be retried, after the delay
+ * the server asked for in its Retry-After header when it sent one.
+ */
+export class LlmHttpError extends Error {
+  status: number;
+  retryAfterMs?: number;
+
+  constructor(status: number, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'LlmHttpError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** Reads a Retry-After header, given either in seconds or as an HTTP date. */
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Why an AI request failed, by what the user can do about it: set up the provider, wait for the
+ * quota or raise the budget, change the material the safety filters blocked, check the connection,
+ * ask again for a reply that could not be used, or add more material.
+ */
+export type AiErrorKind = 'missing-key' | 'quota' | 'safety' | 'network' | 'invalid-output' | 'too-short' | 'unknown';
+
+const AI_ERROR_MESSAGES: Record<AiErrorKind, string> = {
+  'missing-key': 'The AI provider is not set up: its API key is missing or was not accepted.',
+  quota: "The AI service's usage limit has been reached for now.",
+  safety: "The AI service declined to answer because of its safety filters.",
+  network: 'The AI service could not be reached.',
+  'invalid-output': 'The AI service returned a reply that could not be used.',
+  'too-short': 'The material is too short to generate from.',
+  unknown: 'The AI service could not complete the request.',
+};
+
+/**
+ * A failed AI request. Every study service call rejects with one, or with an AbortError when it
+ * was stopped, so pages can offer the matching way out instead of showing or saving a message
+ * in place of the content. The message is safe to show to the user.
+ */
+export class AiServiceError extends Error {
+  kind: AiErrorKind;
+
+  constructor(kind: AiErrorKind, message: string = AI_ERROR_MESSAGES[kind], cause?: unknown) {
+    super(message, { cause });
+    this.name = 'AiServiceError';
+    this.kind = kind;
+  }
+}
+
+/** Classifies an error thrown by a provider, the SDK it uses or the network. */
+export const toAiServiceError = (error: unknown): AiServiceError => {
+  if (error instanceof AiServiceError) return error;
+  const status = (error as any)?.status;
+  const text = String((error as any)?.message || error);
+  if (status === 401 || status === 403 || /API[_ ]?key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(text)) return new AiServiceError('missing-key', undefined, error);
+  if (status === 429 || /\b429\b|RESOURCE_EXHAUSTED|quota/i.test(text)) return new AiServiceError('quota', undefined, error);
+  if (error instanceof TypeError || status >= 500 || /\b50[0-4]\b|UNAVAILABLE|DEADLINE_EXCEEDED|network|fetch/i.test(text)
+    || (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+    return new AiServiceError('network', undefined, error);
+  }
+  return new AiServiceError('unknown', `${AI_ERROR_MESSAGES.unknown} ${text}`, error);
+};
+
+/** A part of a structured reply that does not fit the expected shape. */
+export interface FieldError {
+  path: string; // E.g. "slides[2].title"; empty for the reply as a whole
+  message: string; // E.g. "is missing"
+}
+
+const MAX_FIELD_ERRORS_IN_MESSAGE = 3;
+
+export const formatFieldError = ({ path, message }: FieldError) => `${path || 'The reply'} ${message}`;
+
+/**
+ * Raised when a structured reply is not JSON or does not have the expected shape. The field errors
+ * name what was wrong; they are also what the model is shown when asked to correct its reply.
+ */
+export class StructuredOutputError extends AiServiceError {
+  fieldErrors: FieldError[];
+  responseText: string; // The rejected reply
+
+  constructor(fieldErrors: FieldError[], responseText: string) {
+    const shown = fieldErrors.slice(0, MAX_FIELD_ERRORS_IN_MESSAGE).map(formatFieldError).join('; ');
+    const more = fieldErrors.length - MAX_FIELD_ERRORS_IN_MESSAGE;
+    super('invalid-output', `The AI service returned an unusable reply: ${shown}${more > 0 ? ` (and ${more} more)` : ''}.`);
+    this.name = 'StructuredOutputError';
+    this.fieldErrors = fieldErrors;
+    this.responseText = responseText;
+  }
+}
+
+/** Checks a parsed reply against a schema, naming every field that is missing or of the wrong kind. */
+export const validateJson = (value: unknown, schema: JsonSchema, path = ''): FieldError[] => {
+  const at = (key: string | number) => typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return [{ path, message: 'should be an object' }];
+      const record = value as Record<string, unknown>;
+      const isPresent = (key: string) => record[key] !== undefined && record[key] !== null;
+      return [
+        ...(schema.required || []).filter(key => !isPresent(key)).map(key => ({ path: at(key), message: 'is missing' })),
+        ...Object.entries(schema.properties || {}).filter(([key]) => isPresent(key)).flatMap(([key, property]) => validateJson(record[key], property, at(key))),
+      ];
+    }
+    case 'array':
+      if (!Array.isArray(value)) return [{ path, message: 'should be a list' }];
+      return schema.items ? value.flatMap((item, i) => validateJson(item, schema.items!, at(i))) : [];
+    case 'integer':
+      return Number.isInteger(value) ? [] : [{ path, message: 'should be a whole number' }];
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? [] : [{ path, message: 'should be a number' }];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [{ path, message: 'should be true or false' }];
+    default:
+      if (typeof value !== 'string') return [{ path, message: 'should be text' }];
+      return schema.enum && !schema.enum.includes(value) ? [{ path, message: `should be one of ${schema.enum.join(', ')}` }] : [];
+  }
+};
+
+export const createAbortError = () => new DOMException('The request was stopped.', 'AbortError');
+
+/**
+ * Reads a streamed reply, reporting the text so far after every chunk. When the signal stops the
+ * stream, the text received until then is the result rather than an error.
+ */
+export const collectStream = async (chunks: AsyncIterable<string>, onText: (text: string) => void, signal?: AbortSignal): Promise<string> => {
+  let text = '';
+  try {
+    for await (const chunk of chunks) {
+      if (signal?.aborted) break;
+      if (!chunk) continue;
+      text += chunk;
+      onText(text);
+    }
+  } catch (error) {
+    if (!signal?.aborted) throw error;
+  }
+  return text;
+};
+
+/**
+ * Reads the JSON in a reply, which models sometimes wrap in a Markdown code fence or surround with
+ * a sentence of their own. Throws a StructuredOutputError if there is none.
+ */
+export const parseJsonFromText = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*\n?([\s\S]*?)\n?\s*```/);
+  let json = (fenced ? fenced[1] : text).trim();
+  const start = json.search(/[[{]/);
+  if (start > 0) json = json.slice(start, Math.max(json.lastIndexOf('}'), json.lastIndexOf(']')) + 1);
+
+  try {
+    return JSON.parse(json);
+  } catch (error: any) {
+    throw new StructuredOutputError([{ path: '', message: `is not valid JSON (${error.message})` }], text);
+  }
+};
+
+export const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve((reader.result as string).split(',')[1] || '');
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+/** The text of a prompt, without its media parts. */
+export const getPromptText = (prompt: GenerateRequest['prompt']): string =>
+  typeof prompt === 'string' ? prompt : prompt.map(part => 'text' in part ? part.text : '').filter(Boolean).join('\n');
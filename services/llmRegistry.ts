@@ -0,0 +1,52 @@
+import { LOCAL_STORAGE_LLM_SETTINGS_KEY } from '../constants';
+import { LlmProvider, LlmProviderId } from './llmProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider, OpenAiCompatibleSettings } from './openAiCompatibleProvider';
+import { createMockLlmProvider } from './mockLlmProvider';
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+  openAiCompatible: OpenAiCompatibleSettings;
+}
+
+export const LLM_PROVIDER_OPTIONS: { id: LlmProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', description: "Google's hosted models, using the API key the app was built with. Supports web search in chat and image generation." },
+  { id: 'openai-compatible', label: 'OpenAI-compatible server', description: 'OpenAI, or a model server on your own network such as Ollama, llama.cpp, LM Studio or vLLM.' },
+  { id: 'mock', label: 'Mock (offline)', description: 'Placeholder answers without any AI service. For demos and testing.' },
+];
+
+const DEFAULT_SETTINGS: LlmSettings = {
+  provider: 'gemini',
+  openAiCompatible: { baseUrl: 'http://localhost:11434/v1', apiKey: '', model: '', imageModel: '' },
+};
+
+export const loadLlmSettings = (): LlmSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LOCAL_STORAGE_LLM_SETTINGS_KEY) || '{}');
+    return { ...DEFAULT_SETTINGS, ...saved, openAiCompatible: { ...DEFAULT_SETTINGS.openAiCompatible, ...saved.openAiCompatible } };
+  } catch (error) {
+    console.error("Failed to read the AI provider settings:", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const createLlmProvider = (settings: LlmSettings): LlmProvider => {
+  switch (settings.provider) {
+    case 'openai-compatible': return createOpenAiCompatibleProvider(settings.openAiCompatible);
+    case 'mock': return createMockLlmProvider();
+    default: return createGeminiProvider(process.env.API_KEY);
+  }
+};
+
+let activeProvider: LlmProvider | null = null;
+
+/** The provider chosen in the settings. Generation always goes through it, so a change applies to the next request. */
+export const getLlmProvider = (): LlmProvider => {
+  if (!activeProvider) activeProvider = createLlmProvider(loadLlmSettings());
+  return activeProvider;
+};
+
+export const saveLlmSettings = (settings: LlmSettings) => {
+  localStorage.setItem(LOCAL_STORAGE_LLM_SETTINGS_KEY, JSON.stringify(settings));
+  activeProvider = null;
+};
@@ -0,0 +1,107 @@
+import { LlmProvider, GenerateRequest, JsonSchema, getPromptText, collectStream, createAbortError } from './llmProvider';
+
+// Realistic values for fields whose format the app parses, so every feature can be tried offline.
+const FIELD_VALUES: Record<string, (index: number) => string> = {
+  start: index => `00:${String(index * 10).padStart(2, '0')}`,
+  end: index => `00:${String(index * 10 + 9).padStart(2, '0')}`,
+  speaker: () => 'Speaker 1',
+  difficulty: () => 'Medium',
+};
+
+const MOCK_STREAM_DELAY_MS = 40;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Replies word by word, like a model would stream them. */
+async function* streamWords(text: string) {
+  for (const word of text.split(/(?<=\s)/)) {
+    await sleep(MOCK_STREAM_DELAY_MS);
+    yield word;
+  }
+}
+
+// Roughly four characters per token, so usage accounting can be tried out too.
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const reply = async (text: string, prompt: string, { onText, signal, onUsage }: Pick<GenerateRequest, 'onText' | 'signal' | 'onUsage'>) => {
+  let result = text;
+  if (onText) result = await collectStream(streamWords(text), onText, signal);
+  else if (signal?.aborted) throw createAbortError();
+  onUsage?.({ inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(result) });
+  return result;
+};
+
+/** A small stable hash, so the same prompt always gets the same reply. */
+const hashText = (text: string) => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  return Math.abs(hash);
+};
+
+const summarize = (text: string, length = 60) => {
+  const words = text.replace(/\s+/g, ' ').trim();
+  return words.length > length ? `${words.slice(0, length)}…` : words;
+};
+
+/** Builds a value that follows the schema, with placeholder text named after each field. */
+const buildMockValue = (schema: JsonSchema, name: string, index: number): unknown => {
+  switch (schema.type) {
+    case 'object': {
+      const value: Record<string, unknown> = Object.fromEntries(Object.entries(schema.properties || {}).map(([key, property]) => [key, buildMockValue(property, key, index)]));
+      // Quiz questions: make the answer one of the options so the quiz can be passed.
+      if (Array.isArray(value.options) && typeof value.correctAnswer === 'string') value.correctAnswer = value.options[0];
+      return value;
+    }
+    case 'array':
+      return Array.from({ length: 3 }, (_, i) => buildMockValue(schema.items || { type: 'string' }, name, i + 1));
+    case 'integer':
+    case 'number':
+      return index;
+    case 'boolean':
+      return index % 2 === 1;
+    default:
+      if (schema.enum?.length) return schema.enum[0];
+      return FIELD_VALUES[name]?.(index) ?? `Mock ${name} ${index}`;
+  }
+};
+
+/**
+ * Answers without a network or model, deterministically: the same request always gets the same
+ * reply. Useful for demos, for development without an API key, and for testing the app itself.
+ */
+export const createMockLlmProvider = (): LlmProvider => ({
+  id: 'mock',
+  label: 'Mock (offline)',
+  model: 'mock',
+  isConfigured: true,
+  supportsWebSearch: false,
+
+  generateText: async request => {
+    const text = getPromptText(request.prompt);
+    if (/mermaid/i.test(text)) return reply('```mermaid\ngraph TD\n  A["Mock concept"] --> B["Mock detail"]\n  A --> C["Mock example"]\n```', text, request);
+    return reply(`## Mock response\n\n- This text was generated by the mock provider for a prompt of ${text.length} characters.\n- The prompt begins: "${summarize(text)}"\n- Reply #${hashText(text) % 1000}`, text, request);
+  },
+
+  generateJson: async (request: GenerateRequest, schema: JsonSchema) => {
+    const value = buildMockValue(schema, 'item', 1);
+    request.onUsage?.({ inputTokens: estimateTokens(getPromptText(request.prompt)), outputTokens: estimateTokens(JSON.stringify(value)) });
+    return value;
+  },
+
+  startChat: (_systemInstruction, history = []) => {
+    let turn = history.filter(message => message.role === 'user').length;
+    return {
+      sendMessage: async (message, options = {}) => {
+        turn++;
+        return { text: await reply(`Mock reply ${turn} to "${summarize(message)}".`, message, options) };
+      },
+    };
+  },
+
+  generateImage: async (prompt, options) => {
+    if (options?.signal?.aborted) throw createAbortError();
+    const hue = hashText(prompt) % 360;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1280" height="720"><rect width="100%" height="100%" fill="hsl(${hue},60%,70%)"/><text x="50%" y="50%" font-family="sans-serif" font-size="40" text-anchor="middle" fill="#1f2937">${summarize(prompt, 40).replace(/[<&>]/g, '')}</text></svg>`;
+    return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+  },
+});
@@ -0,0 +1,144 @@
+import { LlmProvider, GenerateRequest, JsonSchema, PromptPart, TokenUsage, LlmHttpError, AiServiceError, parseJsonFromText, parseRetryAfter, blobToBase64, collectStream } from './llmProvider';
+
+export interface OpenAiCompatibleSettings {
+  baseUrl: string; // e.g. http://localhost:11434/v1 for Ollama, http://localhost:8080/v1 for llama.cpp
+  apiKey: string; // Optional for most local servers
+  model: string;
+  imageModel: string; // Leave empty if the server cannot generate images
+}
+
+type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+  | { type: 'input_audio'; input_audio: { data: string; format: string } };
+
+interface Message {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ContentPart[];
+}
+
+const reportUsage = (usage: { prompt_tokens?: number; completion_tokens?: number } | undefined, onUsage?: (usage: TokenUsage) => void) => {
+  if (usage && onUsage) onUsage({ inputTokens: usage.prompt_tokens || 0, outputTokens: usage.completion_tokens || 0 });
+};
+
+/** The server's content filter stopped the reply, or the model refused to answer. */
+const throwIfFiltered = (choice: { finish_reason?: string; message?: { refusal?: string }; delta?: { refusal?: string } } | undefined) => {
+  const refusal = choice?.message?.refusal || choice?.delta?.refusal;
+  if (choice?.finish_reason === 'content_filter' || refusal) {
+    throw new AiServiceError('safety', refusal ? `The model declined to answer: ${refusal}` : undefined);
+  }
+};
+
+const toContentPart = async (part: PromptPart): Promise<ContentPart> => {
+  if ('text' in part) return { type: 'text', text: part.text };
+  const { mimeType, data } = 'file' in part ? { mimeType: part.mimeType, data: await blobToBase64(part.file) } : part.inlineData;
+  if (mimeType.startsWith('audio/')) return { type: 'input_audio', input_audio: { data, format: mimeType.includes('wav') ? 'wav' : 'mp3' } };
+  return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+};
+
+/**
+ * Any server that implements the OpenAI chat completions API: OpenAI itself, or a local model
+ * server such as Ollama, llama.cpp, LM Studio or vLLM, so material never leaves the school.
+ * Images and recordings are only understood by models that accept them.
+ */
+export const createOpenAiCompatibleProvider = ({ baseUrl, apiKey, model, imageModel }: OpenAiCompatibleSettings): LlmProvider => {
+  const send = async (path: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${baseUrl.trim().replace(/\/+$/, '')}/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new LlmHttpError(response.status, `The model server answered ${response.status}${detail ? `: ${detail.slice(0, 300)}` : ''}`, parseRetryAfter(response.headers.get('Retry-After')));
+    }
+    return response;
+  };
+
+  const post = async (path: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<any> => (await send(path, body, signal)).json();
+
+  // Streamed completions arrive as server-sent events, one "data: {json}" line per delta, ending with "data: [DONE]".
+  // The usage comes in a last event without choices.
+  async function* streamDeltas(body: Record<string, unknown>, signal?: AbortSignal, onUsage?: (usage: TokenUsage) => void) {
+    const response = await send('chat/completions', { ...body, stream: true, stream_options: { include_usage: true } }, signal);
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      const lines = (buffer + value).split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice('data:'.length).trim();
+        if (data === '[DONE]') return;
+        const event = JSON.parse(data);
+        reportUsage(event.usage, onUsage);
+        throwIfFiltered(event.choices?.[0]);
+        yield event.choices?.[0]?.delta?.content || '';
+      }
+    }
+  }
+
+  const complete = async (messages: Message[], request: Pick<GenerateRequest, 'temperature' | 'topP' | 'onText' | 'signal' | 'onUsage'> = {}, extra: Record<string, unknown> = {}): Promise<string> => {
+    const body = { model, messages, temperature: request.temperature, top_p: request.topP, ...extra };
+    if (request.onText) return collectStream(streamDeltas(body, request.signal, request.onUsage), request.onText, request.signal);
+    const data = await post('chat/completions', body, request.signal);
+    reportUsage(data.usage, request.onUsage);
+    throwIfFiltered(data.choices?.[0]);
+    return data.choices?.[0]?.message?.content || '';
+  };
+
+  const toUserMessage = async (prompt: GenerateRequest['prompt']): Promise<Message> => ({
+    role: 'user',
+    content: typeof prompt === 'string' ? prompt : await Promise.all(prompt.map(toContentPart)),
+  });
+
+  return {
+    id: 'openai-compatible',
+    label: 'OpenAI-compatible server',
+    model,
+    isConfigured: !!baseUrl.trim() && !!model.trim(),
+    supportsWebSearch: false,
+
+    generateText: async request => complete([await toUserMessage(request.prompt)], request),
+
+    // The schema is also spelled out in the prompt for servers that ignore response_format.
+    generateJson: async (request: GenerateRequest, schema: JsonSchema) => {
+      const instruction = `Reply with JSON only, without any other text, following this JSON Schema:\n${JSON.stringify(schema)}`;
+      const prompt = typeof request.prompt === 'string' ? `${request.prompt}\n\n${instruction}` : [...request.prompt, { text: instruction }];
+      const text = await complete([await toUserMessage(prompt)], { ...request, onText: undefined }, {
+        response_format: { type: 'json_schema', json_schema: { name: 'response', schema } },
+      });
+      return parseJsonFromText(text);
+    },
+
+    startChat: (systemInstruction, history = []) => {
+      const messages: Message[] = [
+        { role: 'system', content: systemInstruction },
+        ...history.map((message): Message => ({ role: message.role === 'model' ? 'assistant' : 'user', content: message.text })),
+      ];
+      return {
+        sendMessage: async (message, options = {}) => {
+          const text = await complete([...messages, { role: 'user', content: message }], options);
+          messages.push({ role: 'user', content: message }, { role: 'assistant', content: text });
+          return { text };
+        },
+      };
+    },
+
+    generateImage: async (prompt, options) => {
+      if (!imageModel.trim()) return null;
+      const data = await post('images/generations', {
+        model: imageModel,
+        prompt,
+        n: 1,
+        size: options?.aspectRatio === '1:1' ? '1024x1024' : '1792x1024',
+        response_format: 'b64_json',
+      }, options?.signal);
+      const image = data.data?.[0]?.b64_json;
+      return image ? `data:image/png;base64,${image}` : null;
+    },
+  };
+};
@@ -0,0 +1,60 @@
+import { LOCAL_STORAGE_OUTPUT_LANGUAGE_KEY } from '../constants';
+
+export interface OutputLanguage {
+  code: string; // BCP 47 language code, matched against speech synthesis voices
+  name: string;
+  nativeName: string;
+}
+
+export const OUTPUT_LANGUAGES: OutputLanguage[] = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी' },
+  { code: 'te', name: 'Telugu', nativeName: 'తెలుగు' },
+  { code: 'ta', name: 'Tamil', nativeName: 'தமிழ்' },
+  { code: 'kn', name: 'Kannada', nativeName: 'ಕನ್ನಡ' },
+  { code: 'ml', name: 'Malayalam', nativeName: 'മലയാളം' },
+  { code: 'mr', name: 'Marathi', nativeName: 'मराठी' },
+  { code: 'bn', name: 'Bengali', nativeName: 'বাংলা' },
+  { code: 'gu', name: 'Gujarati', nativeName: 'ગુજરાતી' },
+  { code: 'ur', name: 'Urdu', nativeName: 'اردو' },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español' },
+  { code: 'fr', name: 'French', nativeName: 'Français' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português' },
+  { code: 'zh', name: 'Chinese', nativeName: '中文' },
+];
+
+const DEFAULT_OUTPUT_LANGUAGE = 'en';
+
+export const getOutputLanguage = (code: string): OutputLanguage =>
+  OUTPUT_LANGUAGES.find(language => language.code === code) || OUTPUT_LANGUAGES[0];
+
+/** E.g. "Hindi (हिन्दी)", or just "English" when both names are the same. */
+export const formatLanguageName = (code: string): string => {
+  const { name, nativeName } = getOutputLanguage(code);
+  return name === nativeName ? name : `${name} (${nativeName})`;
+};
+
+/** The language study content is generated in unless a material chooses its own. */
+export const loadOutputLanguage = (): string => {
+  const saved = localStorage.getItem(LOCAL_STORAGE_OUTPUT_LANGUAGE_KEY);
+  return saved && OUTPUT_LANGUAGES.some(language => language.code === saved) ? saved : DEFAULT_OUTPUT_LANGUAGE;
+};
+
+export const saveOutputLanguage = (code: string) => {
+  localStorage.setItem(LOCAL_STORAGE_OUTPUT_LANGUAGE_KEY, code);
+};
+
+/** The language a material's study content is generated in: its own choice, otherwise the global one. */
+export const resolveOutputLanguage = (material?: { outputLanguage?: string }): string =>
+  material?.outputLanguage || loadOutputLanguage();
+
+/**
+ * Speech synthesis voices that can read the language, voices on the device first: browsers
+ * stop some network voices partway through long narrations.
+ */
+export const findVoicesForLanguage = (voices: SpeechSynthesisVoice[], code: string): SpeechSynthesisVoice[] =>
+  voices
+    .filter(voice => voice.lang.toLowerCase().split(/[-_]/)[0] === code)
+    .sort((a, b) => Number(b.localService) - Number(a.localService));
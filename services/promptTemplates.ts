@@ -0,0 +1,368 @@
+import { LOCAL_STORAGE_PROMPT_TEMPLATES_KEY } from '../constants';
+import { PromptTemplateRef } from '../types';
+
+export type PromptTemplateId =
+  | 'explanation' | 'explanationPreset' | 'summary' | 'notes' | 'sectionNotes' | 'mergedNotes' | 'condense'
+  | 'quiz' | 'quizFeedback' | 'presentation' | 'diagram' | 'videoScript' | 'chat'
+  | 'metadata' | 'pageTranscription' | 'audioTranscription' | 'timestampCitations' | 'sourceCitations'
+  | 'outputLanguage' | 'structuredOutputRepair';
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  label: string;
+  description: string;
+  version: number; // Bump whenever the built-in text changes, so artifacts and cached responses tell the wordings apart
+  variables: Record<string, string>; // What each {{variable}} holds, shown in the editor
+  text: string;
+}
+
+/** An edited template. Resetting removes the text but keeps the version, so later edits never reuse a number. */
+interface PromptTemplateOverride {
+  text?: string;
+  version: number;
+  updatedAt: string;
+}
+
+type OverrideSet = Partial<Record<PromptTemplateId, PromptTemplateOverride>>;
+
+interface PromptTemplateOverrides {
+  global: OverrideSet;
+  courses: Record<string, OverrideSet>; // By course or folder id
+}
+
+export interface ResolvedPromptTemplate {
+  text: string;
+  ref: PromptTemplateRef;
+}
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'explanation',
+    label: 'Explanation',
+    description: 'The explanation generated for every material.',
+    version: 1,
+    variables: { content: 'The study material, condensed first when it is long' },
+    text: `You are an expert teacher. Your goal is to explain the core concepts from the following study material in a clear, simple, and easy-to-understand way.
+Break down complex topics, use analogies if helpful, and structure the explanation logically. Avoid simply rephrasing the text; provide genuine clarification and insight.
+
+Content to explain:
+{{content}}`,
+  },
+  {
+    id: 'explanationPreset',
+    label: 'Explanation audience and style',
+    description: 'Added to the explanation prompt when an explanation variant is generated for a chosen audience and teaching style.',
+    version: 1,
+    variables: { audience: 'Who the explanation is for, e.g. "a high school student: …"', style: 'How to teach it, e.g. the step-by-step instructions' },
+    text: `Write this explanation for {{audience}}. Pitch the vocabulary, depth and examples to them rather than following the general guidance above where the two differ.
+
+Teaching style: {{style}}`,
+  },
+  {
+    id: 'summary',
+    label: 'Summary',
+    description: 'A short summary of a material.',
+    version: 1,
+    variables: { content: 'The study material, condensed first when it is long' },
+    text: `Generate a concise summary (around 100-150 words) of the following content. Focus on the main ideas and key takeaways.
+
+Content:
+{{content}}`,
+  },
+  {
+    id: 'notes',
+    label: 'Notes',
+    description: 'Notes for a material short enough to send in one request.',
+    version: 1,
+    variables: { detail: 'What the chosen note length asks for', content: 'The study material' },
+    text: `Generate notes for the following content. The desired level of detail is: {{detail}}
+
+Content:
+{{content}}`,
+  },
+  {
+    id: 'sectionNotes',
+    label: 'Notes for one section',
+    description: 'Notes for each section of a long material, before they are merged.',
+    version: 1,
+    variables: { label: 'Which section this is, e.g. "Part 2 of 5"', detail: 'What the chosen note length asks for', content: 'The section' },
+    text: `Generate notes for the following section ({{label}}) of a longer document. The desired level of detail is: {{detail}}
+
+Section:
+{{content}}`,
+  },
+  {
+    id: 'mergedNotes',
+    label: 'Merged notes',
+    description: 'Merges the section notes of a long material into one set.',
+    version: 1,
+    variables: { detail: 'What the chosen note length asks for', notes: 'The notes of every section, each under its own heading' },
+    text: `The following are notes taken section by section from one document. Merge them into a single set of notes for the whole document, removing duplication. The desired level of detail is: {{detail}}
+
+Section notes:
+{{notes}}`,
+  },
+  {
+    id: 'condense',
+    label: 'Condensed section',
+    description: 'Shrinks each section of a long material before explanations, summaries, presentations and diagrams are generated from it.',
+    version: 1,
+    variables: { label: 'Which section this is', targetLength: 'The most characters the digest may have', content: 'The section' },
+    text: `Condense the following section ({{label}}) of a longer study document into a dense digest of at most {{targetLength}} characters.
+Keep every key concept, definition, formula, date, name and example; drop repetition and filler. Start with the heading "## {{label}}".
+
+Section:
+{{content}}`,
+  },
+  {
+    id: 'quiz',
+    label: 'Quiz questions',
+    description: 'The questions of a quiz.',
+    version: 1,
+    variables: { count: 'How many questions to ask', sourceInstruction: 'For materials with several sources, how to attribute questions to them; otherwise empty', content: 'The study material or one section of it' },
+    text: `Generate a quiz with exactly {{count}} questions based on the provided content. The quiz should include a mix of multiple-choice (MCQ) and short-answer questions. For MCQs, provide 4 distinct options.{{sourceInstruction}}
+
+Content:
+{{content}}`,
+  },
+  {
+    id: 'quizFeedback',
+    label: 'Quiz feedback',
+    description: 'The feedback shown after a quiz.',
+    version: 1,
+    variables: { score: 'Correct answers', total: 'Number of questions', content: 'The beginning of the study material' },
+    text: `A student just completed a quiz on the following material. They scored {{score}} out of {{total}}.
+Provide some brief, encouraging feedback. If their score is low, gently suggest which areas from the material they might want to review.
+
+Study Material (for context):
+{{content}}...`,
+  },
+  {
+    id: 'presentation',
+    label: 'Presentation',
+    description: 'The slides of a presentation, with a prompt for each slide image.',
+    version: 1,
+    variables: { explanation: "The material's explanation" },
+    text: `Based on the following explanation, create content for a PowerPoint presentation.
+The presentation should have a main title and 5-7 content slides.
+For each slide, provide:
+1. A concise 'title'.
+2. 3-4 'content' bullet points.
+3. A visually descriptive 'imagePrompt' for an AI image generator. The prompt must describe a **professional and minimalist illustration** with a clean aesthetic. The image should be relevant to the slide's content, visually engaging, and suitable for a widescreen (16:9) presentation. **Do not include any text in the image description.**
+
+Explanation:
+{{explanation}}`,
+  },
+  {
+    id: 'diagram',
+    label: 'Block diagram',
+    description: 'A Mermaid diagram of the explanation. The answer must contain a "graph TD" or "graph LR" diagram.',
+    version: 1,
+    variables: { explanation: "The material's explanation" },
+    text: `You are an expert in creating flawless Mermaid.js diagrams. Your task is to create a "graph TD" (top-down) block diagram from the given text.
+
+You MUST follow these rules STRICTLY:
+1.  **SYNTAX:** Use only "graph TD" format.
+2.  **CONCISENESS:** Keep node labels short and to the point. Do not use full sentences.
+3.  **QUOTES ARE MANDATORY:** If a node's text contains ANY special characters (parentheses, commas, dashes, etc.) or spaces, you MUST enclose the entire text in double quotes.
+    -   CORRECT: \`A["Node with (details)"] --> B["Another, one"]\`
+    -   INCORRECT: \`A[Node with (details)] --> B[Another, one]\`
+4.  **CONNECTIONS:** All connections must be complete using \`-->\`. Do not leave dangling arrows or use other arrow types.
+5.  **NO SUBGRAPHS:** Do not use the \`subgraph\` keyword. Keep the diagram simple.
+6.  **FINAL OUTPUT:** Enclose the final, complete Mermaid code in a single markdown code block like \`\`\`mermaid ... \`\`\`.
+
+Explanation to visualize:
+{{explanation}}`,
+  },
+  {
+    id: 'videoScript',
+    label: 'Video script',
+    description: 'The narration and image prompt of each video scene.',
+    version: 1,
+    variables: { explanation: "The material's explanation" },
+    text: `You are an expert educator and creative director. Your task is to turn the following educational text into a script for a short, engaging video (around 1-2 minutes). Break it down into exactly 5 key scenes.
+
+For each scene, provide:
+1.  A concise "script" for the voice-over narration. Each script should be 2-3 sentences long.
+2.  A detailed, visually rich "imagePrompt" for an AI image generator. The prompt must describe a **cinematic and photorealistic image** that is visually stunning. Describe the style (e.g., dramatic lighting, soft focus), composition, and content clearly. The image must be relevant to the script and suitable for a widescreen educational video. **Do not include any text in the image description.**
+
+Educational Text:
+{{explanation}}`,
+  },
+  {
+    id: 'chat',
+    label: 'Chat assistant',
+    description: 'The instructions the study chat answers by.',
+    version: 1,
+    variables: { title: "The material's title", topic: 'Its topic', subject: 'Its subject', content: 'The passages of the material most relevant to the question' },
+    text: `You are Ameena AI, a friendly and expert study assistant. The user is currently studying the following material titled "{{title}}". Topic: {{topic}}. Subject: {{subject}}.
+
+Refer to this content when answering, but do not mention it explicitly unless asked. Be helpful, encouraging, and clear.
+
+---
+STUDY MATERIAL (the passages most relevant to the question):
+{{content}}
+---`,
+  },
+  {
+    id: 'metadata',
+    label: 'Title and subject suggestions',
+    description: 'Suggests the title, subject, topic and difficulty of a new material.',
+    version: 1,
+    variables: { content: 'The beginning of the material' },
+    text: `Analyze the following content and suggest metadata.
+- title: A concise, descriptive title.
+- subject: The main academic or professional subject (e.g., Biology, Computer Science, History).
+- topic: The specific topic within the subject (e.g., Photosynthesis, Data Structures, World War II).
+- difficulty: Choose one: 'Easy', 'Medium', or 'Hard'.
+
+Content: "{{content}}..."`,
+  },
+  {
+    id: 'pageTranscription',
+    label: 'Page transcription',
+    description: 'Reads the text of uploaded images and scanned PDF pages.',
+    version: 1,
+    variables: { source: '"scanned pages" or "an image"', pageInstruction: 'How to mark page breaks' },
+    text: `You are transcribing study material from {{source}} into plain text.
+- Transcribe ALL readable text exactly as written, preserving headings, paragraphs and list structure.
+- Write mathematical expressions and equations in LaTeX, wrapped in $...$ (inline) or $$...$$ (display).
+- Reproduce tables as Markdown tables.
+- Describe diagrams, charts and figures briefly in square brackets, e.g. [Diagram: the water cycle with labelled stages].
+- Do not summarize, explain or add commentary. If nothing is readable, reply with [No readable text].
+{{pageInstruction}}`,
+  },
+  {
+    id: 'audioTranscription',
+    label: 'Audio transcription',
+    description: 'Transcribes lecture recordings into timestamped segments.',
+    version: 1,
+    variables: {},
+    text: `Transcribe this lecture recording verbatim, in the language spoken.
+Split the transcript into segments of one to three sentences. Start a new segment whenever the speaker changes.
+For each segment, provide:
+1. 'start' and 'end': the time in the recording as MM:SS (or H:MM:SS past the first hour).
+2. 'speaker': a consistent label for who is speaking. Use the person's name if they are introduced, otherwise "Speaker 1", "Speaker 2", etc.
+3. 'text': exactly what was said, with punctuation. Omit filler sounds such as "um" and "uh".`,
+  },
+  {
+    id: 'timestampCitations',
+    label: 'Timestamp citations',
+    description: 'Added to prompts about a transcript, so answers cite the moment in the recording.',
+    version: 1,
+    variables: {},
+    text: `The content is a transcript where each line starts with a [mm:ss] timestamp. When you refer to something said in the recording, cite the moment it is discussed using the same bracketed format, e.g. [04:35]. Only cite timestamps that appear in the transcript.`,
+  },
+  {
+    id: 'sourceCitations',
+    label: 'Source citations',
+    description: 'Added to prompts about a material with several sources, so answers cite the source.',
+    version: 1,
+    variables: {},
+    text: `The content combines several sources, each starting with a header such as "=== Source 2: slides.pdf ===". Attribute every point to the source it comes from with a bracketed citation such as [S2]. When the source is a transcript with [mm:ss] timestamps, cite the moment as well, e.g. [S1 04:35]. Only cite sources and timestamps that appear in the content.`,
+  },
+  {
+    id: 'outputLanguage',
+    label: 'Output language',
+    description: 'Added to prompts for study content, chat answers and quiz feedback, so they are written in the chosen language whatever language the material is in.',
+    version: 1,
+    variables: { language: 'The chosen language, e.g. "Hindi (हिन्दी)"' },
+    text: `Write your whole answer in {{language}}, even where the material is in another language. Translate the ideas faithfully, and keep established technical terms, formulas and names recognizable, adding the original term in brackets where it helps. Keep Markdown, diagram code, JSON field names and fixed values such as "mcq" unchanged, and write any image prompts in English.`,
+  },
+  {
+    id: 'structuredOutputRepair',
+    label: 'Structured reply correction',
+    description: 'Added to a request for quiz questions, slides, video scenes or other structured data when the reply could not be used, to ask for a corrected one.',
+    version: 1,
+    variables: { errors: 'What was wrong with the reply, one field per line', response: 'The rejected reply' },
+    text: `Your previous reply to this request could not be used:
+{{errors}}
+
+Your previous reply was:
+{{response}}
+
+Answer the request again in full, as JSON that fixes every problem listed above.`,
+  },
+];
+
+const TEMPLATES_BY_ID = new Map(PROMPT_TEMPLATES.map(template => [template.id, template]));
+
+export const getPromptTemplate = (id: PromptTemplateId): PromptTemplate => TEMPLATES_BY_ID.get(id)!;
+
+const loadOverrides = (): PromptTemplateOverrides => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LOCAL_STORAGE_PROMPT_TEMPLATES_KEY) || '{}');
+    return { global: saved.global || {}, courses: saved.courses || {} };
+  } catch (error) {
+    console.error("Failed to read the prompt templates:", error);
+    return { global: {}, courses: {} };
+  }
+};
+
+const saveOverrides = (overrides: PromptTemplateOverrides) => {
+  localStorage.setItem(LOCAL_STORAGE_PROMPT_TEMPLATES_KEY, JSON.stringify(overrides));
+};
+
+const overridesFor = (overrides: PromptTemplateOverrides, courseId?: string): OverrideSet =>
+  courseId ? overrides.courses[courseId] || {} : overrides.global;
+
+/** The edited text for all courses (no courseId) or for one course, or undefined while the template is not edited there. */
+export const getPromptTemplateOverride = (id: PromptTemplateId, courseId?: string): { text: string; version: number; updatedAt: string } | undefined => {
+  const override = overridesFor(loadOverrides(), courseId)[id];
+  return override?.text !== undefined ? { text: override.text, version: override.version, updatedAt: override.updatedAt } : undefined;
+};
+
+/** Ids of the courses that have edited templates of their own. */
+export const getCoursesWithPromptTemplates = (): string[] =>
+  Object.entries(loadOverrides().courses).filter(([, set]) => Object.values(set).some(override => override?.text !== undefined)).map(([courseId]) => courseId);
+
+/** Saves an edited template as its next version, for all courses or for one course and the folders inside it. */
+export const savePromptTemplate = (id: PromptTemplateId, text: string, courseId?: string) => {
+  const overrides = loadOverrides();
+  const set = overridesFor(overrides, courseId);
+  set[id] = { text, version: (set[id]?.version || 0) + 1, updatedAt: new Date().toISOString() };
+  if (courseId) overrides.courses[courseId] = set;
+  saveOverrides(overrides);
+};
+
+/** Goes back to the built-in text, or for a course to the template used for all courses. */
+export const resetPromptTemplate = (id: PromptTemplateId, courseId?: string) => {
+  const overrides = loadOverrides();
+  const override = overridesFor(overrides, courseId)[id];
+  if (!override) return;
+  override.text = undefined;
+  override.updatedAt = new Date().toISOString();
+  saveOverrides(overrides);
+};
+
+/**
+ * The template in effect for a material: the version edited for its folder or the nearest course
+ * containing it, otherwise the version edited for all courses, otherwise the built-in one.
+ */
+export const resolvePromptTemplate = (id: PromptTemplateId, courseIds: string[] = []): ResolvedPromptTemplate => {
+  const overrides = loadOverrides();
+  for (const courseId of courseIds) {
+    const override = overrides.courses[courseId]?.[id];
+    if (override?.text !== undefined) return { text: override.text, ref: { templateId: id, version: override.version, customized: true, courseId } };
+  }
+  const override = overrides.global[id];
+  if (override?.text !== undefined) return { text: override.text, ref: { templateId: id, version: override.version, customized: true } };
+  const template = getPromptTemplate(id);
+  return { text: template.text, ref: { templateId: id, version: template.version, customized: false } };
+};
+
+/** Fills in {{variables}}. Placeholders without a value are left as they are. */
+export const renderPromptTemplate = (text: string, values: Record<string, string | number>): string =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name) => name in values ? String(values[name]) : placeholder);
+
+/** Placeholders in an edited text that the template does not provide. */
+export const findUnknownVariables = (id: PromptTemplateId, text: string): string[] => {
+  const variables = getPromptTemplate(id).variables;
+  return Array.from(new Set(Array.from(text.matchAll(/\{\{\s*(\w+)\s*\}\}/g), match => match[1]))).filter(name => !(name in variables));
+};
+
+/** E.g. "Explanation v1" or "Explanation, custom v3". */
+export const describePromptTemplateRef = (ref: PromptTemplateRef): string => {
+  const label = TEMPLATES_BY_ID.get(ref.templateId as PromptTemplateId)?.label || ref.templateId;
+  return ref.customized ? `${label}, custom v${ref.version}` : `${label} v${ref.version}`;
+};
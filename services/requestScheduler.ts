@@ -0,0 +1,112 @@
+import { createAbortError } from './llmProvider';
+
+export interface RequestSchedulerOptions {
+  maxConcurrent: number; // Requests in flight at the same time
+  requestsPerMinute: number; // Token bucket refill rate
+  burst: number; // Token bucket size: requests that may start back to back after a quiet period
+  maxAttempts: number;
+  initialRetryDelayMs: number; // Doubled after every retry the server gives no retry-after for
+}
+
+export interface ScheduleOptions {
+  signal?: AbortSignal; // Removes the request from the queue, or stops it while it runs
+  maxAttempts?: number;
+  onRetry?: (attempt: number, delayMs: number) => void;
+}
+
+export interface RequestScheduler {
+  schedule<T>(task: () => Promise<T>, options?: ScheduleOptions): Promise<T>;
+}
+
+const RETRYABLE_STATUSES = [429, 503];
+
+export const isRetryableError = (error: any): boolean => {
+  if (error?.name === 'AbortError') return false;
+  if (RETRYABLE_STATUSES.includes(error?.status)) return true;
+  return /\b(429|503)\b|RESOURCE_EXHAUSTED|UNAVAILABLE/.test(String(error?.message || ''));
+};
+
+/**
+ * How long the server asked us to wait: the Retry-After header kept on LlmHttpError, or the
+ * RetryInfo "retryDelay" Gemini includes in the body of a 429. Null if the server did not say.
+ */
+export const getRetryAfterMs = (error: any): number | null => {
+  if (typeof error?.retryAfterMs === 'number') return error.retryAfterMs;
+  const match = String(error?.message || '').match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+};
+
+/**
+ * Queues requests so that at most maxConcurrent run at once and no more than requestsPerMinute
+ * start, and retries rate-limited requests. A 429 or 503 pauses the whole queue, since the
+ * provider's limit applies to every request, for as long as the server asked or with exponential
+ * backoff otherwise.
+ */
+export const createRequestScheduler = ({ maxConcurrent, requestsPerMinute, burst, maxAttempts, initialRetryDelayMs }: RequestSchedulerOptions): RequestScheduler => {
+  const waiting: (() => void)[] = [];
+  let active = 0;
+  let tokens = burst;
+  let lastRefill = Date.now();
+  let pausedUntil = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(burst, tokens + (now - lastRefill) * requestsPerMinute / 60000);
+    lastRefill = now;
+  };
+
+  const pump = () => {
+    if (timer) { clearTimeout(timer); timer = null; }
+    while (waiting.length > 0 && active < maxConcurrent) {
+      const now = Date.now();
+      if (now < pausedUntil) { timer = setTimeout(pump, pausedUntil - now); return; }
+      refill();
+      if (tokens < 1) { timer = setTimeout(pump, Math.ceil((1 - tokens) * 60000 / requestsPerMinute)); return; }
+      tokens -= 1;
+      active++;
+      waiting.shift()!();
+    }
+  };
+
+  const acquire = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) { reject(createAbortError()); return; }
+    const start = () => { signal?.removeEventListener('abort', onAbort); resolve(); };
+    const onAbort = () => {
+      const index = waiting.indexOf(start);
+      if (index >= 0) waiting.splice(index, 1);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    waiting.push(start);
+    pump();
+  });
+
+  const release = () => {
+    active--;
+    pump();
+  };
+
+  return {
+    schedule: async <T,>(task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> => {
+      const { signal, onRetry } = options;
+      const attempts = options.maxAttempts ?? maxAttempts;
+      let delay = initialRetryDelayMs;
+      for (let attempt = 1; ; attempt++) {
+        await acquire(signal);
+        try {
+          return await task();
+        } catch (error) {
+          if (signal?.aborted || attempt >= attempts || !isRetryableError(error)) throw error;
+          const wait = getRetryAfterMs(error) ?? delay;
+          delay *= 2;
+          pausedUntil = Math.max(pausedUntil, Date.now() + wait);
+          onRetry?.(attempt, wait);
+          console.warn(`Rate limit or transient error hit. Retrying in ${wait / 1000}s... (Attempt ${attempt + 1}/${attempts})`);
+        } finally {
+          release();
+        }
+      }
+    },
+  };
+};
@@ -0,0 +1,117 @@
+import { LOCAL_STORAGE_RESPONSE_CACHE_STATS_KEY } from '../constants';
+import { RESPONSE_CACHE_STORE, runRequest, runTransaction } from './libraryDb';
+import { hashValue } from './hashing';
+
+export const RESPONSE_CACHE_MAX_BYTES = 20 * 1024 * 1024; // Least recently used responses are evicted beyond this
+
+interface CachedResponse {
+  key: string;
+  value: unknown;
+  size: number; // Bytes of the value as JSON
+  template: string;
+  model: string;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+/** Everything that determines a response. Two requests that agree on all of it get the cached answer. */
+export interface ResponseCacheKey {
+  provider: string;
+  model: string;
+  template: string;
+  templateVersion: string;
+  params: Record<string, unknown>; // Sampling parameters and, for structured output, the schema
+  input: unknown; // The prompt; only its hash goes into the key
+}
+
+export interface ResponseCacheStats {
+  entries: number;
+  bytes: number;
+  hits: number;
+  misses: number;
+  since: string; // When the hit and miss counts were last reset
+}
+
+interface LookupCounts {
+  hits: number;
+  misses: number;
+  since: string;
+}
+
+const loadLookupCounts = (): LookupCounts => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LOCAL_STORAGE_RESPONSE_CACHE_STATS_KEY) || 'null');
+    if (saved) return saved;
+  } catch (error) {
+    console.error("Failed to read the response cache statistics:", error);
+  }
+  return { hits: 0, misses: 0, since: new Date().toISOString() };
+};
+
+const countLookup = (hit: boolean) => {
+  const counts = loadLookupCounts();
+  if (hit) counts.hits++; else counts.misses++;
+  localStorage.setItem(LOCAL_STORAGE_RESPONSE_CACHE_STATS_KEY, JSON.stringify(counts));
+};
+
+export const computeResponseCacheKey = async ({ input, ...request }: ResponseCacheKey): Promise<string> =>
+  hashValue({ ...request, input: await hashValue(input) });
+
+/** The cached response, or undefined. A cache that cannot be read counts as a miss rather than failing the generation. */
+export const getCachedResponse = async <T,>(key: string): Promise<T | undefined> => {
+  try {
+    const entry = await runRequest<CachedResponse | undefined>(RESPONSE_CACHE_STORE, 'readonly', store => store.get(key));
+    countLookup(!!entry);
+    if (!entry) return undefined;
+    runRequest(RESPONSE_CACHE_STORE, 'readwrite', store => store.put({ ...entry, lastUsedAt: new Date().toISOString() }))
+      .catch(error => console.warn("Failed to update the response cache:", error));
+    return entry.value as T;
+  } catch (error) {
+    console.warn("Failed to read the response cache:", error);
+    return undefined;
+  }
+};
+
+/** Stores a response, then evicts the least recently used ones while the cache is over its size limit. */
+export const putCachedResponse = async (key: string, value: unknown, details: Pick<CachedResponse, 'template' | 'model'>): Promise<void> => {
+  const size = new TextEncoder().encode(JSON.stringify(value)).length;
+  if (size > RESPONSE_CACHE_MAX_BYTES) return;
+  const now = new Date().toISOString();
+  try {
+    await runTransaction([RESPONSE_CACHE_STORE], stores => {
+      const store = stores[RESPONSE_CACHE_STORE];
+      store.put({ key, value, size, ...details, createdAt: now, lastUsedAt: now } satisfies CachedResponse);
+
+      const entries: { key: IDBValidKey; size: number }[] = [];
+      const cursorRequest = store.index('lastUsedAt').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor) {
+          entries.push({ key: cursor.primaryKey, size: (cursor.value as CachedResponse).size });
+          cursor.continue();
+          return;
+        }
+        let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+        for (const entry of entries) {
+          if (total <= RESPONSE_CACHE_MAX_BYTES) break;
+          store.delete(entry.key);
+          total -= entry.size;
+        }
+      };
+    });
+  } catch (error) {
+    console.warn("Failed to store the response in the cache:", error);
+  }
+};
+
+export const getResponseCacheStats = async (): Promise<ResponseCacheStats> => {
+  const entries = await runRequest<CachedResponse[]>(RESPONSE_CACHE_STORE, 'readonly', store => store.getAll());
+  const { hits, misses, since } = loadLookupCounts();
+  return { entries: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.size, 0), hits, misses, since };
+};
+
+/** Removes every cached response and restarts the hit and miss counts. */
+export const clearResponseCache = async (): Promise<void> => {
+  await runRequest(RESPONSE_CACHE_STORE, 'readwrite', store => store.clear());
+  localStorage.removeItem(LOCAL_STORAGE_RESPONSE_CACHE_STATS_KEY);
+};
@@ -0,0 +1,209 @@
+import { StudyMaterial, Quiz, Course, MaterialSource, SourceType } from '../types';
+
+/**
+ * Version of the persisted record format. Bump it whenever a change to types.ts alters what is
+ * stored, and add a migration from the previous version below.
+ *
+ * 1: records saved before versioning (one source per material in top-level fields)
+ * 2: materials list their inputs in `sources`
+ * 3: materials can be archived (`archivedAt`)
+ * 4: courses, and materials filed in them (`courseId`) with `tags`
+ * 5: materials and quizzes record the prompt template versions they came from (`generatedWith`)
+ * 6: materials can choose their own `outputLanguage`
+ * 7: materials keep `explanationVariants` for other audiences and styles
+ * 8: an explanation variant's `generatedWith` also records the audience and style template
+ */
+export const CURRENT_SCHEMA_VERSION = 8;
+const UNVERSIONED_SCHEMA_VERSION = 1;
+
+export type RecordKind = 'material' | 'quiz' | 'course';
+
+type StoredRecord = Record<string, any> & { schemaVersion?: number };
+type Migration = (record: StoredRecord) => StoredRecord;
+
+// For versions that only added optional fields: older records are already valid in the new format.
+const unchanged: Migration = record => record;
+
+const SOURCE_TYPES: SourceType[] = ['text', 'youtube', 'file', 'audio', 'article'];
+
+// Migrations are keyed by the version they upgrade from.
+const MATERIAL_MIGRATIONS: Record<number, Migration> = {
+  1: ({ captionFileName, transcriptSegments, audioAssetId, fileName, fileMimeType, sourceImages, ...material }) => {
+    if (material.sources) return material;
+    const type = SOURCE_TYPES.includes(material.type) ? material.type : 'text';
+    const source: MaterialSource = {
+      id: `${material.id}_source`,
+      type,
+      label: fileName || (type === 'text' ? 'Pasted text' : material.originalContent),
+      originalContent: material.originalContent,
+      extractedText: material.extractedText || '',
+      captionFileName, transcriptSegments, audioAssetId, fileName, fileMimeType, sourceImages,
+    };
+    return { ...material, sources: [source] };
+  },
+  2: unchanged,
+  3: unchanged,
+  4: unchanged,
+  5: unchanged,
+  6: unchanged,
+  // A variant's generatedWith was the explanation template's ref itself.
+  7: material => Array.isArray(material.explanationVariants) ? {
+    ...material,
+    explanationVariants: material.explanationVariants.map((variant: StoredRecord) =>
+      typeof variant?.generatedWith?.templateId === 'string' ? { ...variant, generatedWith: { explanation: variant.generatedWith } } : variant),
+  } : material,
+};
+
+// Quizzes only gained the optional generatedWith, in version 5.
+const QUIZ_MIGRATIONS: Record<number, Migration> = {
+  1: unchanged,
+  2: unchanged,
+  3: unchanged,
+  4: unchanged,
+  5: unchanged,
+  6: unchanged,
+  7: unchanged,
+};
+
+// Courses were added in version 4 and have not changed since; older ones only come from hand-made files.
+const COURSE_MIGRATIONS: Record<number, Migration> = {
+  1: unchanged,
+  2: unchanged,
+  3: unchanged,
+  4: unchanged,
+  5: unchanged,
+  6: unchanged,
+  7: unchanged,
+};
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || value === null || check(value);
+const isTemplateRef = (value: unknown) => isObject(value) && isString(value.templateId) && typeof value.version === 'number';
+
+/** Collects a readable problem for every check that fails, e.g. "sources[0].label is not text". */
+const createChecker = () => {
+  const problems: string[] = [];
+  const check = (condition: boolean, path: string, problem: string) => {
+    if (!condition) problems.push(`${path} ${problem}`);
+    return condition;
+  };
+  return { problems, check };
+};
+
+const validateMaterial = (material: StoredRecord): string[] => {
+  const { problems, check } = createChecker();
+  check(isString(material.id), 'id', 'is missing');
+  check([...SOURCE_TYPES, 'mixed'].includes(material.type), 'type', `"${material.type}" is not a known material type`);
+  check(isString(material.originalContent), 'originalContent', 'is not text');
+  check(isString(material.uploadDate), 'uploadDate', 'is missing');
+  check(isOptional(material.extractedText, isString), 'extractedText', 'is not text');
+  check(isOptional(material.archivedAt, isString), 'archivedAt', 'is not a date');
+  check(isOptional(material.courseId, isString), 'courseId', 'is not a course id');
+  check(isOptional(material.tags, tags => Array.isArray(tags) && tags.every(isString)), 'tags', 'are not a list of text');
+  check(isOptional(material.outputLanguage, isString), 'outputLanguage', 'is not a language code');
+
+  if (check(Array.isArray(material.sources), 'sources', 'is not a list')) {
+    material.sources.forEach((source: unknown, i: number) => {
+      if (!isObject(source)) {
+        check(false, `sources[${i}]`, 'is not an object');
+        return;
+      }
+      check(isString(source.id), `sources[${i}].id`, 'is missing');
+      check(SOURCE_TYPES.includes(source.type), `sources[${i}].type`, `"${source.type}" is not a known source type`);
+      check(isString(source.label), `sources[${i}].label`, 'is not text');
+      check(isString(source.extractedText), `sources[${i}].extractedText`, 'is not text');
+      check(isOptional(source.transcriptSegments, segments => Array.isArray(segments) && segments.every(segment =>
+        isObject(segment) && typeof segment.start === 'number' && typeof segment.end === 'number' && isString(segment.text))),
+        `sources[${i}].transcriptSegments`, 'contains invalid segments');
+      check(isOptional(source.sourceImages, images => Array.isArray(images) && images.every(isString)), `sources[${i}].sourceImages`, 'is not a list of images');
+    });
+  }
+
+  check(isOptional(material.notes, notes => isObject(notes) && Object.values(notes).every(note => isOptional(note, isString))), 'notes', 'are not text');
+  check(isOptional(material.explanationVariants, variants => Array.isArray(variants) && variants.every(variant =>
+    isObject(variant) && isString(variant.id) && isString(variant.audience) && isString(variant.style) && isString(variant.text) &&
+    isOptional(variant.generatedWith, generatedWith => isObject(generatedWith) &&
+      isOptional(generatedWith.explanation, isTemplateRef) && isOptional(generatedWith.preset, isTemplateRef)))),
+    'explanationVariants', 'are not a list of explanations');
+  check(isOptional(material.chatHistory, history => Array.isArray(history) && history.every(message =>
+    isObject(message) && isString(message.id) && ['user', 'ai'].includes(message.sender) && isString(message.text))),
+    'chatHistory', 'contains invalid messages');
+  check(isOptional(material.presentationContent, presentation => isObject(presentation) && isString(presentation.title) &&
+    Array.isArray(presentation.slides) && presentation.slides.every((slide: unknown) =>
+      isObject(slide) && isString(slide.title) && Array.isArray(slide.content))),
+    'presentationContent', 'is not a valid presentation');
+  check(isOptional(material.videoScenes, scenes => Array.isArray(scenes) && scenes.every(scene => isObject(scene) && isString(scene.script))),
+    'videoScenes', 'contains invalid scenes');
+  check(isOptional(material.generatedWith, isObject), 'generatedWith', 'is not an object');
+  return problems;
+};
+
+const validateQuiz = (quiz: StoredRecord): string[] => {
+  const { problems, check } = createChecker();
+  check(isString(quiz.id), 'id', 'is missing');
+  check(isString(quiz.contentId), 'contentId', 'is missing');
+  check(isString(quiz.timestamp), 'timestamp', 'is missing');
+  check(typeof quiz.durationSeconds === 'number', 'durationSeconds', 'is not a number');
+  check(isOptional(quiz.score, score => typeof score === 'number'), 'score', 'is not a number');
+  check(Array.isArray(quiz.questions) && quiz.questions.every((question: unknown) =>
+    isObject(question) && isString(question.questionText) && ['mcq', 'short_answer'].includes(question.type)),
+    'questions', 'contains invalid questions');
+  check(isOptional(quiz.generatedWith, isObject), 'generatedWith', 'is not an object');
+  return problems;
+};
+
+const validateCourse = (course: StoredRecord): string[] => {
+  const { problems, check } = createChecker();
+  check(isString(course.id), 'id', 'is missing');
+  check(isString(course.name), 'name', 'is not text');
+  check(isOptional(course.parentId, isString), 'parentId', 'is not a course id');
+  check(isString(course.createdAt), 'createdAt', 'is missing');
+  return problems;
+};
+
+const SCHEMAS: Record<RecordKind, { migrations: Record<number, Migration>; validate: (record: StoredRecord) => string[] }> = {
+  material: { migrations: MATERIAL_MIGRATIONS, validate: validateMaterial },
+  quiz: { migrations: QUIZ_MIGRATIONS, validate: validateQuiz },
+  course: { migrations: COURSE_MIGRATIONS, validate: validateCourse },
+};
+
+export type UpgradeResult<T> =
+  | { ok: true; record: T; migrated: boolean } // migrated: the stored copy is outdated and should be rewritten
+  | { ok: false; reason: string };
+
+/**
+ * Brings a stored record up to the current schema version by running every migration after its
+ * version, then validates it. Records that cannot be migrated or do not validate are rejected
+ * with a reason instead of being loaded half-broken.
+ */
+export const upgradeRecord = <T extends StudyMaterial | Quiz | Course>(kind: RecordKind, stored: unknown): UpgradeResult<T> => {
+  if (!isObject(stored)) return { ok: false, reason: 'The record is not an object.' };
+
+  const { migrations, validate } = SCHEMAS[kind];
+  const { schemaVersion = UNVERSIONED_SCHEMA_VERSION, ...fields } = stored as StoredRecord;
+  if (typeof schemaVersion !== 'number' || schemaVersion < UNVERSIONED_SCHEMA_VERSION) {
+    return { ok: false, reason: `Unknown schema version "${schemaVersion}".` };
+  }
+  if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+    return { ok: false, reason: `Saved by a newer version of Ameena AI (schema ${schemaVersion}; this version reads up to ${CURRENT_SCHEMA_VERSION}).` };
+  }
+
+  let record: StoredRecord = fields;
+  for (let version = schemaVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    try {
+      record = migrations[version](record);
+    } catch (error) {
+      return { ok: false, reason: `Migration from schema ${version} failed: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+
+  const problems = validate(record);
+  if (problems.length > 0) return { ok: false, reason: `Invalid ${kind}: ${problems.join('; ')}.` };
+  return { ok: true, record: record as T, migrated: schemaVersion !== CURRENT_SCHEMA_VERSION };
+};
+
+/** The form a record is stored in: stamped with the schema version it was written with. */
+export const stampRecord = <T extends object>(record: T) => ({ ...record, schemaVersion: CURRENT_SCHEMA_VERSION });
@@ -0,0 +1,203 @@
+import { StudyMaterial, Quiz, NoteLength } from '../types';
+import { describeExplanationVariant } from './explanationPresets';
+
+// Where a search hit lives, so a result can open the right card of the study page.
+export type SearchTarget =
+  | { focus: 'title' }
+  | { focus: 'original'; sourceNumber: number }
+  | { focus: 'explanation'; variantId?: string }
+  | { focus: 'notes'; noteLength: NoteLength }
+  | { focus: 'chat'; messageId: string }
+  | { focus: 'quiz'; quizId: string };
+
+export interface SearchDocument {
+  materialId: string;
+  materialTitle: string;
+  label: string; // e.g. "Detailed notes" or "Chat message"
+  text: string;
+  target: SearchTarget;
+}
+
+export interface SearchIndex {
+  documents: SearchDocument[];
+  postings: Map<string, Map<number, number>>; // term -> document index -> occurrences
+  documentLengths: number[];
+  averageLength: number;
+}
+
+export interface SnippetPart {
+  text: string;
+  isMatch: boolean;
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  snippet: SnippetPart[];
+}
+
+const NOTE_LENGTH_LABELS: Record<NoteLength, string> = {
+  [NoteLength.SHORT]: 'Short notes',
+  [NoteLength.MEDIUM]: 'Medium notes',
+  [NoteLength.DETAILED]: 'Detailed notes',
+};
+
+// Hits in a title matter more than hits in a long transcript.
+const FIELD_BOOST: Record<SearchTarget['focus'], number> = {
+  title: 3,
+  original: 1,
+  explanation: 1.2,
+  notes: 1.2,
+  chat: 1,
+  quiz: 1.1,
+};
+
+// BM25 parameters.
+const K1 = 1.2;
+const B = 0.75;
+
+const SNIPPET_RADIUS = 80;
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/** Lower-cases a word and strips accents, so "Café" matches "cafe". */
+const normalizeTerm = (word: string) => word.toLowerCase().normalize('NFD').replace(/\p{M}/gu, '');
+
+const tokenize = (text: string): string[] => (text.match(WORD_PATTERN) || []).map(normalizeTerm);
+
+const collectDocuments = (materials: StudyMaterial[], getQuizzes: (contentId: string) => Quiz[]): SearchDocument[] => {
+  const documents: SearchDocument[] = [];
+  materials.forEach(material => {
+    const materialTitle = material.title || 'Untitled material';
+    const add = (label: string, text: string | undefined, target: SearchTarget) => {
+      if (text?.trim()) documents.push({ materialId: material.id, materialTitle, label, text, target });
+    };
+
+    add('Title', [material.title, material.subject, material.topic, material.author, ...(material.tags || [])].filter(Boolean).join(' · '), { focus: 'title' });
+    material.sources.forEach((source, i) => {
+      add(material.sources.length > 1 ? `Source ${i + 1}: ${source.label}` : 'Original content', source.extractedText, { focus: 'original', sourceNumber: i + 1 });
+    });
+    add('Explanation', material.aiExplanation, { focus: 'explanation' });
+    material.explanationVariants?.forEach(variant => {
+      add(`Explanation (${describeExplanationVariant(variant)})`, variant.text, { focus: 'explanation', variantId: variant.id });
+    });
+    (Object.values(NoteLength) as NoteLength[]).forEach(noteLength => {
+      add(NOTE_LENGTH_LABELS[noteLength], material.notes?.[noteLength], { focus: 'notes', noteLength });
+    });
+    material.chatHistory?.forEach(message => {
+      add(message.sender === 'user' ? 'Your chat message' : "Ameena's chat reply", message.text, { focus: 'chat', messageId: message.id });
+    });
+    getQuizzes(material.id).forEach(quiz => {
+      const date = new Date(quiz.timestamp).toLocaleDateString();
+      quiz.questions.forEach(question => {
+        const answers = [...(question.options || []), ...[question.correctAnswer].flat()].join(' · ');
+        add(`Quiz question (${date})`, `${question.questionText}\n${answers}`, { focus: 'quiz', quizId: quiz.id });
+      });
+    });
+  });
+  return documents;
+};
+
+/** Builds an inverted index over the text of every material, its notes, chats and quiz questions. */
+export const buildSearchIndex = (materials: StudyMaterial[], getQuizzes: (contentId: string) => Quiz[]): SearchIndex => {
+  const documents = collectDocuments(materials, getQuizzes);
+  const postings = new Map<string, Map<number, number>>();
+  const documentLengths = documents.map((document, i) => {
+    const terms = tokenize(document.text);
+    terms.forEach(term => {
+      let documentCounts = postings.get(term);
+      if (!documentCounts) postings.set(term, documentCounts = new Map());
+      documentCounts.set(i, (documentCounts.get(i) || 0) + 1);
+    });
+    return terms.length;
+  });
+  const averageLength = documentLengths.reduce((sum, length) => sum + length, 0) / (documentLengths.length || 1);
+  return { documents, postings, documentLengths, averageLength };
+};
+
+/** The index terms a query word stands for: the word itself, or every term it starts for the word being typed. */
+const expandQueryTerm = (index: SearchIndex, term: string, isPrefix: boolean): string[] => {
+  if (!isPrefix) return index.postings.has(term) ? [term] : [];
+  return Array.from(index.postings.keys()).filter(candidate => candidate.startsWith(term));
+};
+
+/** Splits text into plain and matching parts around the first hit, trimmed to a short window. */
+const buildSnippet = (text: string, matches: (word: string) => boolean): SnippetPart[] => {
+  const ranges: [number, number][] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    if (matches(normalizeTerm(match[0]))) ranges.push([match.index!, match.index! + match[0].length]);
+  }
+  const firstHit = ranges[0]?.[0] ?? 0;
+  let start = Math.max(0, firstHit - SNIPPET_RADIUS);
+  let end = Math.min(text.length, firstHit + SNIPPET_RADIUS * 2);
+  // Start and end on word boundaries.
+  if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+  if (end < text.length) end = text.lastIndexOf(' ', end) > firstHit ? text.lastIndexOf(' ', end) : end;
+
+  const parts: SnippetPart[] = [];
+  let position = start;
+  ranges.filter(([from, to]) => from >= start && to <= end).forEach(([from, to]) => {
+    if (from > position) parts.push({ text: text.slice(position, from), isMatch: false });
+    parts.push({ text: text.slice(from, to), isMatch: true });
+    position = to;
+  });
+  if (position < end) parts.push({ text: text.slice(position, end), isMatch: false });
+
+  if (start > 0) parts.unshift({ text: '…', isMatch: false });
+  if (end < text.length) parts.push({ text: '…', isMatch: false });
+  return parts.map(part => ({ ...part, text: part.isMatch ? part.text : part.text.replace(/\s+/g, ' ') }));
+};
+
+/**
+ * Finds the documents that contain every word of the query, ranked by BM25 with a boost per
+ * field. The last word also matches longer words, so results appear while typing.
+ */
+export const searchLibrary = (index: SearchIndex, query: string, limit = 50): SearchResult[] => {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0) return [];
+  const endsWithWord = /[\p{L}\p{N}]$/u.test(query);
+
+  const expanded = queryTerms.map((term, i) => expandQueryTerm(index, term, endsWithWord && i === queryTerms.length - 1));
+  if (expanded.some(terms => terms.length === 0)) return [];
+
+  const documentCount = index.documents.length;
+  const scores = new Map<number, number>();
+  expanded.forEach((terms, i) => {
+    const termScores = new Map<number, number>();
+    terms.forEach(term => {
+      const documentCounts = index.postings.get(term)!;
+      const idf = Math.log(1 + (documentCount - documentCounts.size + 0.5) / (documentCounts.size + 0.5));
+      documentCounts.forEach((count, documentIndex) => {
+        const lengthRatio = index.documentLengths[documentIndex] / (index.averageLength || 1);
+        const score = idf * (count * (K1 + 1)) / (count + K1 * (1 - B + B * lengthRatio));
+        termScores.set(documentIndex, Math.max(termScores.get(documentIndex) || 0, score));
+      });
+    });
+    // Every query word must match: keep only documents that matched all previous words too.
+    if (i === 0) termScores.forEach((score, documentIndex) => scores.set(documentIndex, score));
+    else scores.forEach((score, documentIndex) => {
+      const termScore = termScores.get(documentIndex);
+      if (termScore === undefined) scores.delete(documentIndex);
+      else scores.set(documentIndex, score + termScore);
+    });
+  });
+
+  const matchingTerms = new Set(expanded.flat());
+  return Array.from(scores.entries())
+    .map(([documentIndex, score]) => {
+      const document = index.documents[documentIndex];
+      return { document, score: score * FIELD_BOOST[document.target.focus], snippet: buildSnippet(document.text, word => matchingTerms.has(word)) };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+/** The study page URL that opens the card, chat message or quiz a result was found in. */
+export const getSearchResultPath = ({ materialId, target }: SearchDocument): string => {
+  const params = new URLSearchParams({ focus: target.focus });
+  if (target.focus === 'original') params.set('source', String(target.sourceNumber));
+  if (target.focus === 'explanation' && target.variantId) params.set('variant', target.variantId);
+  if (target.focus === 'notes') params.set('note', target.noteLength);
+  if (target.focus === 'chat') params.set('message', target.messageId);
+  if (target.focus === 'quiz') params.set('quiz', target.quizId);
+  return `/study/${materialId}?${params.toString()}`;
+};
@@ -0,0 +1,22 @@
+import { MaterialSource, UploadedContent } from '../types';
+
+// Each source in a combined material starts with a header line, e.g. "=== Source 2: slides.pdf ===".
+export const SOURCE_HEADER_PATTERN = /^=== Source (\d+): (.*) ===$/gm;
+
+// Citations of a source in generated text: [S2], or [S2 04:35] for a moment of a timestamped source.
+export const SOURCE_CITATION_PATTERN = /\[S(\d+)(?:,?\s+((?:\d+:)?\d{1,2}:\d{2}))?\]/g;
+
+export const formatSourceHeader = (sourceNumber: number, label: string) =>
+  `=== Source ${sourceNumber}: ${label.replace(/\s+/g, ' ').trim()} ===`;
+
+/** Joins the sources into the single text the generators work over, with a header per source. */
+export const combineSourceTexts = (sources: MaterialSource[]): string => {
+  if (sources.length === 1) return sources[0].extractedText;
+  return sources
+    .map((source, i) => `${formatSourceHeader(i + 1, source.label)}\n${source.extractedText.trim()}`)
+    .join('\n\n');
+};
+
+/** The material type for a set of sources: their shared type, or 'mixed'. */
+export const getCombinedSourceType = (sources: MaterialSource[]): UploadedContent['type'] =>
+  sources.every(source => source.type === sources[0].type) ? sources[0].type : 'mixed';
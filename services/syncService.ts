@@ -0,0 +1,259 @@
+import { StudyMaterial, Quiz, Course } from '../types';
+import { loadLibrary, collectAssetIds, listSyncStates, saveSyncedChanges, SyncRecordState, SyncedChanges } from './libraryRepository';
+import { getAsset, putAsset } from './assetStore';
+import { RecordKind, upgradeRecord, stampRecord } from './schemaMigrations';
+import { hashValue } from './hashing';
+
+type SyncedRecord = StudyMaterial | Quiz | Course;
+
+const MANIFEST_FORMAT = 'ameena-ai-sync';
+const MANIFEST_FORMAT_VERSION = 1;
+const MAX_ATTEMPTS = 3;
+
+/** One record as listed in the manifest on the server. */
+export interface SyncManifestEntry {
+  kind: RecordKind;
+  id: string;
+  title: string;
+  hash: string | null; // Content hash of the current version; null once the record has been deleted
+  updatedAt: string;
+}
+
+/** The index of everything on the server. It is the only file a sync ever overwrites. */
+export interface SyncManifest {
+  format: typeof MANIFEST_FORMAT;
+  formatVersion: number;
+  updatedAt: string;
+  records: Record<string, SyncManifestEntry>; // Keyed like SyncRecordState.key
+  assets: string[];
+}
+
+/**
+ * A place the library can be synced to. Every version of a record is stored under its content
+ * hash and never overwritten, so only the manifest needs a guarded write: a device that read an
+ * outdated manifest must not replace a newer one.
+ */
+export interface SyncProvider {
+  readonly label: string;
+  /**
+   * Reads the manifest, with a revision that guards the next write. Both are null when nothing
+   * has been synced yet.
+   */
+  pullManifest(): Promise<{ manifest: SyncManifest | null; revision: string | null }>;
+  /** Replaces the manifest; fails with a 'conflict' SyncError if it changed since `revision` was read. */
+  pushManifest(manifest: SyncManifest, revision: string | null): Promise<void>;
+  /** Reads the version of a record an entry points to; null if it no longer exists. */
+  pullRecord(entry: SyncManifestEntry): Promise<unknown | null>;
+  pushRecord(entry: SyncManifestEntry, record: SyncedRecord): Promise<void>;
+  /** Deletes a version of a record that the manifest no longer points to. */
+  removeRecord(entry: SyncManifestEntry): Promise<void>;
+  pullAsset(id: string): Promise<Blob | null>;
+  pushAsset(id: string, blob: Blob): Promise<void>;
+}
+
+export type SyncErrorKind = 'network' | 'auth' | 'conflict' | 'server' | 'invalid';
+
+/**
+ * Raised when a sync fails. The message is safe to show to the user; a 'conflict' means another
+ * device synced at the same time and the sync can simply be run again.
+ */
+export class SyncError extends Error {
+  kind: SyncErrorKind;
+
+  constructor(kind: SyncErrorKind, message: string) {
+    super(message);
+    this.name = 'SyncError';
+    this.kind = kind;
+  }
+}
+
+/** Which side wins for a record that was changed both here and on the server. */
+export type ConflictResolution = 'local' | 'remote';
+
+export interface SyncConflict {
+  key: string;
+  kind: RecordKind;
+  id: string;
+  localTitle: string | null; // null if the record was deleted on this device
+  remoteTitle: string | null; // null if the record was deleted on the server
+  remoteUpdatedAt: string;
+}
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+  conflicts: SyncConflict[]; // Left untouched until the user picks a side
+  skipped: number; // Records on the server that could not be upgraded or validated
+  finishedAt: string;
+}
+
+export const syncStateKey = (kind: RecordKind, id: string) => `${kind}:${id}`;
+
+export const hashRecord = (record: SyncedRecord): Promise<string> => hashValue(stampRecord(record));
+
+const describeRecord = (kind: RecordKind, record: SyncedRecord): string => {
+  if (kind === 'material') return (record as StudyMaterial).title || 'Untitled material';
+  if (kind === 'course') return (record as Course).name;
+  return `Quiz attempt on ${(record as Quiz).timestamp.slice(0, 10)}`;
+};
+
+/**
+ * Compares every record with the server and with how it looked at the last sync: a record that
+ * changed only here is pushed, one that changed only on the server is pulled, and one that changed
+ * on both sides is a conflict, resolved by `resolutions` or reported and left as it is.
+ */
+const syncOnce = async (provider: SyncProvider, resolutions: Map<string, ConflictResolution>): Promise<SyncResult> => {
+  const library = await loadLibrary();
+  const local = new Map<string, { kind: RecordKind; record: SyncedRecord }>();
+  library.materials.forEach(record => local.set(syncStateKey('material', record.id), { kind: 'material', record }));
+  library.quizzes.forEach(record => local.set(syncStateKey('quiz', record.id), { kind: 'quiz', record }));
+  library.courses.forEach(record => local.set(syncStateKey('course', record.id), { kind: 'course', record }));
+  const localHashes = new Map(await Promise.all(Array.from(local, async ([key, { record }]) => [key, await hashRecord(record)] as const)));
+  const states = new Map((await listSyncStates()).map(state => [state.key, state]));
+
+  const { manifest, revision } = await provider.pullManifest();
+  if (manifest && manifest.format !== MANIFEST_FORMAT) {
+    throw new SyncError('invalid', "The sync folder contains a manifest that was not written by Ameena AI. Choose an empty folder.");
+  }
+  if (manifest && manifest.formatVersion > MANIFEST_FORMAT_VERSION) {
+    throw new SyncError('invalid', "The library on the server was synced by a newer version of Ameena AI. Update the app to sync with it.");
+  }
+  const remoteEntries = manifest?.records || {};
+  const remoteAssets = new Set(manifest?.assets || []);
+
+  const now = new Date().toISOString();
+  const nextEntries = { ...remoteEntries };
+  const toPush: { entry: SyncManifestEntry; record: SyncedRecord }[] = [];
+  const toPull: SyncManifestEntry[] = [];
+  const superseded: SyncManifestEntry[] = [];
+  const conflicts: SyncConflict[] = [];
+  const changes: SyncedChanges = { pulled: [], removed: [], states: [], clearedStateKeys: [] };
+  const markSynced = (kind: RecordKind, id: string, hash: string | null) => {
+    const key = syncStateKey(kind, id);
+    if (hash) changes.states.push({ key, kind, id, hash, syncedAt: now });
+    else if (states.has(key)) changes.clearedStateKeys.push(key);
+  };
+  let pushedDeletions = 0;
+
+  const keys = new Set([...local.keys(), ...Object.keys(remoteEntries), ...states.keys()]);
+  for (const key of keys) {
+    const localRecord = local.get(key);
+    const remoteEntry = remoteEntries[key];
+    const { kind, id } = localRecord ? { kind: localRecord.kind, id: localRecord.record.id } : remoteEntry || states.get(key) as SyncRecordState;
+    const localHash = localHashes.get(key) ?? null;
+    const remoteHash = remoteEntry?.hash ?? null;
+    // A record the manifest does not list at all, e.g. after the server folder was emptied, is pushed again.
+    const baseHash = remoteEntry ? states.get(key)?.hash ?? null : null;
+
+    if (localHash === remoteHash) {
+      markSynced(kind, id, localHash);
+      continue;
+    }
+    let winner: ConflictResolution | undefined;
+    if (remoteHash === baseHash) winner = 'local';
+    else if (localHash === baseHash) winner = 'remote';
+    else winner = resolutions.get(key);
+
+    if (!winner) {
+      conflicts.push({
+        key, kind, id,
+        localTitle: localRecord ? describeRecord(kind, localRecord.record) : null,
+        remoteTitle: remoteHash ? remoteEntry.title : null,
+        remoteUpdatedAt: remoteEntry.updatedAt,
+      });
+    } else if (winner === 'local') {
+      if (remoteHash) superseded.push(remoteEntry);
+      if (localRecord) {
+        const entry: SyncManifestEntry = { kind, id, title: describeRecord(kind, localRecord.record), hash: localHash, updatedAt: now };
+        nextEntries[key] = entry;
+        toPush.push({ entry, record: localRecord.record });
+      } else {
+        nextEntries[key] = { ...remoteEntry, hash: null, updatedAt: now };
+        pushedDeletions++;
+      }
+      markSynced(kind, id, localHash);
+    } else if (remoteHash) {
+      toPull.push(remoteEntry);
+    } else {
+      changes.removed.push({ kind, id });
+      markSynced(kind, id, null);
+    }
+  }
+
+  for (const { entry, record } of toPush) {
+    if (entry.kind === 'material') {
+      for (const assetId of collectAssetIds(record as StudyMaterial)) {
+        if (remoteAssets.has(assetId)) continue;
+        const blob = await getAsset(assetId);
+        if (!blob) {
+          console.warn(`Asset ${assetId} is missing and will not be synced.`);
+          continue;
+        }
+        await provider.pushAsset(assetId, blob);
+        remoteAssets.add(assetId);
+      }
+    }
+    await provider.pushRecord(entry, stampRecord(record));
+  }
+
+  let skipped = 0;
+  for (const entry of toPull) {
+    const raw = await provider.pullRecord(entry);
+    if (raw === null) throw new SyncError('conflict', "A record changed on the server during the sync.");
+    const result = upgradeRecord<SyncedRecord>(entry.kind, raw);
+    if (result.ok === false) {
+      console.warn(`Skipping a ${entry.kind} on the sync server: ${result.reason}`);
+      skipped++;
+      continue;
+    }
+    if (entry.kind === 'material') {
+      for (const assetId of collectAssetIds(result.record as StudyMaterial)) {
+        if (await getAsset(assetId)) continue;
+        const blob = await provider.pullAsset(assetId);
+        if (blob) await putAsset(assetId, blob);
+        else console.warn(`Asset ${assetId} is missing on the sync server.`);
+      }
+    }
+    changes.pulled.push({ kind: entry.kind, record: result.record });
+    // The manifest's hash is kept even if the record was upgraded here; the upgrade is pushed next time.
+    markSynced(entry.kind, entry.id, entry.hash);
+  }
+
+  // The manifest is the commit point: nothing is changed here until the server has accepted it.
+  if (toPush.length > 0 || pushedDeletions > 0) {
+    await provider.pushManifest({ format: MANIFEST_FORMAT, formatVersion: MANIFEST_FORMAT_VERSION, updatedAt: now, records: nextEntries, assets: Array.from(remoteAssets) }, revision);
+    await Promise.all(superseded.map(entry => provider.removeRecord(entry).catch(error => console.warn(`Failed to remove an old version of ${entry.kind} ${entry.id}:`, error))));
+  }
+
+  const replaced = library.materials.filter(material =>
+    changes.pulled.some(({ kind, record }) => kind === 'material' && record.id === material.id) ||
+    changes.removed.some(({ kind, id }) => kind === 'material' && id === material.id));
+  await saveSyncedChanges(changes, replaced);
+
+  return { pushed: toPush.length + pushedDeletions, pulled: changes.pulled.length + changes.removed.length, conflicts, skipped, finishedAt: now };
+};
+
+/** Syncs the library with a provider, starting over if another device synced at the same time. */
+export const syncLibrary = async (provider: SyncProvider, resolutions = new Map<string, ConflictResolution>()): Promise<SyncResult> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await syncOnce(provider, resolutions);
+    } catch (error) {
+      if (!(error instanceof SyncError && error.kind === 'conflict') || attempt >= MAX_ATTEMPTS) throw error;
+      console.info(`The library on ${provider.label} changed during the sync; trying again.`);
+    }
+  }
+};
+
+export type MaterialSyncStatus = 'synced' | 'changed' | 'never';
+
+/** Whether each material is unchanged since it was last synced, and when that was. */
+export const getMaterialSyncStatuses = async (materials: StudyMaterial[]): Promise<Map<string, { status: MaterialSyncStatus; syncedAt?: string }>> => {
+  const states = new Map((await listSyncStates()).map(state => [state.key, state]));
+  return new Map(await Promise.all(materials.map(async material => {
+    const state = states.get(syncStateKey('material', material.id));
+    if (!state) return [material.id, { status: 'never' as MaterialSyncStatus }] as const;
+    const status: MaterialSyncStatus = await hashRecord(material) === state.hash ? 'synced' : 'changed';
+    return [material.id, { status, syncedAt: state.syncedAt }] as const;
+  })));
+};
@@ -0,0 +1,154 @@
+import { TranscriptSegment } from '../types';
+import { FileExtractionError } from './fileExtractionService';
+
+// Caption cues are only a few seconds long; they are merged into segments of roughly this length.
+const TARGET_SEGMENT_SECONDS = 20;
+const MIN_SEGMENT_SECONDS = 8;
+
+const TIME_PATTERN = /(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})/;
+const ARROW_TIMING_PATTERN = new RegExp(`^\\s*(${TIME_PATTERN.source})\\s*-->\\s*(${TIME_PATTERN.source})`);
+const SBV_TIMING_PATTERN = new RegExp(`^\\s*(${TIME_PATTERN.source}),(${TIME_PATTERN.source})\\s*$`);
+
+/** Matches timestamp citations such as [04:35] or [1:02:10] in generated text. */
+export const TIMESTAMP_CITATION_PATTERN = /\[((?:\d+:)?\d{1,2}:\d{2})\]/g;
+
+export const CAPTION_FILE_EXTENSIONS = ['.vtt', '.srt', '.sbv'];
+
+const parseTime = (value: string): number => {
+  const match = value.match(TIME_PATTERN);
+  if (!match) return NaN;
+  const [, hours, minutes, seconds, fraction] = match;
+  return (Number(hours) || 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, '0')) / 1000;
+};
+
+/** Parses "mm:ss" or "h:mm:ss" into seconds. */
+export const parseTimestamp = (value: string): number => {
+  const parts = value.split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+/** Formats seconds as "mm:ss", or "h:mm:ss" for recordings longer than an hour. */
+export const formatTimestamp = (totalSeconds: number): string => {
+  const seconds = Math.floor(totalSeconds);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = String(seconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${String(minutes).padStart(2, '0')}:${secs}`;
+};
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+interface Cue {
+  start: number;
+  end: number;
+  lines: string[];
+  speaker?: string;
+}
+
+const parseCues = (content: string): Cue[] => {
+  const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+  const cues: Cue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => ARROW_TIMING_PATTERN.test(line) || SBV_TIMING_PATTERN.test(line));
+    if (timingIndex === -1) continue; // WEBVTT header, NOTE and STYLE blocks
+
+    const timing = lines[timingIndex].match(ARROW_TIMING_PATTERN) || lines[timingIndex].match(SBV_TIMING_PATTERN)!;
+    let speaker: string | undefined;
+    const textLines = lines.slice(timingIndex + 1)
+      .map(line => {
+        const voice = line.match(/<v(?:\.[\w.-]+)?\s+([^>]+)>/);
+        if (voice) speaker = voice[1].trim();
+        return decodeEntities(line.replace(/<[^>]+>/g, '')).trim();
+      })
+      .filter(Boolean);
+
+    if (textLines.length > 0) {
+      cues.push({ start: parseTime(timing[1]), end: parseTime(timing[6]), lines: textLines, speaker });
+    }
+  }
+  return cues;
+};
+
+// Auto-generated captions roll: each cue repeats the previous cue's last line before adding a new one.
+const removeRollingDuplicates = (cues: Cue[]): Cue[] => {
+  const result: Cue[] = [];
+  let previousLines: string[] = [];
+  for (const cue of cues) {
+    const newLines = cue.lines.filter(line => !previousLines.includes(line));
+    previousLines = cue.lines;
+    if (newLines.length > 0) result.push({ ...cue, lines: newLines });
+  }
+  return result;
+};
+
+/** Merges short cues into sentence-sized segments without crossing a change of speaker. */
+export const mergeIntoSegments = (cues: { start: number; end: number; text: string; speaker?: string }[]): TranscriptSegment[] => {
+  const segments: TranscriptSegment[] = [];
+  let current: TranscriptSegment | null = null;
+
+  for (const cue of cues) {
+    if (current && current.speaker === cue.speaker) {
+      const duration = current.end - current.start;
+      const endsSentence = /[.?!]["')\]]?$/.test(current.text);
+      if (duration < TARGET_SEGMENT_SECONDS && !(endsSentence && duration >= MIN_SEGMENT_SECONDS)) {
+        current.text = `${current.text} ${cue.text}`;
+        current.end = cue.end;
+        continue;
+      }
+    }
+    current = { ...cue };
+    segments.push(current);
+  }
+  return segments;
+};
+
+/** Parses a WebVTT (.vtt), SubRip (.srt) or YouTube (.sbv) caption file into timestamped transcript segments. */
+export const parseCaptionFile = (content: string, fileName: string): TranscriptSegment[] => {
+  const extension = `.${fileName.split('.').pop()?.toLowerCase()}`;
+  if (!CAPTION_FILE_EXTENSIONS.includes(extension)) {
+    throw new FileExtractionError(`"${fileName}" is not a caption file. Upload a .vtt, .srt or .sbv file.`);
+  }
+
+  const cues = removeRollingDuplicates(parseCues(content)).filter(cue => !Number.isNaN(cue.start) && !Number.isNaN(cue.end));
+  if (cues.length === 0) {
+    throw new FileExtractionError(`No captions were found in "${fileName}". Make sure it is a valid caption file.`);
+  }
+  return mergeIntoSegments(cues.map(cue => ({ start: cue.start, end: cue.end, text: cue.lines.join(' '), speaker: cue.speaker })));
+};
+
+/** Renders segments as "[mm:ss] text" lines, the form stored in extractedText and cited back by the model. */
+export const formatTranscript = (segments: TranscriptSegment[]): string =>
+  segments
+    .map(segment => `[${formatTimestamp(segment.start)}] ${segment.speaker ? `${segment.speaker}: ` : ''}${segment.text}`)
+    .join('\n');
+
+// --- YouTube links ---
+
+export const getYouTubeVideoId = (url: string): string | null => {
+  try {
+    const parsed = new URL(url.trim());
+    const host = parsed.hostname.replace(/^(www\.|m\.|music\.)/, '');
+    if (host === 'youtu.be') return parsed.pathname.split('/')[1] || null;
+    if (host !== 'youtube.com' && host !== 'youtube-nocookie.com') return null;
+    if (parsed.pathname === '/watch') return parsed.searchParams.get('v');
+    const match = parsed.pathname.match(/^\/(?:embed|shorts|live|v)\/([\w-]+)/);
+    return match ? match[1] : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Builds a link that opens the video at the given moment. */
+export const buildYouTubeTimestampUrl = (videoUrl: string, seconds: number): string | null => {
+  const videoId = getYouTubeVideoId(videoUrl);
+  return videoId ? `https://www.youtube.com/watch?v=${videoId}&t=${Math.floor(seconds)}s` : null;
+};
@@ -0,0 +1,129 @@
+import { LOCAL_STORAGE_USAGE_SETTINGS_KEY } from '../constants';
+import { USAGE_STORE, runRequest } from './libraryDb';
+import { LlmProviderId, AiServiceError } from './llmProvider';
+
+export type UsageFeature = 'explanation' | 'notes' | 'summary' | 'quiz' | 'feedback' | 'chat' | 'presentation' | 'diagram' | 'video' | 'transcription' | 'metadata';
+
+export const USAGE_FEATURE_LABELS: Record<UsageFeature, string> = {
+  explanation: 'Explanations',
+  notes: 'Notes',
+  summary: 'Summaries',
+  quiz: 'Quizzes',
+  feedback: 'Quiz feedback',
+  chat: 'Chat',
+  presentation: 'Presentations',
+  diagram: 'Diagrams',
+  video: 'Videos',
+  transcription: 'Transcription',
+  metadata: 'Title and subject suggestions',
+};
+
+/** One AI request: the tokens it was billed for and the images it made. */
+export interface UsageRecord {
+  id?: number;
+  timestamp: string;
+  feature: UsageFeature;
+  materialId?: string;
+  provider: LlmProviderId;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+}
+
+export interface UsageSettings {
+  inputPricePerMillion: number; // US dollars per million input tokens
+  outputPricePerMillion: number; // US dollars per million output tokens, including thinking
+  pricePerImage: number;
+  dailyBudget: number | null; // US dollars; new requests are refused once the estimated cost reaches it
+  monthlyBudget: number | null;
+}
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  cost: number;
+}
+
+// The list prices of Gemini 2.5 Flash and Imagen 4.
+const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  inputPricePerMillion: 0.3,
+  outputPricePerMillion: 2.5,
+  pricePerImage: 0.04,
+  dailyBudget: null,
+  monthlyBudget: null,
+};
+
+export const loadUsageSettings = (): UsageSettings => {
+  try {
+    return { ...DEFAULT_USAGE_SETTINGS, ...JSON.parse(localStorage.getItem(LOCAL_STORAGE_USAGE_SETTINGS_KEY) || '{}') };
+  } catch (error) {
+    console.error("Failed to read the AI usage settings:", error);
+    return DEFAULT_USAGE_SETTINGS;
+  }
+};
+
+export const saveUsageSettings = (settings: UsageSettings) => {
+  localStorage.setItem(LOCAL_STORAGE_USAGE_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const formatCost = (dollars: number) => `$${dollars < 10 ? dollars.toFixed(2) : dollars.toFixed(0)}`;
+
+export const startOfDay = (date = new Date()) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const startOfMonth = (date = new Date()) => new Date(date.getFullYear(), date.getMonth(), 1);
+
+/** What a request cost at the configured prices. Answers from the mock provider are free. */
+export const estimateCost = (record: UsageRecord, settings: UsageSettings): number => {
+  if (record.provider === 'mock') return 0;
+  return (record.inputTokens * settings.inputPricePerMillion + record.outputTokens * settings.outputPricePerMillion) / 1_000_000
+    + record.images * settings.pricePerImage;
+};
+
+export const sumUsage = (records: UsageRecord[], settings: UsageSettings): UsageTotals => records.reduce((totals, record) => ({
+  requests: totals.requests + 1,
+  inputTokens: totals.inputTokens + record.inputTokens,
+  outputTokens: totals.outputTokens + record.outputTokens,
+  images: totals.images + record.images,
+  cost: totals.cost + estimateCost(record, settings),
+}), { requests: 0, inputTokens: 0, outputTokens: 0, images: 0, cost: 0 });
+
+/** Totals per group, largest estimated cost first. */
+export const groupUsage = (records: UsageRecord[], settings: UsageSettings, groupOf: (record: UsageRecord) => string): { group: string; totals: UsageTotals }[] => {
+  const groups = new Map<string, UsageRecord[]>();
+  records.forEach(record => {
+    const group = groupOf(record);
+    groups.set(group, [...(groups.get(group) || []), record]);
+  });
+  return Array.from(groups, ([group, groupRecords]) => ({ group, totals: sumUsage(groupRecords, settings) }))
+    .sort((a, b) => b.totals.cost - a.totals.cost || b.totals.requests - a.totals.requests);
+};
+
+/** Logs a request. Failing to log it never fails the generation. */
+export const recordUsage = async (record: Omit<UsageRecord, 'id' | 'timestamp'>): Promise<void> => {
+  try {
+    await runRequest(USAGE_STORE, 'readwrite', store => store.add({ ...record, timestamp: new Date().toISOString() } satisfies UsageRecord));
+  } catch (error) {
+    console.warn("Failed to record AI usage:", error);
+  }
+};
+
+export const getUsageRecords = (since: Date): Promise<UsageRecord[]> =>
+  runRequest<UsageRecord[]>(USAGE_STORE, 'readonly', store => store.index('timestamp').getAll(IDBKeyRange.lowerBound(since.toISOString())));
+
+/** Refuses a new request once today's or this month's estimated cost has reached its budget. */
+export const ensureWithinBudget = async (): Promise<void> => {
+  const settings = loadUsageSettings();
+  if (settings.dailyBudget === null && settings.monthlyBudget === null) return;
+
+  const monthRecords = await getUsageRecords(startOfMonth());
+  if (settings.monthlyBudget !== null && sumUsage(monthRecords, settings).cost >= settings.monthlyBudget) {
+    throw new AiServiceError('quota', `This month's AI budget of ${formatCost(settings.monthlyBudget)} has been reached. Raise it on the dashboard to continue.`);
+  }
+  const today = startOfDay().toISOString();
+  if (settings.dailyBudget !== null && sumUsage(monthRecords.filter(record => record.timestamp >= today), settings).cost >= settings.dailyBudget) {
+    throw new AiServiceError('quota', `Today's AI budget of ${formatCost(settings.dailyBudget)} has been reached. Raise it on the dashboard to continue.`);
+  }
+};
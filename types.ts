@@ -1,18 +1,45 @@
 
 
+export interface TranscriptSegment {
+  start: number; // Seconds from the beginning of the recording
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+export type SourceType = 'text' | 'youtube' | 'file' | 'audio' | 'article';
+
+// One input of a study material: pasted text, a YouTube video, a document, a recording or a web article.
+export interface MaterialSource {
+  id: string;
+  type: SourceType;
+  label: string; // Shown in citations and headings: file name, video URL, article title or "Pasted text"
+  originalContent: string; // Pasted text, YouTube URL, or original file name
+  extractedText: string;
+  captionFileName?: string; // Caption file (.vtt/.srt/.sbv) attached to a YouTube URL
+  transcriptSegments?: TranscriptSegment[]; // Timestamped transcript from the caption file or audio transcription
+  audioAssetId?: string; // Id of the uploaded recording in the asset store (see services/assetStore.ts)
+  fileName?: string;
+  fileMimeType?: string;
+  sourceImages?: string[]; // Data URLs of an uploaded image or the rendered pages of a scanned PDF
+  author?: string; // Author named in a web article's metadata
+}
+
 export interface UploadedContent {
   id: string;
-  type: 'text' | 'youtube' | 'file'; // Added 'file'
-  originalContent: string; // Pasted text, YouTube URL, or Original FileName for 'file' type
-  fileName?: string; // Original name of the uploaded file
-  fileMimeType?: string; // Mime type of the uploaded file
-  extractedText?: string; // Text extracted, transcript, or simulated text from file
+  type: SourceType | 'mixed'; // 'mixed' when the sources are of different types
+  sources: MaterialSource[]; // The material's inputs; older single-source records are converted by services/schemaMigrations.ts
+  originalContent: string; // Source labels, joined; kept for display
+  extractedText?: string; // Text of all sources combined; each source starts with a "=== Source N: label ===" header when there are several
   title?: string;
+  author?: string; // Taken from an imported article's metadata rather than suggested by AI
   subject?: string;
   topic?: string;
   difficulty?: 'Easy' | 'Medium' | 'Hard';
+  outputLanguage?: string; // Language code the study content is generated in; the global setting applies when missing
   uploadDate: string;
   aiExplanation?: string; // Add aiExplanation to base interface
+  generatedWith?: ArtifactTemplates; // The prompt template versions the AI-generated fields came from
 }
 
 export enum NoteLength {
@@ -32,6 +59,7 @@ export interface QuizQuestion {
   questionText: string;
   options?: string[]; // For MCQ
   correctAnswer: string | string[]; // string for SA, string for MCQ option, string[] for multiple correct MCQs (if ever needed)
+  sourceNumber?: number; // 1-based source the question is drawn from, for materials with several sources
   userAnswer?: string;
   isCorrect?: boolean;
 }
@@ -43,6 +71,7 @@ export interface Quiz {
   score?: number;
   timestamp: string;
   durationSeconds: number; // Duration of the quiz in seconds
+  generatedWith?: PromptTemplateRef; // The prompt template version the questions came from
 }
 
 export interface GroundingSource {
@@ -60,6 +89,7 @@ export interface ChatMessage {
 
 export interface AiGeneratedFeedback {
   text: string;
+  generatedWith?: PromptTemplateRef; // The feedback template and its version
 }
 
 export interface SlideContent {
@@ -80,14 +110,55 @@ export interface VideoScene {
   imageUrl?: string;
 }
 
+/** Which version of a prompt template produced a generated artifact (see services/promptTemplates.ts). */
+export interface PromptTemplateRef {
+  templateId: string;
+  version: number;
+  customized: boolean; // Edited on the Prompts page rather than built in
+  courseId?: string; // Set when the version edited for a course was used
+}
+
+export interface ArtifactTemplates {
+  explanation?: PromptTemplateRef;
+  notes?: Partial<Record<NoteLength, PromptTemplateRef>>;
+  presentation?: PromptTemplateRef;
+  diagram?: PromptTemplateRef;
+  video?: PromptTemplateRef;
+}
+
+export type ExplanationAudience = 'middle-school' | 'high-school' | 'undergraduate' | 'expert';
+export type ExplanationStyle = 'analogies' | 'step-by-step' | 'exam-focused' | 'feynman';
+
+/** An explanation written for a chosen audience and teaching style, kept alongside the standard one. */
+export interface ExplanationVariant {
+  id: string;
+  audience: ExplanationAudience;
+  style: ExplanationStyle;
+  text: string;
+  createdAt: string;
+  generatedWith?: { explanation?: PromptTemplateRef; preset?: PromptTemplateRef }; // The explanation and the audience and style template versions it came from
+}
+
 export interface StudyMaterial extends UploadedContent {
   notes?: AiGeneratedNotes;
   aiSummary?: string; 
   aiExplanation?: string;
+  explanationVariants?: ExplanationVariant[]; // At most one per audience and style
   chatHistory?: ChatMessage[];
   presentationContent?: PresentationContent;
   blockDiagramMermaid?: string;
   videoScenes?: VideoScene[];
+  archivedAt?: string; // Set while the material is archived; archived materials are hidden from the dashboard list
+  courseId?: string; // Course or folder the material is filed in; unfiled when missing
+  tags?: string[];
+}
+
+/** A user-defined course or folder. Folders can be nested inside a course via parentId. */
+export interface Course {
+  id: string;
+  name: string;
+  parentId?: string;
+  createdAt: string;
 }
 
 // For Gemini API related types, we will use those from "@google/genai" directly in service.